@@ -0,0 +1,333 @@
+package main
+
+import (
+	"bytes"
+	"context"
+	"encoding/json"
+	"errors"
+	"fmt"
+	"net/http"
+	"os"
+	"os/exec"
+	"sync"
+	"syscall"
+	"time"
+	"unicode/utf8"
+)
+
+const (
+	defaultExecTimeout = 5 * time.Minute
+	maxExecTimeout     = 30 * time.Minute
+	// Output beyond this many bytes per stream is dropped so a chatty
+	// command cannot exhaust the agent's memory.
+	maxOutputBytes = 1 << 20
+)
+
+type execRequest struct {
+	// ID lets a later /exec/cancel request find this command
+	ID        string            `json:"id,omitempty"`
+	Command   string            `json:"command"`
+	Cwd       string            `json:"cwd,omitempty"`
+	Env       map[string]string `json:"env,omitempty"`
+	TimeoutMs int64             `json:"timeoutMs,omitempty"`
+}
+
+type execResponse struct {
+	ExitCode   int    `json:"exitCode"`
+	Stdout     string `json:"stdout"`
+	Stderr     string `json:"stderr"`
+	DurationMs int64  `json:"durationMs"`
+	TimedOut   bool   `json:"timedOut"`
+	Cancelled  bool   `json:"cancelled"`
+	Truncated  bool   `json:"truncated"`
+}
+
+// execEvent is one line of the NDJSON stream returned by /exec/stream
+type execEvent struct {
+	Type       string `json:"type"`
+	Stream     string `json:"stream,omitempty"`
+	Data       string `json:"data,omitempty"`
+	ExitCode   *int   `json:"exitCode,omitempty"`
+	DurationMs int64  `json:"durationMs,omitempty"`
+	TimedOut   bool   `json:"timedOut,omitempty"`
+	Cancelled  bool   `json:"cancelled,omitempty"`
+	Truncated  bool   `json:"truncated,omitempty"`
+	Error      string `json:"error,omitempty"`
+}
+
+// running tracks commands started with an ID so they can be cancelled
+var running = struct {
+	sync.Mutex
+	cancels map[string]context.CancelFunc
+}{cancels: map[string]context.CancelFunc{}}
+
+func registerCommand(id string, cancel context.CancelFunc) error {
+	if id == "" {
+		return nil
+	}
+	running.Lock()
+	defer running.Unlock()
+	if _, exists := running.cancels[id]; exists {
+		return fmt.Errorf("command %s is already running", id)
+	}
+	running.cancels[id] = cancel
+	return nil
+}
+
+func unregisterCommand(id string) {
+	running.Lock()
+	defer running.Unlock()
+	delete(running.cancels, id)
+}
+
+func cancelCommand(id string) bool {
+	running.Lock()
+	defer running.Unlock()
+	cancel, ok := running.cancels[id]
+	if ok {
+		cancel()
+	}
+	return ok
+}
+
+// cappedBuffer keeps the first maxOutputBytes written to it and discards the rest.
+// When onWrite is set, every kept chunk is also passed to it as it arrives.
+type cappedBuffer struct {
+	mu        *sync.Mutex
+	buf       bytes.Buffer
+	truncated bool
+	onWrite   func(p []byte)
+}
+
+func (c *cappedBuffer) Write(p []byte) (int, error) {
+	c.mu.Lock()
+	defer c.mu.Unlock()
+
+	kept := p
+	if remaining := maxOutputBytes - c.buf.Len(); len(p) > remaining {
+		kept = p[:max(remaining, 0)]
+		c.truncated = true
+	}
+	if len(kept) > 0 {
+		c.buf.Write(kept)
+		if c.onWrite != nil {
+			c.onWrite(kept)
+		}
+	}
+	return len(p), nil
+}
+
+func execTimeout(ms int64) time.Duration {
+	if ms <= 0 {
+		return defaultExecTimeout
+	}
+	timeout := time.Duration(ms) * time.Millisecond
+	if timeout > maxExecTimeout {
+		return maxExecTimeout
+	}
+	return timeout
+}
+
+// newShellCommand runs command through sh in its own process group so that
+// a timeout or cancellation can kill every child it spawned.
+func newShellCommand(command, cwd string, env map[string]string) *exec.Cmd {
+	cmd := exec.Command("sh", "-c", command)
+	cmd.Dir = cwd
+	cmd.Env = os.Environ()
+	for key, value := range env {
+		cmd.Env = append(cmd.Env, fmt.Sprintf("%s=%s", key, value))
+	}
+	cmd.SysProcAttr = &syscall.SysProcAttr{Setpgid: true}
+	return cmd
+}
+
+func killProcessGroup(cmd *exec.Cmd) {
+	if cmd.Process != nil {
+		_ = syscall.Kill(-cmd.Process.Pid, syscall.SIGKILL)
+	}
+}
+
+// runCommand runs req to completion. onOutput, when not nil, receives output
+// chunks ("stdout" or "stderr") as they are produced; calls are serialised.
+func runCommand(ctx context.Context, req execRequest, onOutput func(stream string, p []byte)) (execResponse, error) {
+	ctx, timeoutCancel := context.WithTimeout(ctx, execTimeout(req.TimeoutMs))
+	defer timeoutCancel()
+	ctx, cancel := context.WithCancel(ctx)
+	defer cancel()
+
+	if err := registerCommand(req.ID, cancel); err != nil {
+		return execResponse{}, err
+	}
+	defer unregisterCommand(req.ID)
+
+	mu := &sync.Mutex{}
+	stdout := &cappedBuffer{mu: mu}
+	stderr := &cappedBuffer{mu: mu}
+	if onOutput != nil {
+		stdout.onWrite = func(p []byte) { onOutput("stdout", p) }
+		stderr.onWrite = func(p []byte) { onOutput("stderr", p) }
+	}
+
+	cmd := newShellCommand(req.Command, req.Cwd, req.Env)
+	cmd.Stdout = stdout
+	cmd.Stderr = stderr
+
+	start := time.Now()
+	if err := cmd.Start(); err != nil {
+		return execResponse{}, err
+	}
+
+	done := make(chan error, 1)
+	go func() { done <- cmd.Wait() }()
+
+	var waitErr error
+	timedOut, cancelled := false, false
+	select {
+	case waitErr = <-done:
+	case <-ctx.Done():
+		killProcessGroup(cmd)
+		waitErr = <-done
+		timedOut = errors.Is(ctx.Err(), context.DeadlineExceeded)
+		cancelled = !timedOut
+	}
+
+	exitCode := 0
+	if waitErr != nil {
+		var exitErr *exec.ExitError
+		if !errors.As(waitErr, &exitErr) {
+			return execResponse{}, waitErr
+		}
+		exitCode = exitErr.ExitCode()
+	}
+	if timedOut {
+		// Mirror the conventional shell exit status for a command killed by timeout(1)
+		exitCode = 124
+	} else if cancelled {
+		// 128 + SIGKILL, as a shell would report it
+		exitCode = 137
+	}
+
+	return execResponse{
+		ExitCode:   exitCode,
+		Stdout:     stdout.buf.String(),
+		Stderr:     stderr.buf.String(),
+		DurationMs: time.Since(start).Milliseconds(),
+		TimedOut:   timedOut,
+		Cancelled:  cancelled,
+		Truncated:  stdout.truncated || stderr.truncated,
+	}, nil
+}
+
+// splitIncompleteRune splits p before a trailing UTF-8 sequence that is cut
+// short, so a character split across two reads can be sent whole later
+func splitIncompleteRune(p []byte) (complete, rest []byte) {
+	for i := len(p) - 1; i >= 0 && i >= len(p)-utf8.UTFMax; i-- {
+		if utf8.RuneStart(p[i]) {
+			if !utf8.FullRune(p[i:]) {
+				return p[:i], p[i:]
+			}
+			break
+		}
+	}
+	return p, nil
+}
+
+func decodeExecRequest(w http.ResponseWriter, r *http.Request) (execRequest, bool) {
+	var req execRequest
+	if err := json.NewDecoder(r.Body).Decode(&req); err != nil {
+		writeError(w, http.StatusBadRequest, fmt.Errorf("invalid request body: %w", err))
+		return req, false
+	}
+	if req.Command == "" {
+		writeError(w, http.StatusBadRequest, errors.New("command is required"))
+		return req, false
+	}
+	return req, true
+}
+
+func execHandler(w http.ResponseWriter, r *http.Request) {
+	req, ok := decodeExecRequest(w, r)
+	if !ok {
+		return
+	}
+
+	result, err := runCommand(r.Context(), req, nil)
+	if err != nil {
+		writeError(w, http.StatusInternalServerError, err)
+		return
+	}
+	writeJSON(w, http.StatusOK, result)
+}
+
+// execStreamHandler runs a command and streams its output as NDJSON events,
+// ending with a single "exit" event (or an "error" event if it could not run).
+func execStreamHandler(w http.ResponseWriter, r *http.Request) {
+	req, ok := decodeExecRequest(w, r)
+	if !ok {
+		return
+	}
+
+	flusher, _ := w.(http.Flusher)
+	w.Header().Set("Content-Type", "application/x-ndjson")
+	w.WriteHeader(http.StatusOK)
+
+	var writeMu sync.Mutex
+	send := func(event execEvent) {
+		writeMu.Lock()
+		defer writeMu.Unlock()
+		if err := json.NewEncoder(w).Encode(event); err != nil {
+			return
+		}
+		if flusher != nil {
+			flusher.Flush()
+		}
+	}
+
+	// Output calls are serialised, so the per-stream leftovers need no lock
+	pending := map[string][]byte{}
+	flushPending := func() {
+		for _, stream := range []string{"stdout", "stderr"} {
+			if len(pending[stream]) > 0 {
+				send(execEvent{Type: "output", Stream: stream, Data: string(pending[stream])})
+				delete(pending, stream)
+			}
+		}
+	}
+
+	send(execEvent{Type: "start"})
+	result, err := runCommand(r.Context(), req, func(stream string, p []byte) {
+		complete, rest := splitIncompleteRune(append(pending[stream], p...))
+		pending[stream] = append([]byte(nil), rest...)
+		if len(complete) > 0 {
+			send(execEvent{Type: "output", Stream: stream, Data: string(complete)})
+		}
+	})
+	flushPending()
+	if err != nil {
+		send(execEvent{Type: "error", Error: err.Error()})
+		return
+	}
+	send(execEvent{
+		Type:       "exit",
+		ExitCode:   &result.ExitCode,
+		DurationMs: result.DurationMs,
+		TimedOut:   result.TimedOut,
+		Cancelled:  result.Cancelled,
+		Truncated:  result.Truncated,
+	})
+}
+
+func execCancelHandler(w http.ResponseWriter, r *http.Request) {
+	var req struct {
+		ID string `json:"id"`
+	}
+	if err := json.NewDecoder(r.Body).Decode(&req); err != nil || req.ID == "" {
+		writeError(w, http.StatusBadRequest, errors.New("an id is required"))
+		return
+	}
+	if !cancelCommand(req.ID) {
+		writeError(w, http.StatusNotFound, fmt.Errorf("no running command with id %s", req.ID))
+		return
+	}
+	writeJSON(w, http.StatusOK, map[string]any{"cancelled": true})
+}
@@ -0,0 +1,424 @@
+package main
+
+import (
+	"encoding/base64"
+	"encoding/json"
+	"errors"
+	"fmt"
+	"io"
+	"io/fs"
+	"net/http"
+	"os"
+	"path/filepath"
+	"regexp"
+	"strings"
+)
+
+// Files larger than this are refused by /fs/read; RPC payloads are not the
+// place to move build artifacts of that size.
+const maxReadBytes = 16 << 20
+
+type fsRequest struct {
+	Path      string   `json:"path"`
+	To        string   `json:"to,omitempty"`
+	Root      string   `json:"root,omitempty"`
+	Content   string   `json:"content,omitempty"`
+	Encoding  string   `json:"encoding,omitempty"`
+	Recursive bool     `json:"recursive,omitempty"`
+	Include   []string `json:"include,omitempty"`
+	Exclude   []string `json:"exclude,omitempty"`
+}
+
+type fileEntry struct {
+	Path  string `json:"path"`
+	Name  string `json:"name"`
+	Type  string `json:"type"`
+	Size  int64  `json:"size"`
+	Mtime int64  `json:"mtime"`
+}
+
+var errOutsideRoot = errors.New("path escapes the workspace root")
+
+// confine resolves symlinks in path and checks that the result stays under
+// root. The worker already normalises paths lexically; this catches symlinks
+// inside a workspace that point elsewhere. Paths that do not exist yet are
+// checked through their nearest existing parent.
+func confine(root, path string) error {
+	if root == "" {
+		return nil
+	}
+	realRoot, err := filepath.EvalSymlinks(root)
+	if err != nil {
+		return err
+	}
+	existing := path
+	for {
+		if _, err := os.Lstat(existing); err == nil {
+			break
+		}
+		parent := filepath.Dir(existing)
+		if parent == existing {
+			break
+		}
+		existing = parent
+	}
+	realPath, err := filepath.EvalSymlinks(existing)
+	if err != nil {
+		return err
+	}
+	if realPath != realRoot && !strings.HasPrefix(realPath, realRoot+string(filepath.Separator)) {
+		return errOutsideRoot
+	}
+	return nil
+}
+
+func entryType(mode fs.FileMode) string {
+	switch {
+	case mode&fs.ModeSymlink != 0:
+		return "symlink"
+	case mode.IsDir():
+		return "directory"
+	default:
+		return "file"
+	}
+}
+
+func newEntry(path, rel string, info fs.FileInfo) fileEntry {
+	return fileEntry{
+		Path:  filepath.ToSlash(rel),
+		Name:  filepath.Base(path),
+		Type:  entryType(info.Mode()),
+		Size:  info.Size(),
+		Mtime: info.ModTime().UnixMilli(),
+	}
+}
+
+// globToRegexp supports "**" (any number of path segments), "*" and "?"
+// (within a single segment) and "{a,b}" alternatives.
+func globToRegexp(glob string) (*regexp.Regexp, error) {
+	var b strings.Builder
+	b.WriteString("^")
+	for i := 0; i < len(glob); i++ {
+		c := glob[i]
+		switch c {
+		case '*':
+			if i+1 < len(glob) && glob[i+1] == '*' {
+				i++
+				if i+1 < len(glob) && glob[i+1] == '/' {
+					i++
+					b.WriteString("(?:.*/)?")
+				} else {
+					b.WriteString(".*")
+				}
+			} else {
+				b.WriteString("[^/]*")
+			}
+		case '?':
+			b.WriteString("[^/]")
+		case '{':
+			b.WriteString("(?:")
+		case '}':
+			b.WriteString(")")
+		case ',':
+			b.WriteString("|")
+		default:
+			b.WriteString(regexp.QuoteMeta(string(c)))
+		}
+	}
+	b.WriteString("$")
+	return regexp.Compile(b.String())
+}
+
+func compileGlobs(globs []string) ([]*regexp.Regexp, error) {
+	patterns := make([]*regexp.Regexp, 0, len(globs))
+	for _, glob := range globs {
+		re, err := globToRegexp(glob)
+		if err != nil {
+			return nil, fmt.Errorf("invalid glob %q: %w", glob, err)
+		}
+		patterns = append(patterns, re)
+	}
+	return patterns, nil
+}
+
+func matchesAny(patterns []*regexp.Regexp, rel string) bool {
+	for _, re := range patterns {
+		if re.MatchString(rel) {
+			return true
+		}
+	}
+	return false
+}
+
+func listFiles(req fsRequest) ([]fileEntry, error) {
+	include, err := compileGlobs(req.Include)
+	if err != nil {
+		return nil, err
+	}
+	exclude, err := compileGlobs(req.Exclude)
+	if err != nil {
+		return nil, err
+	}
+
+	entries := []fileEntry{}
+	err = filepath.WalkDir(req.Path, func(path string, d fs.DirEntry, err error) error {
+		if err != nil {
+			return err
+		}
+		if path == req.Path {
+			return nil
+		}
+		rel, err := filepath.Rel(req.Path, path)
+		if err != nil {
+			return err
+		}
+		rel = filepath.ToSlash(rel)
+		if matchesAny(exclude, rel) {
+			if d.IsDir() {
+				return filepath.SkipDir
+			}
+			return nil
+		}
+		info, err := d.Info()
+		if err != nil {
+			return err
+		}
+		if len(include) == 0 || matchesAny(include, rel) {
+			entries = append(entries, newEntry(path, rel, info))
+		}
+		if d.IsDir() && !req.Recursive {
+			return filepath.SkipDir
+		}
+		return nil
+	})
+	return entries, err
+}
+
+func decodeContent(content, encoding string) ([]byte, error) {
+	switch encoding {
+	case "", "utf8", "utf-8":
+		return []byte(content), nil
+	case "base64":
+		return base64.StdEncoding.DecodeString(content)
+	default:
+		return nil, fmt.Errorf("unsupported encoding %q", encoding)
+	}
+}
+
+func encodeContent(data []byte, encoding string) (string, error) {
+	switch encoding {
+	case "", "utf8", "utf-8":
+		return string(data), nil
+	case "base64":
+		return base64.StdEncoding.EncodeToString(data), nil
+	default:
+		return "", fmt.Errorf("unsupported encoding %q", encoding)
+	}
+}
+
+// fsStatus maps filesystem errors onto HTTP statuses the worker can branch on.
+func fsStatus(err error) int {
+	switch {
+	case errors.Is(err, fs.ErrNotExist):
+		return http.StatusNotFound
+	case errors.Is(err, errOutsideRoot), errors.Is(err, fs.ErrPermission):
+		return http.StatusForbidden
+	case errors.Is(err, fs.ErrExist):
+		return http.StatusConflict
+	default:
+		return http.StatusInternalServerError
+	}
+}
+
+func fsHandler(op func(req fsRequest) (any, error)) http.HandlerFunc {
+	return func(w http.ResponseWriter, r *http.Request) {
+		var req fsRequest
+		if err := json.NewDecoder(r.Body).Decode(&req); err != nil {
+			writeError(w, http.StatusBadRequest, fmt.Errorf("invalid request body: %w", err))
+			return
+		}
+		if req.Path == "" || !filepath.IsAbs(req.Path) {
+			writeError(w, http.StatusBadRequest, errors.New("an absolute path is required"))
+			return
+		}
+		for _, path := range []string{req.Path, req.To} {
+			if path == "" {
+				continue
+			}
+			if err := confine(req.Root, path); err != nil {
+				writeError(w, fsStatus(err), err)
+				return
+			}
+		}
+
+		result, err := op(req)
+		if err != nil {
+			writeError(w, fsStatus(err), err)
+			return
+		}
+		writeJSON(w, http.StatusOK, result)
+	}
+}
+
+func fsRead(req fsRequest) (any, error) {
+	info, err := os.Stat(req.Path)
+	if err != nil {
+		return nil, err
+	}
+	if info.IsDir() {
+		return nil, fmt.Errorf("%s is a directory", req.Path)
+	}
+	if info.Size() > maxReadBytes {
+		return nil, fmt.Errorf("%s is %d bytes, larger than the %d byte read limit", req.Path, info.Size(), maxReadBytes)
+	}
+	data, err := os.ReadFile(req.Path)
+	if err != nil {
+		return nil, err
+	}
+	content, err := encodeContent(data, req.Encoding)
+	if err != nil {
+		return nil, err
+	}
+	return map[string]any{"content": content, "size": len(data)}, nil
+}
+
+func fsWrite(req fsRequest) (any, error) {
+	data, err := decodeContent(req.Content, req.Encoding)
+	if err != nil {
+		return nil, err
+	}
+	if err := os.MkdirAll(filepath.Dir(req.Path), 0o755); err != nil {
+		return nil, err
+	}
+	if err := os.WriteFile(req.Path, data, 0o644); err != nil {
+		return nil, err
+	}
+	return map[string]any{"bytesWritten": len(data)}, nil
+}
+
+func fsList(req fsRequest) (any, error) {
+	entries, err := listFiles(req)
+	if err != nil {
+		return nil, err
+	}
+	return map[string]any{"entries": entries}, nil
+}
+
+func fsStat(req fsRequest) (any, error) {
+	info, err := os.Lstat(req.Path)
+	if err != nil {
+		return nil, err
+	}
+	return newEntry(req.Path, filepath.Base(req.Path), info), nil
+}
+
+func fsDelete(req fsRequest) (any, error) {
+	info, err := os.Lstat(req.Path)
+	if err != nil {
+		return nil, err
+	}
+	if info.IsDir() && req.Recursive {
+		err = os.RemoveAll(req.Path)
+	} else {
+		err = os.Remove(req.Path)
+	}
+	if err != nil {
+		return nil, err
+	}
+	return map[string]any{"deleted": true}, nil
+}
+
+func fsMove(req fsRequest) (any, error) {
+	if req.To == "" || !filepath.IsAbs(req.To) {
+		return nil, errors.New("an absolute destination path is required")
+	}
+	if _, err := os.Lstat(req.To); err == nil {
+		return nil, fmt.Errorf("%s: %w", req.To, fs.ErrExist)
+	}
+	if err := os.MkdirAll(filepath.Dir(req.To), 0o755); err != nil {
+		return nil, err
+	}
+	if err := os.Rename(req.Path, req.To); err != nil {
+		return nil, err
+	}
+	return map[string]any{"moved": true}, nil
+}
+
+func fsMkdir(req fsRequest) (any, error) {
+	if err := os.MkdirAll(req.Path, 0o755); err != nil {
+		return nil, err
+	}
+	return map[string]any{"created": true}, nil
+}
+
+// copyEntry copies one file, directory or symlink, keeping its permissions.
+// Existing directories are merged into and existing files overwritten, like
+// `cp -r src/. dst/`.
+func copyEntry(src, dst string, info fs.FileInfo) error {
+	switch {
+	case info.Mode()&fs.ModeSymlink != 0:
+		target, err := os.Readlink(src)
+		if err != nil {
+			return err
+		}
+		if err := os.Remove(dst); err != nil && !errors.Is(err, fs.ErrNotExist) {
+			return err
+		}
+		return os.Symlink(target, dst)
+	case info.IsDir():
+		return os.MkdirAll(dst, info.Mode().Perm()|0o700)
+	default:
+		in, err := os.Open(src)
+		if err != nil {
+			return err
+		}
+		defer in.Close()
+		out, err := os.OpenFile(dst, os.O_WRONLY|os.O_CREATE|os.O_TRUNC, info.Mode().Perm())
+		if err != nil {
+			return err
+		}
+		if _, err := io.Copy(out, in); err != nil {
+			out.Close()
+			return err
+		}
+		return out.Close()
+	}
+}
+
+func fsCopy(req fsRequest) (any, error) {
+	if req.To == "" || !filepath.IsAbs(req.To) {
+		return nil, errors.New("an absolute destination path is required")
+	}
+	if _, err := os.Lstat(req.Path); err != nil {
+		return nil, err
+	}
+	if err := os.MkdirAll(filepath.Dir(req.To), 0o755); err != nil {
+		return nil, err
+	}
+
+	copied := 0
+	err := filepath.WalkDir(req.Path, func(path string, d fs.DirEntry, err error) error {
+		if err != nil {
+			return err
+		}
+		rel, err := filepath.Rel(req.Path, path)
+		if err != nil {
+			return err
+		}
+		info, err := d.Info()
+		if err != nil {
+			return err
+		}
+		if err := copyEntry(path, filepath.Join(req.To, rel), info); err != nil {
+			return err
+		}
+		if !d.IsDir() {
+			copied++
+		}
+		return nil
+	})
+	if err != nil {
+		return nil, err
+	}
+	return map[string]any{"copied": copied}, nil
+}
@@ -2,7 +2,7 @@ package main
 
 import (
 	"context"
-	"fmt"
+	"encoding/json"
 	"log"
 	"net/http"
 	"os"
@@ -11,15 +11,26 @@ import (
 	"time"
 )
 
-func handler(w http.ResponseWriter, r *http.Request) {
-	message := os.Getenv("MESSAGE")
-	instanceId := os.Getenv("CLOUDFLARE_DURABLE_OBJECT_ID")
-	fmt.Fprintf(w, "Hi, I'm a container and this is my message: \"%s\", my instance ID is: %s", message, instanceId)
+// The container agent is the only process the Durable Object talks to.
+// MyContainer forwards its RPC methods to these endpoints via containerFetch.
 
+func healthHandler(w http.ResponseWriter, r *http.Request) {
+	writeJSON(w, http.StatusOK, map[string]any{
+		"status":     "ok",
+		"instanceId": os.Getenv("CLOUDFLARE_DURABLE_OBJECT_ID"),
+	})
 }
 
-func errorHandler(w http.ResponseWriter, r *http.Request) {
-	panic("This is a panic")
+func writeJSON(w http.ResponseWriter, status int, body any) {
+	w.Header().Set("Content-Type", "application/json")
+	w.WriteHeader(status)
+	if err := json.NewEncoder(w).Encode(body); err != nil {
+		log.Printf("Failed to encode response: %v", err)
+	}
+}
+
+func writeError(w http.ResponseWriter, status int, err error) {
+	writeJSON(w, status, map[string]any{"error": err.Error()})
 }
 
 func main() {
@@ -28,9 +39,18 @@ func main() {
 	signal.Notify(stop, syscall.SIGINT, syscall.SIGTERM)
 
 	router := http.NewServeMux()
-	router.HandleFunc("/", handler)
-	router.HandleFunc("/container", handler)
-	router.HandleFunc("/error", errorHandler)
+	router.HandleFunc("GET /health", healthHandler)
+	router.HandleFunc("POST /exec", execHandler)
+	router.HandleFunc("POST /exec/stream", execStreamHandler)
+	router.HandleFunc("POST /exec/cancel", execCancelHandler)
+	router.HandleFunc("POST /fs/read", fsHandler(fsRead))
+	router.HandleFunc("POST /fs/write", fsHandler(fsWrite))
+	router.HandleFunc("POST /fs/list", fsHandler(fsList))
+	router.HandleFunc("POST /fs/stat", fsHandler(fsStat))
+	router.HandleFunc("POST /fs/delete", fsHandler(fsDelete))
+	router.HandleFunc("POST /fs/move", fsHandler(fsMove))
+	router.HandleFunc("POST /fs/mkdir", fsHandler(fsMkdir))
+	router.HandleFunc("POST /fs/copy", fsHandler(fsCopy))
 
 	server := &http.Server{
 		Addr:    ":8080",
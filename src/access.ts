@@ -0,0 +1,212 @@
+import { ContainerManagerError } from './errors';
+
+/**
+ * Props a caller's service binding passes to ContainerManagerRPC, e.g. in its wrangler.jsonc:
+ * `"services": [{ "binding": "CONTAINER_MANAGER", "service": "containers-manager", "entrypoint": "ContainerManagerRPC", "props": { "principal": "meta-mcp" } }]`
+ */
+export interface CallerProps {
+	principal?: string;
+}
+
+/**
+ * Access to a server: read covers reading files, builds, executions and deployments;
+ * write also covers changing the workspace, running commands, building and deploying
+ */
+export type Access = 'read' | 'write';
+
+/**
+ * Principals are opaque names chosen by the callers' bindings, such as `meta-mcp` or `user:1234`
+ */
+const PRINCIPAL_PATTERN = /^[A-Za-z0-9._:@-]{1,128}$/;
+
+/**
+ * Thrown when the caller may not do what it asked
+ */
+export class PermissionDeniedError extends ContainerManagerError {
+	constructor(message: string) {
+		super('PERMISSION_DENIED', message);
+		this.name = 'PermissionDeniedError';
+	}
+}
+
+/**
+ * Throw unless principal is a well-formed principal name
+ */
+export function assertValidPrincipal(principal: unknown): asserts principal is string {
+	if (typeof principal !== 'string' || !PRINCIPAL_PATTERN.test(principal)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid principal ${JSON.stringify(principal)}: use 1-128 letters, digits, '.', '_', ':', '@' and '-'`
+		);
+	}
+}
+
+/**
+ * Throw unless access is 'read' or 'write'
+ */
+export function assertValidAccess(access: unknown): asserts access is Access {
+	if (access !== 'read' && access !== 'write') {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid access ${JSON.stringify(access)}: use 'read' or 'write'`
+		);
+	}
+}
+
+/**
+ * Whether a grant of one access level permits a request for another
+ */
+export function accessAllows(granted: Access, requested: Access) {
+	return granted === 'write' || requested === 'read';
+}
+
+/**
+ * Parse ADMIN_PRINCIPALS, a comma-separated list of principals that may do anything
+ */
+export function parsePrincipalList(value: string | undefined) {
+	return new Set(
+		(value ?? '')
+			.split(',')
+			.map((principal) => principal.trim())
+			.filter(Boolean)
+	);
+}
+
+/**
+ * A call to record in the audit log
+ */
+export interface AuditAction {
+	/** RPC method name */
+	action: string;
+	containerId?: string;
+	/** Arguments worth keeping, such as the path written or the command run */
+	details?: Record<string, unknown>;
+}
+
+/**
+ * An audit log entry
+ */
+export interface AuditEntry {
+	id: number;
+	/** Undefined when the caller had no principal */
+	principal?: string;
+	action: string;
+	serverId?: string;
+	containerId?: string;
+	details?: Record<string, unknown>;
+	allowed: boolean;
+	/** Why the call was denied */
+	reason?: string;
+	createdAt: number;
+}
+
+/**
+ * A row of the audit_log table
+ */
+export interface AuditRow {
+	id: number;
+	principal: string | null;
+	action: string;
+	server_id: string | null;
+	container_id: string | null;
+	details: string | null;
+	allowed: number;
+	reason: string | null;
+	created_at: number;
+}
+
+/**
+ * Map an audit_log row to an AuditEntry
+ */
+export function auditFromRow(row: AuditRow): AuditEntry {
+	return {
+		id: row.id,
+		principal: row.principal ?? undefined,
+		action: row.action,
+		serverId: row.server_id ?? undefined,
+		containerId: row.container_id ?? undefined,
+		details: row.details ? JSON.parse(row.details) : undefined,
+		allowed: row.allowed === 1,
+		reason: row.reason ?? undefined,
+		createdAt: row.created_at
+	};
+}
+
+/**
+ * Filters for getAuditLog
+ */
+export interface AuditQuery {
+	serverId?: string;
+	principal?: string;
+	/** nextCursor of the previous page */
+	cursor?: string;
+	/** Page size, 50 by default and at most 200 */
+	limit?: number;
+}
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAudit(
+	db: D1Database,
+	principal: string | undefined,
+	serverId: string | undefined,
+	audit: AuditAction,
+	reason?: string
+) {
+	await db.prepare(`
+		INSERT INTO audit_log (principal, action, server_id, container_id, details, allowed, reason, created_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+	`).bind(
+		principal ?? null,
+		audit.action,
+		serverId ?? null,
+		audit.containerId ?? null,
+		audit.details ? JSON.stringify(audit.details) : null,
+		reason === undefined ? 1 : 0,
+		reason ?? null,
+		Date.now()
+	).run();
+}
+
+/**
+ * One page of audit entries, newest first
+ */
+export async function queryAuditLog(db: D1Database, query: AuditQuery = {}) {
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+
+	if (query.serverId !== undefined) {
+		conditions.push('server_id = ?');
+		params.push(query.serverId);
+	}
+	if (query.principal !== undefined) {
+		conditions.push('principal = ?');
+		params.push(query.principal);
+	}
+	if (query.cursor !== undefined) {
+		const before = Number(query.cursor);
+		if (!Number.isInteger(before) || before < 1) {
+			throw new ContainerManagerError('INVALID_ARGUMENT', `Invalid cursor ${JSON.stringify(query.cursor)}`);
+		}
+		conditions.push('id < ?');
+		params.push(before);
+	}
+
+	const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_AUDIT_PAGE_SIZE), 1), MAX_AUDIT_PAGE_SIZE);
+	const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+	const { results } = await db.prepare(`
+		SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?
+	`).bind(...params, limit + 1).all<AuditRow>();
+
+	const page = results.slice(0, limit);
+
+	return {
+		entries: page.map(auditFromRow),
+		nextCursor: results.length > limit ? String(page[page.length - 1].id) : undefined
+	};
+}
@@ -0,0 +1,409 @@
+import ts from 'typescript';
+import { ContainerManagerError } from './errors';
+import { parseSource } from './source-editor';
+import {
+	appendConfigValue,
+	parseWranglerConfig,
+	removeConfigValue,
+	removeConfigValues,
+	setConfigValue
+} from './wrangler-config';
+
+/**
+ * A binding a generated server declares in its wrangler.jsonc, and so in its Env
+ * A Durable Object without scriptName is a class of the server itself, exported from src/index.ts
+ */
+export type BindingSpec =
+	| { type: 'kv'; name: string; id: string }
+	| { type: 'd1'; name: string; databaseName: string; databaseId: string }
+	| { type: 'r2'; name: string; bucketName: string }
+	| { type: 'durable_object'; name: string; className: string; scriptName?: string }
+	| { type: 'ai'; name: string }
+	| { type: 'service'; name: string; service: string; entrypoint?: string }
+	| { type: 'var'; name: string; value: string };
+
+export type BindingType = BindingSpec['type'];
+
+/**
+ * A member of the generated Env interface
+ */
+export interface EnvMember {
+	name: string;
+	type: string;
+}
+
+/**
+ * Workspace file holding the Env type generated by `wrangler types`
+ */
+export const WORKER_TYPES_FILE = 'worker-configuration.d.ts';
+
+const BINDING_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const RUNTIME_TYPES_MARKER = '// Begin runtime types';
+
+/**
+ * String fields each binding type needs besides its name, and the ones it may have
+ */
+const BINDING_FIELDS: Record<BindingType, { required: string[]; optional?: string[] }> = {
+	kv: { required: ['id'] },
+	d1: { required: ['databaseName', 'databaseId'] },
+	r2: { required: ['bucketName'] },
+	durable_object: { required: ['className'], optional: ['scriptName'] },
+	ai: { required: [] },
+	service: { required: ['service'], optional: ['entrypoint'] },
+	var: { required: ['value'] }
+};
+
+/**
+ * Binding types in the order their wrangler sections and Env members are written
+ */
+export const BINDING_TYPES = Object.keys(BINDING_FIELDS) as BindingType[];
+
+/**
+ * Throw unless binding is a well-formed BindingSpec
+ */
+export function assertValidBinding(binding: unknown): asserts binding is BindingSpec {
+	if (!binding || typeof binding !== 'object') {
+		throw new ContainerManagerError('INVALID_ARGUMENT', 'Binding must be an object');
+	}
+
+	const { type, name } = binding as { type?: unknown; name?: unknown };
+	if (typeof name !== 'string' || !BINDING_NAME_PATTERN.test(name)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid binding name ${JSON.stringify(name)}: use letters, digits and '_', not starting with a digit`
+		);
+	}
+	if (typeof type !== 'string' || !BINDING_TYPES.includes(type as BindingType)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Binding '${name}' has invalid type ${JSON.stringify(type)}. Valid types: ${BINDING_TYPES.join(', ')}`
+		);
+	}
+
+	const fields = BINDING_FIELDS[type as BindingType];
+	for (const field of [...fields.required, ...(fields.optional ?? [])]) {
+		const value = (binding as Record<string, unknown>)[field];
+		if (value === undefined && !fields.required.includes(field)) {
+			continue;
+		}
+		// Variables may be empty strings; names and IDs may not
+		if (typeof value !== 'string' || (!value && type !== 'var')) {
+			throw new ContainerManagerError(
+				'INVALID_ARGUMENT',
+				`Binding '${name}' (${type}) needs a ${type === 'var' ? '' : 'non-empty '}string '${field}'`
+			);
+		}
+	}
+
+	const { className } = binding as { className?: string };
+	if (className !== undefined && !BINDING_NAME_PATTERN.test(className)) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', `Binding '${name}': invalid class name '${className}'`);
+	}
+}
+
+/**
+ * Env type of a binding, as `wrangler types` writes it
+ */
+export function bindingEnvType(binding: BindingSpec) {
+	switch (binding.type) {
+		case 'kv':
+			return 'KVNamespace';
+		case 'd1':
+			return 'D1Database';
+		case 'r2':
+			return 'R2Bucket';
+		case 'durable_object':
+			return binding.scriptName
+				? 'DurableObjectNamespace'
+				: `DurableObjectNamespace<import("./src/index").${binding.className}>`;
+		case 'ai':
+			return 'Ai';
+		case 'service':
+			return 'Fetcher';
+		case 'var':
+			return JSON.stringify(binding.value);
+	}
+}
+
+/**
+ * Bindings in the order they are written: by type, then by name
+ * Sorting makes the output independent of the order they were declared in
+ */
+export function sortBindings(bindings: BindingSpec[]) {
+	return [...bindings].sort(
+		(a, b) => BINDING_TYPES.indexOf(a.type) - BINDING_TYPES.indexOf(b.type) || a.name.localeCompare(b.name)
+	);
+}
+
+/**
+ * Bindings a parsed wrangler config declares
+ */
+export function bindingsInConfig(config: Record<string, unknown>): BindingSpec[] {
+	const entries = (value: unknown) =>
+		(Array.isArray(value) ? value : []).filter((entry) => entry && typeof entry === 'object') as Record<
+			string,
+			string | undefined
+		>[];
+	const durableObjects = config.durable_objects as { bindings?: unknown } | undefined;
+	const ai = config.ai as { binding?: string } | undefined;
+	const vars = (config.vars ?? {}) as Record<string, unknown>;
+
+	return [
+		...entries(config.kv_namespaces).map((entry) => ({
+			type: 'kv' as const,
+			name: entry.binding ?? '',
+			id: entry.id ?? ''
+		})),
+		...entries(config.d1_databases).map((entry) => ({
+			type: 'd1' as const,
+			name: entry.binding ?? '',
+			databaseName: entry.database_name ?? '',
+			databaseId: entry.database_id ?? ''
+		})),
+		...entries(config.r2_buckets).map((entry) => ({
+			type: 'r2' as const,
+			name: entry.binding ?? '',
+			bucketName: entry.bucket_name ?? ''
+		})),
+		...entries(durableObjects?.bindings).map((entry) => ({
+			type: 'durable_object' as const,
+			name: entry.name ?? '',
+			className: entry.class_name ?? '',
+			...(entry.script_name ? { scriptName: entry.script_name } : {})
+		})),
+		...(ai?.binding ? [{ type: 'ai' as const, name: ai.binding }] : []),
+		...entries(config.services).map((entry) => ({
+			type: 'service' as const,
+			name: entry.binding ?? '',
+			service: entry.service ?? '',
+			...(entry.entrypoint ? { entrypoint: entry.entrypoint } : {})
+		})),
+		...Object.entries(vars).map(([name, value]) => ({
+			type: 'var' as const,
+			name,
+			value: typeof value === 'string' ? value : JSON.stringify(value)
+		}))
+	];
+}
+
+/**
+ * Path of the array (or, for ai and vars, the object) a binding type is declared in
+ */
+const BINDING_PATHS: Record<BindingType, string[]> = {
+	kv: ['kv_namespaces'],
+	d1: ['d1_databases'],
+	r2: ['r2_buckets'],
+	durable_object: ['durable_objects', 'bindings'],
+	ai: ['ai'],
+	service: ['services'],
+	var: ['vars']
+};
+
+/**
+ * Declare a binding in wrangler.jsonc text, keeping its comments and formatting
+ * A Durable Object class of the worker itself also gets a migration creating it, unless one already does
+ */
+export function addBindingToConfig(text: string, binding: BindingSpec, fileName = 'wrangler.jsonc') {
+	const path = BINDING_PATHS[binding.type];
+
+	switch (binding.type) {
+		case 'kv':
+			return appendConfigValue(text, path, { binding: binding.name, id: binding.id }, fileName);
+		case 'd1':
+			return appendConfigValue(
+				text,
+				path,
+				{ binding: binding.name, database_name: binding.databaseName, database_id: binding.databaseId },
+				fileName
+			);
+		case 'r2':
+			return appendConfigValue(text, path, { binding: binding.name, bucket_name: binding.bucketName }, fileName);
+		case 'durable_object': {
+			const updated = appendConfigValue(
+				text,
+				path,
+				{ class_name: binding.className, name: binding.name, script_name: binding.scriptName },
+				fileName
+			);
+			return binding.scriptName ? updated : addClassMigration(updated, binding.className, fileName);
+		}
+		case 'ai':
+			return setConfigValue(text, path, { binding: binding.name }, fileName);
+		case 'service':
+			return appendConfigValue(
+				text,
+				path,
+				{ binding: binding.name, service: binding.service, entrypoint: binding.entrypoint },
+				fileName
+			);
+		case 'var':
+			return setConfigValue(text, [...path, binding.name], binding.value, fileName);
+	}
+}
+
+/**
+ * Append a migration creating a SQLite-backed Durable Object class, unless a migration already creates it
+ */
+function addClassMigration(text: string, className: string, fileName: string) {
+	const migrations = parseWranglerConfig(text, fileName).migrations;
+	const list = (Array.isArray(migrations) ? migrations : []) as {
+		tag?: string;
+		new_classes?: string[];
+		new_sqlite_classes?: string[];
+	}[];
+
+	if (list.some((migration) => [...(migration.new_classes ?? []), ...(migration.new_sqlite_classes ?? [])].includes(className))) {
+		return text;
+	}
+
+	const tags = new Set(list.map((migration) => migration.tag));
+	let version = list.length + 1;
+	while (tags.has(`v${version}`)) {
+		version++;
+	}
+
+	return appendConfigValue(text, ['migrations'], { new_sqlite_classes: [className], tag: `v${version}` }, fileName);
+}
+
+/**
+ * Remove a binding from wrangler.jsonc text, and its section once that is empty
+ * Durable Object migrations stay: the class keeps existing (and keeps its data) without a binding
+ */
+export function removeBindingFromConfig(text: string, binding: BindingSpec, fileName = 'wrangler.jsonc') {
+	const path = BINDING_PATHS[binding.type];
+
+	if (binding.type === 'ai') {
+		return removeConfigValue(text, path, fileName);
+	}
+	if (binding.type === 'var') {
+		const updated = removeConfigValue(text, [...path, binding.name], fileName);
+		const vars = parseWranglerConfig(updated, fileName).vars;
+		return vars && Object.keys(vars).length === 0 ? removeConfigValue(updated, path, fileName) : updated;
+	}
+
+	const key = binding.type === 'durable_object' ? 'name' : 'binding';
+	const { text: updated } = removeConfigValues(
+		text,
+		path,
+		(entry) => (entry as Record<string, unknown> | null)?.[key] === binding.name,
+		fileName
+	);
+
+	const remaining = path.reduce<unknown>(
+		(value, field) => (value as Record<string, unknown> | undefined)?.[field],
+		parseWranglerConfig(updated, fileName)
+	);
+	if (Array.isArray(remaining) && remaining.length === 0) {
+		// durable_objects.bindings leaves durable_objects behind empty, so remove that too
+		return removeConfigValue(updated, path.slice(0, 1), fileName);
+	}
+
+	return updated;
+}
+
+/**
+ * The Env declarations at the top of worker-configuration.d.ts
+ */
+export function envDeclaration(members: EnvMember[]) {
+	const lines = members.map(({ name, type }) => `\t\t${name}: ${type};`);
+
+	return ['declare namespace Cloudflare {', '\tinterface Env {', ...lines, '\t}', '}', 'interface Env extends Cloudflare.Env {}'].join(
+		'\n'
+	);
+}
+
+/**
+ * Find the Env interface `wrangler types` declares: inside `namespace Cloudflare`, or at the top
+ * level in files generated by older versions
+ */
+function findEnvInterface(sourceFile: ts.SourceFile) {
+	const isEnv = (statement: ts.Statement): statement is ts.InterfaceDeclaration =>
+		ts.isInterfaceDeclaration(statement) && statement.name.text === 'Env' && !statement.heritageClauses;
+
+	for (const statement of sourceFile.statements) {
+		if (
+			ts.isModuleDeclaration(statement) &&
+			statement.name.text === 'Cloudflare' &&
+			statement.body &&
+			ts.isModuleBlock(statement.body)
+		) {
+			const env = statement.body.statements.find(isEnv);
+			if (env) {
+				return env;
+			}
+		}
+	}
+
+	return sourceFile.statements.find(isEnv);
+}
+
+/**
+ * Parse the Env declarations of worker-configuration.d.ts, before its (long) runtime types
+ */
+function parseEnvTypes(text: string) {
+	const marker = text.indexOf(RUNTIME_TYPES_MARKER);
+	const sourceFile = parseSource(marker === -1 ? text : text.slice(0, marker), WORKER_TYPES_FILE);
+
+	return { sourceFile, env: findEnvInterface(sourceFile) };
+}
+
+function findEnvMember(env: ts.InterfaceDeclaration, name: string) {
+	return env.members.find(
+		(member): member is ts.PropertySignature =>
+			ts.isPropertySignature(member) &&
+			(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) &&
+			member.name.text === name
+	);
+}
+
+/**
+ * Add a member to the Env interface in worker-configuration.d.ts text, or change its type
+ * Files without an Env interface get one
+ */
+export function setEnvMember(text: string, member: EnvMember) {
+	const { sourceFile, env } = parseEnvTypes(text);
+
+	if (!env) {
+		return `${envDeclaration([member])}\n\n${text}`;
+	}
+
+	const existing = findEnvMember(env, member.name);
+	if (existing?.type) {
+		return text.slice(0, existing.type.getStart(sourceFile)) + member.type + text.slice(existing.type.getEnd());
+	}
+
+	const envStart = env.getStart(sourceFile);
+	const envIndent = /^[ \t]*/.exec(text.slice(text.lastIndexOf('\n', envStart) + 1))?.[0] ?? '';
+	const [first] = env.members;
+	const indent = first
+		? (/^[ \t]*/.exec(text.slice(text.lastIndexOf('\n', first.getStart(sourceFile)) + 1))?.[0] ?? '')
+		: `${envIndent}\t`;
+	const close = env.getEnd() - 1;
+	const line = `${indent}${member.name}: ${member.type};`;
+
+	// `interface Env {}` on one line opens up; otherwise the member goes on the line before the brace
+	const closeLineStart = text.lastIndexOf('\n', close) + 1;
+	if (closeLineStart <= envStart) {
+		return `${text.slice(0, close)}\n${line}\n${envIndent}${text.slice(close)}`;
+	}
+
+	return `${text.slice(0, closeLineStart)}${line}\n${text.slice(closeLineStart)}`;
+}
+
+/**
+ * Remove a member from the Env interface in worker-configuration.d.ts text, if it has one
+ */
+export function removeEnvMember(text: string, name: string) {
+	const { sourceFile, env } = parseEnvTypes(text);
+	const member = env && findEnvMember(env, name);
+
+	if (!member) {
+		return text;
+	}
+
+	const start = text.lastIndexOf('\n', member.getStart(sourceFile)) + 1;
+	const lineEnd = text.indexOf('\n', member.getEnd());
+
+	return text.slice(0, start) + text.slice(lineEnd === -1 ? text.length : lineEnd + 1);
+}
@@ -0,0 +1,237 @@
+import type { BuildDiagnostic, BuildStage } from './types';
+
+// Color codes and other CSI sequences some tools emit even when told not to
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g');
+
+// src/index.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+const TSC_LOCATED = /^(.+)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/;
+// error TS5083: Cannot read file '/workspace/x/tsconfig.json'.
+const TSC_GLOBAL = /^(error|warning|message) (TS\d+): (.*)$/;
+
+// ::error title=lint/suspicious/noDebugger,file=src/a.ts,line=3,col=1::This is an unexpected use of ...
+const GITHUB_ANNOTATION = /^::(error|warning|notice) (.*?)::(.*)$/;
+
+// ✘ [ERROR] Could not resolve "x"   (esbuild, as printed by wrangler)
+const ESBUILD_MESSAGE = /^\s*(?:✘|▲|X) \[(ERROR|WARNING)\] (.*)$/;
+// src/index.ts:1:14:   (line is 1-based, column 0-based)
+const ESBUILD_LOCATION = /^\s*(\S.*):(\d+):(\d+):$/;
+
+// at /workspace/x/test/a.test.ts:4:19   or   at fn (/workspace/x/test/a.test.ts:4:19)
+const STACK_LOCATION = /at (?:.*\()?(\/[^():]+):(\d+):(\d+)\)?$/m;
+
+/**
+ * Remove ANSI escape sequences from tool output
+ */
+export function stripAnsi(text: string) {
+	return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Make a reported path relative to the workspace when it points into it
+ */
+function workspaceRelative(file: string, workspacePath: string) {
+	return file.startsWith(`${workspacePath}/`) ? file.slice(workspacePath.length + 1) : file;
+}
+
+const TSC_SEVERITIES = { error: 'error', warning: 'warning', message: 'info' } as const;
+
+/**
+ * Parse `tsc --noEmit --pretty false` output
+ * Indented lines continue the previous diagnostic's message (e.g. elaborations of type errors)
+ */
+export function parseTscOutput(output: string, workspacePath: string): BuildDiagnostic[] {
+	const diagnostics: BuildDiagnostic[] = [];
+
+	for (const line of output.split('\n')) {
+		const located = TSC_LOCATED.exec(line);
+		const global = located ? null : TSC_GLOBAL.exec(line);
+
+		if (located) {
+			const [, file, lineNumber, column, severity, rule, message] = located;
+			diagnostics.push({
+				stage: 'typecheck',
+				severity: TSC_SEVERITIES[severity as keyof typeof TSC_SEVERITIES],
+				message,
+				file: workspaceRelative(file, workspacePath),
+				line: Number(lineNumber),
+				column: Number(column),
+				rule
+			});
+		} else if (global) {
+			const [, severity, rule, message] = global;
+			diagnostics.push({
+				stage: 'typecheck',
+				severity: TSC_SEVERITIES[severity as keyof typeof TSC_SEVERITIES],
+				message,
+				rule
+			});
+		} else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+			diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+		}
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Undo the escaping GitHub workflow commands apply to messages and property values
+ */
+function decodeAnnotation(value: string) {
+	return value
+		.replace(/%0D/gi, '\r')
+		.replace(/%0A/gi, '\n')
+		.replace(/%3A/gi, ':')
+		.replace(/%2C/gi, ',')
+		.replace(/%25/g, '%');
+}
+
+/**
+ * Parse `biome lint --reporter=github` output
+ */
+export function parseBiomeOutput(output: string, workspacePath: string): BuildDiagnostic[] {
+	const diagnostics: BuildDiagnostic[] = [];
+
+	for (const line of output.split('\n')) {
+		const match = GITHUB_ANNOTATION.exec(line.trim());
+		if (!match) {
+			continue;
+		}
+
+		const [, level, rawProperties, message] = match;
+		const properties = new Map(
+			rawProperties.split(',').map((property) => {
+				const separator = property.indexOf('=');
+				return [property.slice(0, separator), decodeAnnotation(property.slice(separator + 1))] as const;
+			})
+		);
+		const file = properties.get('file');
+		const lineNumber = properties.get('line');
+		const column = properties.get('col');
+
+		diagnostics.push({
+			stage: 'lint',
+			severity: level === 'notice' ? 'info' : (level as 'error' | 'warning'),
+			message: decodeAnnotation(message),
+			file: file ? workspaceRelative(file, workspacePath) : undefined,
+			line: lineNumber ? Number(lineNumber) : undefined,
+			column: column ? Number(column) : undefined,
+			rule: properties.get('title')
+		});
+	}
+
+	return diagnostics;
+}
+
+/**
+ * The parts of vitest's JSON report that become diagnostics
+ */
+interface VitestReport {
+	testResults?: {
+		name: string;
+		status: string;
+		message?: string;
+		assertionResults?: {
+			fullName: string;
+			status: string;
+			failureMessages?: string[];
+			location?: { line: number; column: number } | null;
+		}[];
+	}[];
+}
+
+/**
+ * Parse the report written by `vitest run --reporter=json --includeTaskLocation`
+ * Each failed test becomes an error; files that failed without failing tests (e.g. import errors) too
+ */
+export function parseVitestReport(json: string, workspacePath: string): BuildDiagnostic[] {
+	const report = JSON.parse(json) as VitestReport;
+	const diagnostics: BuildDiagnostic[] = [];
+
+	for (const file of report.testResults ?? []) {
+		const failed = (file.assertionResults ?? []).filter((assertion) => assertion.status === 'failed');
+
+		for (const assertion of failed) {
+			const failure = assertion.failureMessages?.[0] ?? 'Test failed';
+			// Prefer where the assertion failed over where the test is declared
+			const stack = STACK_LOCATION.exec(failure);
+			const atFile = stack && stack[1] === file.name;
+
+			diagnostics.push({
+				stage: 'test',
+				severity: 'error',
+				message: `${assertion.fullName}: ${failure.split('\n')[0]}`,
+				file: workspaceRelative(file.name, workspacePath),
+				line: atFile ? Number(stack[2]) : assertion.location?.line,
+				column: atFile ? Number(stack[3]) : assertion.location?.column
+			});
+		}
+
+		if (failed.length === 0 && file.status === 'failed') {
+			diagnostics.push({
+				stage: 'test',
+				severity: 'error',
+				message: file.message || 'Test file failed to run',
+				file: workspaceRelative(file.name, workspacePath)
+			});
+		}
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Parse esbuild errors and warnings as printed by `wrangler deploy --dry-run`
+ */
+export function parseEsbuildOutput(output: string, workspacePath: string): BuildDiagnostic[] {
+	const diagnostics: BuildDiagnostic[] = [];
+	const lines = output.split('\n');
+
+	for (let index = 0; index < lines.length; index++) {
+		const match = ESBUILD_MESSAGE.exec(lines[index]);
+		if (!match || /^Build failed with \d+ errors?:?$/.test(match[2])) {
+			continue;
+		}
+
+		const diagnostic: BuildDiagnostic = {
+			stage: 'bundle',
+			severity: match[1] === 'ERROR' ? 'error' : 'warning',
+			message: match[2]
+		};
+
+		// The location follows on the next non-blank line
+		const next = lines.slice(index + 1).find((line) => line.trim() !== '');
+		const location = next ? ESBUILD_LOCATION.exec(next) : null;
+		if (location) {
+			diagnostic.file = workspaceRelative(location[1], workspacePath);
+			diagnostic.line = Number(location[2]);
+			// esbuild columns are 0-based
+			diagnostic.column = Number(location[3]) + 1;
+		}
+
+		diagnostics.push(diagnostic);
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Collect the `npm error` (or older `npm ERR!`) lines of a failed install into one diagnostic
+ */
+export function parseNpmOutput(output: string): BuildDiagnostic[] {
+	const lines = output
+		.split('\n')
+		.filter((line) => /^npm (error|ERR!)/.test(line))
+		.map((line) => line.replace(/^npm (error|ERR!) ?/, ''))
+		.filter((line) => line.trim() !== '');
+
+	return lines.length > 0 ? [{ stage: 'install', severity: 'error', message: lines.join('\n') }] : [];
+}
+
+/**
+ * Fallback for a stage that failed without reporting anything parseable: the end of its output
+ */
+export function outputDiagnostic(stage: BuildStage, output: string, fallback: string): BuildDiagnostic {
+	const tail = output.trim().split('\n').slice(-20).join('\n');
+
+	return { stage, severity: 'error', message: tail || fallback };
+}
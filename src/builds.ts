@@ -0,0 +1,169 @@
+import type { BuildDiagnostic, BuildStageResult } from './types';
+
+/**
+ * Workspace paths that are not part of a build's sources
+ */
+export const SOURCE_EXCLUDES = ['**/node_modules', '**/.wrangler', '**/.git', 'dist'];
+
+/**
+ * KV key of a bundled worker script, by content hash
+ * Identical bundles share one entry however many builds produced them
+ */
+export const artifactKey = (hash: string) => `build-artifact:${hash}`;
+
+/**
+ * KV key of a source manifest, by source hash
+ */
+export const sourcesKey = (hash: string) => `build-sources:${hash}`;
+
+export type BuildStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * A build as stored in the builds table
+ */
+export interface BuildRecord {
+	id: string;
+	serverId: string;
+	status: BuildStatus;
+	/** SHA-256 of the source manifest */
+	sourceHash?: string;
+	/** SHA-256 of the bundled script */
+	artifactHash?: string;
+	/** Bundled script size in bytes */
+	size?: number;
+	/** Package name → installed (or requested) version */
+	dependencies: Record<string, string>;
+	/** The workspace's wrangler config when the build succeeded, needed to deploy it */
+	config?: Record<string, unknown>;
+	stages: BuildStageResult[];
+	diagnostics: BuildDiagnostic[];
+	error?: string;
+	createdAt: number;
+	completedAt?: number;
+}
+
+/**
+ * A row of the builds table, which the builds migration (src/migrations.ts) creates
+ */
+export interface BuildRow {
+	id: string;
+	server_id: string;
+	status: BuildStatus;
+	source_hash: string | null;
+	artifact_hash: string | null;
+	size: number | null;
+	dependencies: string | null;
+	config: string | null;
+	stages: string | null;
+	diagnostics: string | null;
+	error: string | null;
+	created_at: number;
+	completed_at: number | null;
+}
+
+/**
+ * Map a builds row to a BuildRecord, parsing its JSON columns
+ */
+export function buildFromRow(row: BuildRow): BuildRecord {
+	return {
+		id: row.id,
+		serverId: row.server_id,
+		status: row.status,
+		sourceHash: row.source_hash ?? undefined,
+		artifactHash: row.artifact_hash ?? undefined,
+		size: row.size ?? undefined,
+		dependencies: row.dependencies ? JSON.parse(row.dependencies) : {},
+		config: row.config ? JSON.parse(row.config) : undefined,
+		stages: row.stages ? JSON.parse(row.stages) : [],
+		diagnostics: row.diagnostics ? JSON.parse(row.diagnostics) : [],
+		error: row.error ?? undefined,
+		createdAt: row.created_at,
+		completedAt: row.completed_at ?? undefined
+	};
+}
+
+/**
+ * Hex SHA-256 of text or bytes
+ */
+export async function sha256(data: string | Uint8Array) {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash of a source manifest (workspace path → file hash)
+ * Paths are sorted first, so the hash depends only on file names and contents
+ */
+export function hashSourceManifest(manifest: Record<string, string>) {
+	const lines = Object.keys(manifest)
+		.sort()
+		.map((path) => `${path}\0${manifest[path]}\n`);
+
+	return sha256(lines.join(''));
+}
+
+/**
+ * Dependencies declared in package.json, with the versions package-lock.json resolved them to
+ */
+export function resolveDependencies(packageJson?: string, packageLock?: string): Record<string, string> {
+	if (!packageJson) {
+		return {};
+	}
+
+	const manifest = JSON.parse(packageJson) as {
+		dependencies?: Record<string, string>;
+		devDependencies?: Record<string, string>;
+	};
+	const lock = packageLock
+		? (JSON.parse(packageLock) as { packages?: Record<string, { version?: string }> })
+		: undefined;
+	const declared = { ...manifest.devDependencies, ...manifest.dependencies };
+
+	return Object.fromEntries(
+		Object.keys(declared)
+			.sort()
+			.map((name) => [name, lock?.packages?.[`node_modules/${name}`]?.version ?? declared[name]])
+	);
+}
+
+/**
+ * Entries added, removed and changed between two maps
+ */
+function diffMaps(from: Record<string, string>, to: Record<string, string>) {
+	const added = Object.keys(to).filter((key) => !(key in from)).sort();
+	const removed = Object.keys(from).filter((key) => !(key in to)).sort();
+	const changed = Object.keys(to)
+		.filter((key) => key in from && from[key] !== to[key])
+		.sort();
+
+	return { added, removed, changed };
+}
+
+/**
+ * What changed between two builds: source files, dependencies, artifact and size
+ * Source file changes need both builds' manifests; they are omitted when either is missing
+ */
+export function diffBuildRecords(
+	from: BuildRecord,
+	to: BuildRecord,
+	fromSources?: Record<string, string>,
+	toSources?: Record<string, string>
+) {
+	const dependencies = diffMaps(from.dependencies, to.dependencies);
+
+	return {
+		sameSources: !!from.sourceHash && from.sourceHash === to.sourceHash,
+		sameArtifact: !!from.artifactHash && from.artifactHash === to.artifactHash,
+		files: fromSources && toSources ? diffMaps(fromSources, toSources) : undefined,
+		dependencies: {
+			added: Object.fromEntries(dependencies.added.map((name) => [name, to.dependencies[name]])),
+			removed: Object.fromEntries(dependencies.removed.map((name) => [name, from.dependencies[name]])),
+			changed: Object.fromEntries(
+				dependencies.changed.map((name) => [name, { from: from.dependencies[name], to: to.dependencies[name] }])
+			)
+		},
+		sizeDelta: from.size !== undefined && to.size !== undefined ? to.size - from.size : undefined
+	};
+}
@@ -0,0 +1,237 @@
+import ts from 'typescript';
+import { type CapabilityKind, findRegistrations, parseSource, type Registration } from './source-editor';
+
+/**
+ * A parameter of a tool input schema or prompt argument schema, read from its zod expression
+ */
+export interface CapabilityParameter {
+	name: string;
+	/** Root zod type, e.g. `string`, `number`, `enum` (undefined when not a z.* call) */
+	type?: string;
+	description?: string;
+	optional: boolean;
+	/** Whether null is accepted (`.nullable()` or `.nullish()`); a nullable parameter is still required */
+	nullable?: boolean;
+	/** Allowed values for z.enum([...]) */
+	values?: string[];
+	/** Source text of the zod expression */
+	zod: string;
+}
+
+/**
+ * A tool, resource or prompt registration found in server source
+ */
+export interface Capability {
+	kind: CapabilityKind;
+	name?: string;
+	/** McpServer method used to register it, e.g. `tool` or `registerTool` */
+	method: string;
+	title?: string;
+	description?: string;
+	/** Tool input schema or prompt argument schema */
+	parameters?: CapabilityParameter[];
+	/** Tool annotations given as an object literal */
+	annotations?: Record<string, unknown>;
+	/** Resource URI or URI template */
+	uri?: string;
+	mimeType?: string;
+	/** 1-based line of the registration */
+	line: number;
+	/** Tool module it is registered in (src/tools/<name>.ts); absent for registrations in the entry file */
+	file?: string;
+}
+
+// Modifiers that let a parameter be left out, and those that let it be null
+const OPTIONAL_MODIFIERS = new Set(['optional', 'default', 'nullish']);
+const NULLABLE_MODIFIERS = new Set(['nullable', 'nullish']);
+
+/**
+ * Walk a zod call chain such as z.string().min(1).describe("x").optional()
+ */
+function describeZodExpression(name: string, expression: ts.Expression, sourceFile: ts.SourceFile): CapabilityParameter {
+	const parameter: CapabilityParameter = {
+		name,
+		optional: false,
+		zod: expression.getText(sourceFile)
+	};
+
+	let current: ts.Expression = expression;
+	while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+		const method = current.expression.name.text;
+		const [first] = current.arguments;
+
+		if (OPTIONAL_MODIFIERS.has(method)) {
+			parameter.optional = true;
+		}
+		if (NULLABLE_MODIFIERS.has(method)) {
+			parameter.nullable = true;
+		}
+		if (method === 'describe' && first && ts.isStringLiteralLike(first)) {
+			parameter.description ??= first.text;
+		}
+
+		if (ts.isIdentifier(current.expression.expression) && current.expression.expression.text === 'z') {
+			parameter.type = method;
+			if (method === 'enum' && first && ts.isArrayLiteralExpression(first)) {
+				parameter.values = first.elements.filter(ts.isStringLiteralLike).map((element) => element.text);
+			}
+			break;
+		}
+
+		current = current.expression.expression;
+	}
+
+	return parameter;
+}
+
+/**
+ * Name of an object literal property, if it is a plain identifier or string
+ */
+function propertyName(property: ts.ObjectLiteralElementLike, sourceFile: ts.SourceFile) {
+	if (!property.name) {
+		return undefined;
+	}
+	return ts.isStringLiteralLike(property.name) ? property.name.text : property.name.getText(sourceFile);
+}
+
+/**
+ * Parameters of a zod raw shape such as { a: z.number(), b: z.string().optional() }
+ */
+function describeShape(shape: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile) {
+	return shape.properties.filter(ts.isPropertyAssignment).map((property) =>
+		describeZodExpression(propertyName(property, sourceFile) ?? '', property.initializer, sourceFile)
+	);
+}
+
+/**
+ * An object literal is a zod shape when its values are zod expressions
+ */
+function isZodShape(node: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile) {
+	return (
+		node.properties.length > 0 &&
+		node.properties.every(
+			(property) => ts.isPropertyAssignment(property) && /^z\./.test(property.initializer.getText(sourceFile))
+		)
+	);
+}
+
+/**
+ * Evaluate a literal expression (strings, numbers, booleans, objects, arrays) for reporting
+ */
+function literalValue(expression: ts.Expression, sourceFile: ts.SourceFile): unknown {
+	if (ts.isStringLiteralLike(expression)) {
+		return expression.text;
+	}
+	if (ts.isNumericLiteral(expression)) {
+		return Number(expression.text);
+	}
+	if (expression.kind === ts.SyntaxKind.TrueKeyword) {
+		return true;
+	}
+	if (expression.kind === ts.SyntaxKind.FalseKeyword) {
+		return false;
+	}
+	if (ts.isArrayLiteralExpression(expression)) {
+		return expression.elements.map((element) => literalValue(element, sourceFile));
+	}
+	if (ts.isObjectLiteralExpression(expression)) {
+		return Object.fromEntries(
+			expression.properties
+				.filter(ts.isPropertyAssignment)
+				.map((property) => [propertyName(property, sourceFile), literalValue(property.initializer, sourceFile)])
+		);
+	}
+	return expression.getText(sourceFile);
+}
+
+/**
+ * Read a property of a config object literal (as used by registerTool/registerResource/registerPrompt)
+ */
+function configProperty(config: ts.ObjectLiteralExpression, name: string, sourceFile: ts.SourceFile) {
+	return config.properties
+		.filter(ts.isPropertyAssignment)
+		.find((property) => propertyName(property, sourceFile) === name)?.initializer;
+}
+
+/**
+ * Fill title/description/parameters/annotations/mimeType from a config object literal
+ */
+function applyConfig(capability: Capability, config: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile) {
+	for (const key of ['title', 'description', 'mimeType'] as const) {
+		const value = configProperty(config, key, sourceFile);
+		if (value && ts.isStringLiteralLike(value)) {
+			capability[key] = value.text;
+		}
+	}
+
+	const schema = configProperty(config, 'inputSchema', sourceFile) ?? configProperty(config, 'argsSchema', sourceFile);
+	if (schema && ts.isObjectLiteralExpression(schema)) {
+		capability.parameters = describeShape(schema, sourceFile);
+	}
+
+	const annotations = configProperty(config, 'annotations', sourceFile);
+	if (annotations && ts.isObjectLiteralExpression(annotations)) {
+		capability.annotations = literalValue(annotations, sourceFile) as Record<string, unknown>;
+	}
+}
+
+/**
+ * Describe a registration call: its name, description, schema and, for resources, URI
+ */
+export function describeRegistration(registration: Registration, sourceFile: ts.SourceFile): Capability {
+	const { call, kind, method, name } = registration;
+	const capability: Capability = {
+		kind,
+		name,
+		method,
+		line: sourceFile.getLineAndCharacterOfPosition(call.getStart(sourceFile)).line + 1
+	};
+
+	// Everything between the name and the trailing callback
+	let args = call.arguments.slice(1, -1);
+
+	if (kind === 'resource' && args.length > 0) {
+		const [uri] = args;
+		if (ts.isStringLiteralLike(uri)) {
+			capability.uri = uri.text;
+		} else if (ts.isNewExpression(uri) && uri.arguments?.[0] && ts.isStringLiteralLike(uri.arguments[0])) {
+			// new ResourceTemplate("items://{id}", { list: undefined })
+			capability.uri = uri.arguments[0].text;
+		} else {
+			capability.uri = uri.getText(sourceFile);
+		}
+		args = args.slice(1);
+	}
+
+	for (const arg of args) {
+		if (ts.isStringLiteralLike(arg)) {
+			capability.description ??= arg.text;
+		} else if (ts.isObjectLiteralExpression(arg)) {
+			if (method.startsWith('register') || kind === 'resource') {
+				applyConfig(capability, arg, sourceFile);
+			} else if (!capability.parameters && (arg.properties.length === 0 || isZodShape(arg, sourceFile))) {
+				capability.parameters = describeShape(arg, sourceFile);
+			} else if (kind === 'tool') {
+				capability.annotations = literalValue(arg, sourceFile) as Record<string, unknown>;
+			}
+		}
+	}
+
+	return capability;
+}
+
+/**
+ * List every tool, resource and prompt registered in a source file
+ */
+export function listCapabilities(source: string, fileName = 'index.ts') {
+	const sourceFile = parseSource(source, fileName);
+	const capabilities = findRegistrations(sourceFile).map((registration) =>
+		describeRegistration(registration, sourceFile)
+	);
+
+	return {
+		tools: capabilities.filter((capability) => capability.kind === 'tool'),
+		resources: capabilities.filter((capability) => capability.kind === 'resource'),
+		prompts: capabilities.filter((capability) => capability.kind === 'prompt')
+	};
+}
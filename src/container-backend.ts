@@ -0,0 +1,229 @@
+import { describeExit } from './executions';
+import type { ExecOptions, ExecResult, FileEncoding, FileEntry, ListFilesOptions } from './types';
+import { bytesToBase64 } from './workspace';
+
+/**
+ * Options shared by the filesystem methods
+ * `root` makes the agent reject paths that resolve (through symlinks) outside of that directory
+ */
+export interface FsOptions {
+	root?: string;
+}
+
+/**
+ * Result of a filesystem operation; status is the agent's HTTP status (404 when the path does not exist)
+ */
+export type FsResult<T> = (T & { success: true }) | { success: false; status: number; error: string };
+
+/**
+ * What ContainerManagerRPC needs from a container: running commands and touching its filesystem
+ * MyContainer implements it on a Cloudflare container; tests plug in a local runtime instead
+ * (see ContainerManagerRPC.getContainerBackend)
+ */
+export interface ContainerBackend {
+	execCommand(command: string, options?: ExecOptions): Promise<ExecResult>;
+	/**
+	 * Start a command and return its output as the agent's NDJSON event stream
+	 * The executionId can be passed to cancelCommand while the stream is open
+	 */
+	execStream(executionId: string, command: string, options?: ExecOptions): Promise<ReadableStream<Uint8Array>>;
+	/** Kill a command started with execStream */
+	cancelCommand(executionId: string): Promise<{ success: boolean; error?: string }>;
+	writeFile(
+		path: string,
+		content: string | Uint8Array,
+		options?: FsOptions & { encoding?: FileEncoding }
+	): Promise<FsResult<{ bytesWritten: number }>>;
+	readFile(
+		path: string,
+		options?: FsOptions & { encoding?: FileEncoding }
+	): Promise<FsResult<{ content: string; size: number }>>;
+	listFiles(path: string, options?: FsOptions & ListFilesOptions): Promise<FsResult<{ entries: FileEntry[] }>>;
+	statFile(path: string, options?: FsOptions): Promise<FsResult<FileEntry>>;
+	deleteFile(path: string, options?: FsOptions & { recursive?: boolean }): Promise<FsResult<{ deleted: boolean }>>;
+	moveFile(from: string, to: string, options?: FsOptions): Promise<FsResult<{ moved: boolean }>>;
+	makeDirectory(path: string, options?: FsOptions): Promise<FsResult<{ created: boolean }>>;
+	/** Copies recursively, merging into existing directories like `cp -r from/. to/` */
+	copyPath(from: string, to: string, options?: FsOptions): Promise<FsResult<{ copied: number }>>;
+}
+
+/**
+ * Sends a request to the container agent; path is the agent route, e.g. `/exec`
+ */
+export type AgentFetch = (path: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * ContainerBackend that speaks the HTTP protocol of the container agent (container_src)
+ */
+export class AgentClient implements ContainerBackend {
+	constructor(private fetchAgent: AgentFetch) {}
+
+	async execCommand(command: string, options: ExecOptions = {}): Promise<ExecResult> {
+		try {
+			const response = await this.post('/exec', {
+				command,
+				cwd: options.cwd,
+				env: options.env,
+				timeoutMs: options.timeout
+			});
+
+			if (!response.ok) {
+				throw new Error(await agentError(response));
+			}
+
+			const result = await response.json<Omit<ExecResult, 'success' | 'output'>>();
+
+			return {
+				...result,
+				success: result.exitCode === 0 && !result.timedOut && !result.cancelled,
+				output: result.stdout + result.stderr,
+				error: describeExit(result)
+			};
+		} catch (error) {
+			return {
+				success: false,
+				exitCode: -1,
+				stdout: '',
+				stderr: '',
+				output: '',
+				durationMs: 0,
+				timedOut: false,
+				cancelled: false,
+				truncated: false,
+				error: error instanceof Error ? error.message : 'Unknown error'
+			};
+		}
+	}
+
+	async execStream(executionId: string, command: string, options: ExecOptions = {}) {
+		const response = await this.post('/exec/stream', {
+			id: executionId,
+			command,
+			cwd: options.cwd,
+			env: options.env,
+			timeoutMs: options.timeout
+		});
+
+		if (!response.ok || !response.body) {
+			throw new Error(await agentError(response));
+		}
+
+		return response.body;
+	}
+
+	async cancelCommand(executionId: string) {
+		try {
+			const response = await this.post('/exec/cancel', { id: executionId });
+
+			if (!response.ok) {
+				return { success: false, error: await agentError(response) };
+			}
+
+			return { success: true };
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error'
+			};
+		}
+	}
+
+	/**
+	 * Readiness probe: whether the agent answers GET /health
+	 */
+	async health(): Promise<{ ready: true } | { ready: false; error: string }> {
+		try {
+			const response = await this.fetchAgent('/health', { method: 'GET' });
+
+			if (!response.ok) {
+				return { ready: false, error: await agentError(response) };
+			}
+
+			return { ready: true };
+		} catch (error) {
+			return { ready: false, error: error instanceof Error ? error.message : 'Unknown error' };
+		}
+	}
+
+	async writeFile(path: string, content: string | Uint8Array, options: FsOptions & { encoding?: FileEncoding } = {}) {
+		const binary = content instanceof Uint8Array;
+		return this.fsRequest<{ bytesWritten: number }>('write', {
+			path,
+			root: options.root,
+			content: binary ? bytesToBase64(content) : content,
+			encoding: binary ? 'base64' : options.encoding
+		});
+	}
+
+	async readFile(path: string, options: FsOptions & { encoding?: FileEncoding } = {}) {
+		return this.fsRequest<{ content: string; size: number }>('read', {
+			path,
+			root: options.root,
+			encoding: options.encoding
+		});
+	}
+
+	async listFiles(path: string, options: FsOptions & ListFilesOptions = {}) {
+		return this.fsRequest<{ entries: FileEntry[] }>('list', { path, ...options });
+	}
+
+	async statFile(path: string, options: FsOptions = {}) {
+		return this.fsRequest<FileEntry>('stat', { path, root: options.root });
+	}
+
+	async deleteFile(path: string, options: FsOptions & { recursive?: boolean } = {}) {
+		return this.fsRequest<{ deleted: boolean }>('delete', { path, ...options });
+	}
+
+	async moveFile(from: string, to: string, options: FsOptions = {}) {
+		return this.fsRequest<{ moved: boolean }>('move', { path: from, to, root: options.root });
+	}
+
+	async makeDirectory(path: string, options: FsOptions = {}) {
+		return this.fsRequest<{ created: boolean }>('mkdir', { path, root: options.root });
+	}
+
+	async copyPath(from: string, to: string, options: FsOptions = {}) {
+		return this.fsRequest<{ copied: number }>('copy', { path: from, to, root: options.root });
+	}
+
+	// Forward a filesystem operation to the container agent
+	private async fsRequest<T>(operation: string, body: Record<string, unknown>): Promise<FsResult<T>> {
+		try {
+			const response = await this.post(`/fs/${operation}`, body);
+			const result = await response.json<T & { error?: string }>();
+
+			if (!response.ok) {
+				return {
+					success: false,
+					status: response.status,
+					error: result.error || `Container agent returned ${response.status}`
+				};
+			}
+
+			return { ...result, success: true };
+		} catch (error) {
+			return {
+				success: false,
+				status: 500,
+				error: error instanceof Error ? error.message : 'Unknown error'
+			};
+		}
+	}
+
+	private post(path: string, body: Record<string, unknown>) {
+		return this.fetchAgent(path, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body)
+		});
+	}
+}
+
+/**
+ * Error message of a failed agent response
+ */
+async function agentError(response: Response) {
+	const body = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+	return body.error || `Container agent returned ${response.status}`;
+}
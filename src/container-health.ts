@@ -0,0 +1,159 @@
+/**
+ * Lifecycle events of a container, recorded by MyContainer
+ * - start: the container came up and its agent port opened
+ * - ready: the agent answered the readiness probe, so commands can run
+ * - stop: it stopped cleanly (exit code 0), usually after sleepAfter
+ * - crash: it stopped with a non-zero exit code
+ * - restart: an automatic restart after a crash began
+ * - error: starting, probing or restarting it failed
+ */
+export type ContainerEventType = 'start' | 'ready' | 'stop' | 'crash' | 'restart' | 'error';
+
+/**
+ * A recorded lifecycle event
+ */
+export interface ContainerEvent {
+	id: number;
+	containerId: string;
+	type: ContainerEventType;
+	exitCode?: number;
+	error?: string;
+	createdAt: number;
+}
+
+/**
+ * A row of the container_events table
+ */
+export interface ContainerEventRow {
+	id: number;
+	container_id: string;
+	type: ContainerEventType;
+	exit_code: number | null;
+	error: string | null;
+	created_at: number;
+}
+
+/**
+ * Map a container_events row to a ContainerEvent
+ */
+export function containerEventFromRow(row: ContainerEventRow): ContainerEvent {
+	return {
+		id: row.id,
+		containerId: row.container_id,
+		type: row.type,
+		exitCode: row.exit_code ?? undefined,
+		error: row.error ?? undefined,
+		createdAt: row.created_at
+	};
+}
+
+/**
+ * Delay before the first restart after a crash; it doubles with each crash in a row
+ */
+const RESTART_BASE_DELAY_SECONDS = 5;
+const RESTART_MAX_DELAY_SECONDS = 5 * 60;
+
+/**
+ * Crashes in a row after which a container is left stopped until the next request starts it
+ */
+export const MAX_RESTART_ATTEMPTS = 6;
+
+/**
+ * A container that stayed up this long before stopping starts its crash count afresh
+ */
+export const RESTART_RESET_MS = 10 * 60 * 1000;
+
+/**
+ * How many recent events getContainerHealth returns
+ */
+const RECENT_EVENTS = 20;
+
+/**
+ * Whether a stop was a crash rather than the agent shutting down on SIGTERM
+ */
+export function isCrash(exitCode: number) {
+	return exitCode !== 0;
+}
+
+/**
+ * Seconds to wait before restart attempt number `attempt` (0-based): 5s, 10s, 20s ... up to 5 minutes
+ */
+export function restartDelaySeconds(attempt: number) {
+	return Math.min(RESTART_BASE_DELAY_SECONDS * 2 ** attempt, RESTART_MAX_DELAY_SECONDS);
+}
+
+/**
+ * Append a lifecycle event
+ */
+export async function recordContainerEvent(
+	db: D1Database,
+	containerId: string,
+	type: ContainerEventType,
+	details: { exitCode?: number; error?: string } = {}
+) {
+	await db.prepare(`
+		INSERT INTO container_events (container_id, type, exit_code, error, created_at)
+		VALUES (?, ?, ?, ?, ?)
+	`).bind(containerId, type, details.exitCode ?? null, details.error ?? null, Date.now()).run();
+}
+
+/**
+ * Fail the executions still running in a container that stopped, so they do not stay running forever
+ * Returns how many were failed
+ */
+export async function failOrphanedExecutions(db: D1Database, containerId: string, reason: string) {
+	const result = await db.prepare(`
+		UPDATE container_executions
+		SET status = 'failed', error = ?, completed_at = ?
+		WHERE container_id = ? AND status = 'running'
+	`).bind(reason, Date.now(), containerId).run();
+
+	return result.meta.changes;
+}
+
+/**
+ * Health of a container from its lifecycle events
+ * A container is running from its last start until the next stop or crash; restarts counts
+ * automatic restarts after crashes, and lastError is the latest crash or error
+ */
+export async function containerHealth(db: D1Database, containerId: string, now = Date.now()) {
+	const [lifecycle, restarts, lastError, recent] = await db.batch([
+		db.prepare(`
+			SELECT * FROM container_events
+			WHERE container_id = ? AND type IN ('start', 'stop', 'crash')
+			ORDER BY id DESC LIMIT 1
+		`).bind(containerId),
+		db.prepare(`
+			SELECT COUNT(*) AS restarts FROM container_events WHERE container_id = ? AND type = 'restart'
+		`).bind(containerId),
+		db.prepare(`
+			SELECT * FROM container_events
+			WHERE container_id = ? AND type IN ('crash', 'error')
+			ORDER BY id DESC LIMIT 1
+		`).bind(containerId),
+		db.prepare(`
+			SELECT * FROM container_events WHERE container_id = ? ORDER BY id DESC LIMIT ?
+		`).bind(containerId, RECENT_EVENTS)
+	]);
+
+	const last = (lifecycle.results as ContainerEventRow[])[0];
+	const error = (lastError.results as ContainerEventRow[])[0];
+	const running = last?.type === 'start';
+
+	return {
+		containerId,
+		status: last ? (running ? ('running' as const) : ('stopped' as const)) : ('unknown' as const),
+		startedAt: running ? last.created_at : undefined,
+		uptimeMs: running ? now - last.created_at : undefined,
+		restarts: (restarts.results as { restarts: number }[])[0]?.restarts ?? 0,
+		lastError: error
+			? {
+					message: error.error ?? `Exited with code ${error.exit_code}`,
+					exitCode: error.exit_code ?? undefined,
+					at: error.created_at
+				}
+			: undefined,
+		/** Newest first */
+		recentEvents: (recent.results as ContainerEventRow[]).map(containerEventFromRow)
+	};
+}
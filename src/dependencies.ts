@@ -0,0 +1,137 @@
+import { ContainerManagerError } from './errors';
+
+/**
+ * npm package names: lowercase, URL-safe, optionally scoped, at most 214 characters
+ * Names starting with `.`, `_` or `-` are rejected (the last so a name can never be read as a flag)
+ */
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9][a-z0-9._~-]*\/)?[a-z0-9][a-z0-9._~-]*$/;
+const MAX_PACKAGE_NAME_LENGTH = 214;
+
+/**
+ * Semver ranges (`^1.2.0`, `>=1 <3`, `1.x || 2.x`, `1.0.0 - 2.0.0`) and dist-tags (`latest`)
+ * URLs, git, file: and npm: aliases are not supported: they need the network or escape the workspace
+ */
+const VERSION_RANGE_PATTERN = /^[0-9A-Za-z^~<>=|*+.\s-]+$/;
+const MAX_VERSION_RANGE_LENGTH = 256;
+
+/**
+ * A dependency to add: a package name and, optionally, the version range to declare
+ */
+export interface DependencySpec {
+	name: string;
+	/** Declared range; npm saves `^<installed version>` when omitted */
+	range?: string;
+}
+
+/**
+ * A dependency after installation
+ */
+export interface ResolvedDependency {
+	name: string;
+	/** Range declared in package.json */
+	range: string;
+	/** Version package-lock.json resolved it to, if it is installed */
+	version?: string;
+	/** Declared in devDependencies */
+	dev: boolean;
+}
+
+/**
+ * Throw unless name is a valid npm package name
+ */
+export function assertValidPackageName(name: unknown): asserts name is string {
+	if (typeof name !== 'string' || name.length > MAX_PACKAGE_NAME_LENGTH || !PACKAGE_NAME_PATTERN.test(name)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid package name ${JSON.stringify(name)}: use lowercase letters, digits, '-', '.', '_' and '~', optionally scoped as @scope/name`
+		);
+	}
+}
+
+/**
+ * Throw unless range is a semver range or dist-tag
+ */
+export function assertValidVersionRange(range: unknown): asserts range is string {
+	if (
+		typeof range !== 'string' ||
+		range.length > MAX_VERSION_RANGE_LENGTH ||
+		!VERSION_RANGE_PATTERN.test(range) ||
+		!range.trim() ||
+		range.trim().startsWith('-')
+	) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid version range ${JSON.stringify(range)}: use a semver range such as ^1.2.0 or a dist-tag`
+		);
+	}
+}
+
+/**
+ * Parse `name`, `name@range`, `@scope/name` or `@scope/name@range` into a validated spec
+ */
+export function parseDependency(spec: string): DependencySpec {
+	if (typeof spec !== 'string') {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid dependency ${JSON.stringify(spec)}: expected a string such as zod@^3.22.0`
+		);
+	}
+
+	// The version separator is the first @ after a scope's leading one
+	const separator = spec.indexOf('@', spec.startsWith('@') ? 1 : 0);
+	const name = separator === -1 ? spec : spec.slice(0, separator);
+	const range = separator === -1 ? undefined : spec.slice(separator + 1);
+
+	assertValidPackageName(name);
+	if (range !== undefined) {
+		assertValidVersionRange(range);
+	}
+
+	return { name, range: range?.trim() };
+}
+
+/**
+ * Dependencies declared in package.json, with the versions package-lock.json resolved them to
+ */
+export function readDependencies(packageJson: string, packageLock?: string): ResolvedDependency[] {
+	const manifest = JSON.parse(packageJson) as {
+		dependencies?: Record<string, string>;
+		devDependencies?: Record<string, string>;
+	};
+	const lock = packageLock
+		? (JSON.parse(packageLock) as { packages?: Record<string, { version?: string }> })
+		: undefined;
+	const declared = [
+		...Object.entries(manifest.dependencies ?? {}).map(([name, range]) => ({ name, range, dev: false })),
+		...Object.entries(manifest.devDependencies ?? {}).map(([name, range]) => ({ name, range, dev: true }))
+	];
+
+	return declared
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.map((dependency) => ({ ...dependency, version: lock?.packages?.[`node_modules/${dependency.name}`]?.version }));
+}
+
+/**
+ * argv for an npm command that installs packages without the public registry
+ * With a registry mirror it installs from there; otherwise it runs offline against the npm cache,
+ * which the container image fills with every package it preinstalls
+ */
+export function npmCommand(subcommand: 'install' | 'uninstall', args: string[] = [], registry?: string) {
+	const source = registry ? [`--registry=${registry}`] : ['--offline'];
+
+	return ['npm', subcommand, ...source, '--no-audit', '--no-fund', ...args];
+}
+
+/**
+ * Explain an install that failed because a package is neither in the mirror nor in the npm cache
+ */
+export function describeInstallFailure(output: string, registry?: string) {
+	if (/ENOTCACHED/.test(output)) {
+		return 'A requested package is not available offline: it is not among the packages preinstalled in the container image';
+	}
+	if (registry && /E404|ETARGET/.test(output)) {
+		return `A requested package or version is not available from ${registry}`;
+	}
+
+	return 'npm install failed';
+}
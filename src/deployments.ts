@@ -0,0 +1,71 @@
+export type DeploymentStatus = 'deploying' | 'active' | 'superseded' | 'failed';
+
+/**
+ * A deployment of a build to the dispatch namespace
+ */
+export interface DeploymentRecord {
+	id: string;
+	serverId: string;
+	buildId: string;
+	/** Per-server deployment number, starting at 1 */
+	version: number;
+	status: DeploymentStatus;
+	scriptName: string;
+	artifactHash: string;
+	url?: string;
+	/** Version ID reported by the publisher */
+	versionId?: string;
+	/** Deployment this one rolled back to, if it was a rollback */
+	rollbackOf?: string;
+	error?: string;
+	createdAt: number;
+	completedAt?: number;
+}
+
+/**
+ * A row of the deployments table, which the deployments migration (src/migrations.ts) creates
+ */
+export interface DeploymentRow {
+	id: string;
+	server_id: string;
+	build_id: string;
+	version: number;
+	status: DeploymentStatus;
+	script_name: string;
+	artifact_hash: string;
+	url: string | null;
+	version_id: string | null;
+	rollback_of: string | null;
+	error: string | null;
+	created_at: number;
+	completed_at: number | null;
+}
+
+/**
+ * Map a deployments row to a DeploymentRecord
+ */
+export function deploymentFromRow(row: DeploymentRow): DeploymentRecord {
+	return {
+		id: row.id,
+		serverId: row.server_id,
+		buildId: row.build_id,
+		version: row.version,
+		status: row.status,
+		scriptName: row.script_name,
+		artifactHash: row.artifact_hash,
+		url: row.url ?? undefined,
+		versionId: row.version_id ?? undefined,
+		rollbackOf: row.rollback_of ?? undefined,
+		error: row.error ?? undefined,
+		createdAt: row.created_at,
+		completedAt: row.completed_at ?? undefined
+	};
+}
+
+/**
+ * URL a deployed server is reachable at through the dispatch worker, which routes
+ * `<base>/<scriptName>/...` to the user worker of that name
+ */
+export function routableUrl(baseUrl: string | undefined, scriptName: string) {
+	return baseUrl ? `${baseUrl.replace(/\/+$/, '')}/${scriptName}/mcp` : undefined;
+}
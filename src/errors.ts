@@ -0,0 +1,107 @@
+/**
+ * Stable codes for ContainerManagerRPC failures
+ * Callers branch on these; messages are for people and may change
+ */
+export const ERROR_CODES = [
+	/** An ID, path, dependency spec, cursor or option is malformed */
+	'INVALID_ARGUMENT',
+	/** The caller may not do this (see src/access.ts) */
+	'PERMISSION_DENIED',
+	/** An execution, build, deployment, snapshot or binding does not exist */
+	'NOT_FOUND',
+	/** The server has no workspace in its container and no snapshot to restore it from */
+	'WORKSPACE_NOT_FOUND',
+	/** createSDKEnvironment could not create the workspace or copy the template into it */
+	'TEMPLATE_COPY_FAILED',
+	/** The entry file has no McpAgent class with an init() method to edit */
+	'INIT_NOT_FOUND',
+	/** No tool, resource or prompt with that name is registered */
+	'CAPABILITY_NOT_FOUND',
+	/** A tool, resource or prompt with that name is already registered */
+	'CAPABILITY_EXISTS',
+	/** Code passed in (or a workspace's wrangler.jsonc) does not parse, or does not register what it should */
+	'INVALID_SOURCE',
+	/** npm could not install or uninstall the requested packages */
+	'INSTALL_FAILED',
+	/** A build stage failed; details carry the stages and diagnostics */
+	'BUILD_FAILED',
+	/** The worker publisher rejected a deployment */
+	'DEPLOY_FAILED',
+	/** A preview's wrangler dev exited or did not start serving; details carry the end of its log */
+	'PREVIEW_FAILED',
+	/** A command exited with a non-zero code */
+	'COMMAND_FAILED',
+	/** A command ran past its timeout and was killed */
+	'TIMEOUT',
+	/** An execution was cancelled */
+	'CANCELLED',
+	/** The request conflicts with the current state, such as cancelling a finished execution */
+	'CONFLICT',
+	/** Every container that could serve the request stayed leased */
+	'CONTAINER_BUSY',
+	/** The container or its agent failed a file operation */
+	'CONTAINER_ERROR',
+	/** Anything else */
+	'INTERNAL'
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * An error with a stable code and structured details, which failure() turns into a Failure
+ */
+export class ContainerManagerError extends Error {
+	constructor(
+		public code: ErrorCode,
+		message: string,
+		public details?: Record<string, unknown>
+	) {
+		super(message);
+		this.name = 'ContainerManagerError';
+	}
+}
+
+/**
+ * What every ContainerManagerRPC method returns when it succeeds, alongside its own fields
+ */
+export type Success<T extends object = object> = { success: true } & T;
+
+/**
+ * What every ContainerManagerRPC method returns when it fails
+ */
+export interface Failure {
+	success: false;
+	code: ErrorCode;
+	/** Human-readable message */
+	error: string;
+	/** Structured context, such as the executionId and exit code of a failed command */
+	details?: Record<string, unknown>;
+}
+
+/**
+ * Result of a ContainerManagerRPC method; narrow on success, then on code
+ */
+export type Result<T extends object = object> = Success<T> | Failure;
+
+/**
+ * Mark a method's return value as a success
+ */
+export function ok<T extends object>(value: T): Success<T> {
+	return { success: true, ...value };
+}
+
+/**
+ * Turn anything a method threw into a Failure
+ * Errors without a code (from the runtime, D1 or a Durable Object) are INTERNAL
+ */
+export function failure(error: unknown): Failure {
+	if (error instanceof ContainerManagerError) {
+		return { success: false, code: error.code, error: error.message, details: error.details };
+	}
+
+	return {
+		success: false,
+		code: 'INTERNAL',
+		error: error instanceof Error ? error.message : 'Unknown error'
+	};
+}
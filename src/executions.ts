@@ -0,0 +1,348 @@
+import { ContainerManagerError } from './errors';
+import type { ExecEvent, ExecutionQuery, ExecutionRecord, ExecutionStatus } from './types';
+
+/**
+ * Statuses after which an execution will not change again
+ */
+export const TERMINAL_STATUSES: readonly ExecutionStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * Every execution status, for validating filters and reporting counts
+ */
+const EXECUTION_STATUSES: readonly ExecutionStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+const DEFAULT_EXECUTION_PAGE_SIZE = 50;
+const MAX_EXECUTION_PAGE_SIZE = 200;
+
+/**
+ * How many of a server's most frequently failing commands getExecutionStats reports
+ */
+const TOP_FAILING_COMMANDS = 10;
+
+/**
+ * Log chunks are buffered and written to D1 once this many bytes are pending
+ */
+const LOG_FLUSH_BYTES = 32 * 1024;
+
+/**
+ * ...or once the oldest pending chunk is this old
+ */
+const LOG_FLUSH_INTERVAL_MS = 1000;
+
+interface ExitInfo {
+	exitCode: number;
+	durationMs: number;
+	timedOut?: boolean;
+	cancelled?: boolean;
+}
+
+/**
+ * Final status of an execution from the way its command exited
+ */
+export function statusForExit(exit: ExitInfo): ExecutionStatus {
+	if (exit.cancelled) {
+		return 'cancelled';
+	}
+	return exit.exitCode === 0 && !exit.timedOut ? 'succeeded' : 'failed';
+}
+
+/**
+ * Human-readable reason for an unsuccessful exit, or undefined on success
+ */
+export function describeExit(exit: ExitInfo) {
+	if (exit.timedOut) {
+		return `Command timed out after ${exit.durationMs}ms`;
+	}
+	if (exit.cancelled) {
+		return 'Command was cancelled';
+	}
+	if (exit.exitCode !== 0) {
+		return `Command exited with code ${exit.exitCode}`;
+	}
+	return undefined;
+}
+
+/**
+ * Parse the container agent's NDJSON event stream
+ */
+export async function* readExecEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ExecEvent> {
+	const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+	let buffered = '';
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+
+			buffered += value;
+			const lines = buffered.split('\n');
+			buffered = lines.pop() ?? '';
+
+			for (const line of lines) {
+				if (line.trim()) {
+					yield JSON.parse(line) as ExecEvent;
+				}
+			}
+		}
+
+		if (buffered.trim()) {
+			yield JSON.parse(buffered) as ExecEvent;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Appends command output to the container_execution_logs table in batches
+ * Consecutive chunks from the same stream are merged into one row per flush,
+ * and flushes are serialized so rows become visible in seq order
+ */
+export class ExecutionLogWriter {
+	private seq = 0;
+	private pending: { stream: 'stdout' | 'stderr'; data: string }[] = [];
+	private pendingBytes = 0;
+	private timer?: ReturnType<typeof setTimeout>;
+	private flushing: Promise<void> = Promise.resolve();
+
+	constructor(
+		private db: D1Database,
+		private executionId: string
+	) {}
+
+	/**
+	 * Queue a chunk of output, flushing if enough has accumulated
+	 */
+	async append(stream: 'stdout' | 'stderr', data: string) {
+		const last = this.pending[this.pending.length - 1];
+
+		if (last && last.stream === stream) {
+			last.data += data;
+		} else {
+			this.pending.push({ stream, data });
+		}
+		this.pendingBytes += data.length;
+
+		if (this.pendingBytes >= LOG_FLUSH_BYTES) {
+			await this.flush();
+		} else if (!this.timer) {
+			// Make quiet commands' output visible without waiting for more of it
+			this.timer = setTimeout(() => {
+				this.flush().catch((error) => console.error('Failed to flush execution logs:', error));
+			}, LOG_FLUSH_INTERVAL_MS);
+		}
+	}
+
+	/**
+	 * Write all pending chunks
+	 */
+	flush() {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+		}
+
+		const chunks = this.pending;
+		this.pending = [];
+		this.pendingBytes = 0;
+
+		if (chunks.length > 0) {
+			const statements = chunks.map((chunk) =>
+				this.db.prepare(`
+					INSERT INTO container_execution_logs (execution_id, seq, stream, data, created_at)
+					VALUES (?, ?, ?, ?, ?)
+				`).bind(this.executionId, ++this.seq, chunk.stream, chunk.data, Date.now())
+			);
+			this.flushing = this.flushing.then(async () => {
+				await this.db.batch(statements);
+			});
+		}
+
+		return this.flushing;
+	}
+}
+
+/**
+ * A row of the container_executions table
+ */
+export interface ExecutionRow {
+	id: string;
+	server_id: string;
+	container_id: string;
+	command: string;
+	status: ExecutionStatus;
+	output?: string | null;
+	error: string | null;
+	started_at: number;
+	completed_at: number | null;
+}
+
+/**
+ * Map a container_executions row to an ExecutionRecord
+ */
+export function executionFromRow(row: ExecutionRow): ExecutionRecord {
+	return {
+		id: row.id,
+		serverId: row.server_id,
+		containerId: row.container_id,
+		command: row.command,
+		status: row.status,
+		error: row.error ?? undefined,
+		output: row.output === undefined ? undefined : (row.output ?? ''),
+		startedAt: row.started_at,
+		completedAt: row.completed_at ?? undefined,
+		durationMs: row.completed_at === null ? undefined : row.completed_at - row.started_at
+	};
+}
+
+/**
+ * Cursor pointing after an execution in newest-first order
+ */
+function encodeExecutionCursor(row: Pick<ExecutionRow, 'started_at' | 'id'>) {
+	return btoa(JSON.stringify([row.started_at, row.id]));
+}
+
+function decodeExecutionCursor(cursor: string): [number, string] {
+	try {
+		const [startedAt, id] = JSON.parse(atob(cursor));
+		if (typeof startedAt === 'number' && typeof id === 'string') {
+			return [startedAt, id];
+		}
+	} catch {
+		// Reported below
+	}
+
+	throw new ContainerManagerError('INVALID_ARGUMENT', `Invalid cursor ${JSON.stringify(cursor)}`);
+}
+
+/**
+ * One page of executions matching a query, newest first, without their output
+ * Pages are keyed on (started_at, id), so executions recorded while paging do not shift later pages
+ */
+export async function queryExecutions(db: D1Database, query: ExecutionQuery = {}) {
+	const conditions: string[] = [];
+	const params: (string | number)[] = [];
+
+	if (query.serverId !== undefined) {
+		conditions.push('server_id = ?');
+		params.push(query.serverId);
+	}
+	if (query.containerId !== undefined) {
+		conditions.push('container_id = ?');
+		params.push(query.containerId);
+	}
+	if (query.status !== undefined) {
+		const statuses = Array.isArray(query.status) ? query.status : [query.status];
+		for (const status of statuses) {
+			if (!EXECUTION_STATUSES.includes(status)) {
+				throw new ContainerManagerError(
+					'INVALID_ARGUMENT',
+					`Invalid status '${status}'. Valid statuses: ${EXECUTION_STATUSES.join(', ')}`
+				);
+			}
+		}
+		if (statuses.length > 0) {
+			conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+			params.push(...statuses);
+		}
+	}
+	if (query.since !== undefined) {
+		conditions.push('started_at >= ?');
+		params.push(query.since);
+	}
+	if (query.until !== undefined) {
+		conditions.push('started_at < ?');
+		params.push(query.until);
+	}
+	if (query.cursor !== undefined) {
+		const [startedAt, id] = decodeExecutionCursor(query.cursor);
+		conditions.push('(started_at < ? OR (started_at = ? AND id < ?))');
+		params.push(startedAt, startedAt, id);
+	}
+
+	const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_EXECUTION_PAGE_SIZE), 1), MAX_EXECUTION_PAGE_SIZE);
+	const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+	// One extra row tells whether there is a next page
+	const { results } = await db.prepare(`
+		SELECT id, server_id, container_id, command, status, error, started_at, completed_at
+		FROM container_executions
+		${where}
+		ORDER BY started_at DESC, id DESC
+		LIMIT ?
+	`).bind(...params, limit + 1).all<ExecutionRow>();
+
+	const page = results.slice(0, limit);
+
+	return {
+		executions: page.map(executionFromRow),
+		nextCursor: results.length > limit ? encodeExecutionCursor(page[page.length - 1]) : undefined
+	};
+}
+
+/**
+ * Execution counts by status, p50/p95 duration of finished commands and the commands that fail most
+ */
+export async function executionStats(db: D1Database, serverId: string) {
+	const [counts, finished, failing] = await db.batch<Record<string, unknown>>([
+		db.prepare(`
+			SELECT status, COUNT(*) AS count FROM container_executions WHERE server_id = ? GROUP BY status
+		`).bind(serverId),
+		db.prepare(`
+			SELECT COUNT(*) AS count FROM container_executions
+			WHERE server_id = ? AND status IN ('succeeded', 'failed') AND completed_at IS NOT NULL
+		`).bind(serverId),
+		// SQLite takes bare columns (error) from the row that supplied MAX(started_at): the latest failure
+		db.prepare(`
+			SELECT command, COUNT(*) AS failures, MAX(started_at) AS last_failed_at, error AS last_error
+			FROM container_executions
+			WHERE server_id = ? AND status = 'failed'
+			GROUP BY command
+			ORDER BY failures DESC, last_failed_at DESC
+			LIMIT ?
+		`).bind(serverId, TOP_FAILING_COMMANDS)
+	]);
+
+	const byStatus = Object.fromEntries(EXECUTION_STATUSES.map((status) => [status, 0])) as Record<ExecutionStatus, number>;
+	for (const row of counts.results as { status: ExecutionStatus; count: number }[]) {
+		byStatus[row.status] = row.count;
+	}
+
+	const finishedCount = (finished.results[0] as { count: number } | undefined)?.count ?? 0;
+
+	// Nearest-rank percentile, read with OFFSET rather than loading every duration
+	const percentile = async (fraction: number) => {
+		if (finishedCount === 0) {
+			return undefined;
+		}
+
+		const row = await db.prepare(`
+			SELECT completed_at - started_at AS duration_ms FROM container_executions
+			WHERE server_id = ? AND status IN ('succeeded', 'failed') AND completed_at IS NOT NULL
+			ORDER BY duration_ms
+			LIMIT 1 OFFSET ?
+		`).bind(serverId, Math.ceil(fraction * finishedCount) - 1).first<{ duration_ms: number }>();
+
+		return row?.duration_ms;
+	};
+
+	return {
+		serverId,
+		total: Object.values(byStatus).reduce((total, count) => total + count, 0),
+		byStatus,
+		durationMs: {
+			p50: await percentile(0.5),
+			p95: await percentile(0.95)
+		},
+		topFailingCommands: (
+			failing.results as { command: string; failures: number; last_failed_at: number; last_error: string | null }[]
+		).map((row) => ({
+			command: row.command,
+			failures: row.failures,
+			lastFailedAt: row.last_failed_at,
+			lastError: row.last_error ?? undefined
+		}))
+	};
+}
@@ -1,7 +1,28 @@
-import { Container } from "@cloudflare/containers";
+import { Container, type StopParams } from "@cloudflare/containers";
 import { ContainerManagerRPC } from "./rpc";
+import { ContainerPool } from "./pool";
+import { AgentClient, type ContainerBackend, type FsOptions } from "./container-backend";
+import {
+	type ContainerEventType,
+	failOrphanedExecutions,
+	isCrash,
+	MAX_RESTART_ATTEMPTS,
+	RESTART_RESET_MS,
+	recordContainerEvent,
+	restartDelaySeconds,
+} from "./container-health";
+import { ensureSchema } from "./migrations";
+import { stopOrphanedPreviews } from "./previews";
+import type { ExecOptions, FileEncoding, ListFilesOptions } from "./types";
+
+// The readiness probe polls the agent's /health this many times, this far apart
+const READINESS_ATTEMPTS = 20;
+const READINESS_INTERVAL_MS = 500;
+
+export class MyContainer extends Container<Env> implements ContainerBackend {
+	// Port of the container agent (container_src), which runs commands for us
+	defaultPort = 8080;
 
-export class MyContainer extends Container<Env> {
 	// Time before container sleeps due to inactivity
 	sleepAfter = "2m";
 	
@@ -12,50 +33,223 @@ export class MyContainer extends Container<Env> {
 		NODE_ENV: "production",
 	};
 
+	// Client for the agent, reached over the default port
+	private agent = new AgentClient((path, init) => this.containerFetch(`http://container${path}`, init));
+
+	// Settles once the agent answered the readiness probe since the container last started
+	private ready?: Promise<void>;
+
 	// RPC methods - these are called directly by ContainerManagerRPC
-	// No HTTP port needed, no fetch() calls
-	async execCommand(command: string) {
-		// TODO: Wire up to real container runtime when available
-		// For now, return success to allow the flow to continue
-		return {
-			success: true,
-			output: `Executed: ${command}`,
-		};
+	// and forwarded to the container agent
+	async execCommand(command: string, options: ExecOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.execCommand(command, options);
+	}
+
+	// Start a command and return its output as the agent's NDJSON event stream
+	// The executionId can be passed to cancelCommand while the stream is open
+	async execStream(executionId: string, command: string, options: ExecOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.execStream(executionId, command, options);
+	}
+
+	// Kill a command started with execStream (or execCommand with an id)
+	// Skips the readiness probe: a command to cancel means the agent is already up
+	async cancelCommand(executionId: string) {
+		return this.agent.cancelCommand(executionId);
+	}
+
+	async writeFile(
+		path: string,
+		content: string | Uint8Array,
+		options: FsOptions & { encoding?: FileEncoding } = {},
+	) {
+		await this.waitUntilReady();
+		return this.agent.writeFile(path, content, options);
+	}
+
+	async readFile(path: string, options: FsOptions & { encoding?: FileEncoding } = {}) {
+		await this.waitUntilReady();
+		return this.agent.readFile(path, options);
+	}
+
+	async listFiles(path: string, options: FsOptions & ListFilesOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.listFiles(path, options);
+	}
+
+	async statFile(path: string, options: FsOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.statFile(path, options);
 	}
 
-	async writeFile(path: string, content: string) {
-		// TODO: Wire up to real container filesystem when available
-		return {
-			success: true,
-			content: content,
-		};
+	async deleteFile(path: string, options: FsOptions & { recursive?: boolean } = {}) {
+		await this.waitUntilReady();
+		return this.agent.deleteFile(path, options);
 	}
 
-	async readFile(path: string) {
-		// TODO: Wire up to real container filesystem when available
-		return {
-			success: true,
-			content: `// File content from ${path}`,
-		};
+	async moveFile(from: string, to: string, options: FsOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.moveFile(from, to, options);
 	}
 
-	// Optional lifecycle hooks
-	override onStart() {
-		console.log("Container successfully started");
+	async makeDirectory(path: string, options: FsOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.makeDirectory(path, options);
 	}
 
-	override onStop() {
-		console.log("Container successfully shut down");
+	// Copies recursively, merging into existing directories like `cp -r from/. to/`
+	async copyPath(from: string, to: string, options: FsOptions = {}) {
+		await this.waitUntilReady();
+		return this.agent.copyPath(from, to, options);
 	}
 
-	override onError(error: unknown) {
-		console.log("Container error:", error);
+	// Scheduled by onStop after a crash, with exponential backoff between attempts
+	async restartAfterCrash() {
+		await this.recordEvent("restart");
+
+		try {
+			await this.waitUntilReady();
+		} catch (error) {
+			await this.recordEvent("error", { error: `Restart failed: ${errorMessage(error)}` });
+			await this.scheduleRestart();
+		}
+	}
+
+	// Lifecycle hooks record events in D1 (see getContainerHealth)
+	override async onStart() {
+		await this.ctx.storage.put("startedAt", Date.now());
+		await this.recordEvent("start");
+	}
+
+	override async onStop({ exitCode, reason }: StopParams) {
+		this.ready = undefined;
+		const crashed = isCrash(exitCode);
+		const startedAt = (await this.ctx.storage.get<number>("startedAt")) ?? 0;
+
+		await this.recordEvent(crashed ? "crash" : "stop", {
+			exitCode,
+			error: crashed ? `Exited with code ${exitCode} (${reason})` : undefined,
+		});
+
+		// Commands that were running died with the container
+		await this.failOrphanedExecutions(
+			crashed
+				? `Container ${this.containerId} crashed with exit code ${exitCode} while the command was running`
+				: `Container ${this.containerId} stopped while the command was running`,
+		);
+		await this.stopOrphanedPreviews(
+			crashed
+				? `Container ${this.containerId} crashed with exit code ${exitCode}`
+				: `Container ${this.containerId} stopped`,
+		);
+
+		// Clean stops and crashes after a long healthy run start the backoff afresh
+		if (!crashed || Date.now() - startedAt >= RESTART_RESET_MS) {
+			await this.ctx.storage.put("restartAttempts", 0);
+		}
+		if (crashed) {
+			await this.scheduleRestart();
+		}
 	}
+
+	override async onError(error: unknown) {
+		this.ready = undefined;
+		await this.recordEvent("error", { error: errorMessage(error) });
+		throw error;
+	}
+
+	// Name the pool gave this container (see POOL_CONTAINER_IDS)
+	private get containerId() {
+		return this.ctx.id.name ?? this.ctx.id.toString();
+	}
+
+	// Readiness probe, run before the first command after a cold start
+	// Concurrent callers share one probe; a failed probe is retried by the next command
+	private waitUntilReady() {
+		this.ready ??= this.probe().catch((error) => {
+			this.ready = undefined;
+			throw error;
+		});
+		return this.ready;
+	}
+
+	private async probe() {
+		await this.startAndWaitForPorts();
+
+		let health = await this.agent.health();
+		for (let attempt = 1; !health.ready && attempt < READINESS_ATTEMPTS; attempt++) {
+			await new Promise((resolve) => setTimeout(resolve, READINESS_INTERVAL_MS));
+			health = await this.agent.health();
+		}
+
+		if (!health.ready) {
+			throw new Error(`Container agent did not become ready: ${health.error}`);
+		}
+		await this.recordEvent("ready");
+	}
+
+	private async scheduleRestart() {
+		const attempt = (await this.ctx.storage.get<number>("restartAttempts")) ?? 0;
+
+		if (attempt >= MAX_RESTART_ATTEMPTS) {
+			await this.recordEvent("error", {
+				error: `Crashed ${attempt} times in a row; not restarting until the next request`,
+			});
+			return;
+		}
+
+		await this.ctx.storage.put("restartAttempts", attempt + 1);
+		await this.schedule(restartDelaySeconds(attempt), "restartAfterCrash");
+	}
+
+	// Lifecycle bookkeeping must never break the container, so failures are only logged
+	private async recordEvent(type: ContainerEventType, details: { exitCode?: number; error?: string } = {}) {
+		try {
+			await ensureSchema(this.env.DB);
+			await recordContainerEvent(this.env.DB, this.containerId, type, details);
+		} catch (error) {
+			console.error(`Failed to record container ${type} event:`, error);
+		}
+	}
+
+	private async failOrphanedExecutions(reason: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			const failed = await failOrphanedExecutions(this.env.DB, this.containerId, reason);
+			if (failed > 0) {
+				console.warn(`Marked ${failed} running executions in ${this.containerId} as failed: ${reason}`);
+			}
+		} catch (error) {
+			console.error("Failed to fail orphaned executions:", error);
+		}
+	}
+
+	// Previews (wrangler dev) died with the container too
+	private async stopOrphanedPreviews(reason: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			await stopOrphanedPreviews(this.env.DB, this.containerId, reason);
+		} catch (error) {
+			console.error("Failed to stop orphaned previews:", error);
+		}
+	}
+}
+
+function errorMessage(error: unknown) {
+	return error instanceof Error ? error.message : String(error);
 }
 
 // Export RPC class for service bindings
 export { ContainerManagerRPC };
 
+// Durable Object that leases the MyContainer instances (see wrangler.jsonc)
+export { ContainerPool };
+
+// Result and error code types of ContainerManagerRPC methods, so callers can branch on codes
+export { ERROR_CODES } from "./errors";
+export type { ErrorCode, Failure, Result, Success } from "./errors";
+
 // Default export for Cloudflare Workers
 // This worker is accessed ONLY via RPC, no HTTP endpoints
 export default {
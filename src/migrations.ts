@@ -0,0 +1,245 @@
+/**
+ * One step of the D1 schema
+ * Versions are applied in ascending order and never edited once released; change the schema with a new one
+ */
+export interface Migration {
+	version: number;
+	name: string;
+	statements: string[];
+}
+
+/**
+ * The container manager's schema, oldest first
+ */
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		name: 'container_executions',
+		statements: [
+			// Databases deployed before migrations already have this table, with these columns
+			`CREATE TABLE IF NOT EXISTS container_executions (
+				id TEXT PRIMARY KEY,
+				server_id TEXT NOT NULL,
+				container_id TEXT NOT NULL,
+				command TEXT NOT NULL,
+				status TEXT NOT NULL,
+				output TEXT,
+				error TEXT,
+				started_at INTEGER NOT NULL,
+				completed_at INTEGER
+			)`,
+			'CREATE INDEX IF NOT EXISTS container_executions_server ON container_executions (server_id, started_at)',
+			'CREATE INDEX IF NOT EXISTS container_executions_container ON container_executions (container_id, status)',
+			`CREATE TABLE IF NOT EXISTS container_execution_logs (
+				execution_id TEXT NOT NULL,
+				seq INTEGER NOT NULL,
+				stream TEXT NOT NULL,
+				data TEXT NOT NULL,
+				created_at INTEGER NOT NULL,
+				PRIMARY KEY (execution_id, seq)
+			)`,
+			// Executions recorded before migrations finished as 'completed', which ExecutionStatus calls 'succeeded'
+			`UPDATE container_executions SET status = 'succeeded' WHERE status = 'completed'`
+		]
+	},
+	{
+		version: 2,
+		name: 'servers',
+		statements: [
+			`CREATE TABLE servers (
+				id TEXT PRIMARY KEY,
+				template TEXT NOT NULL,
+				container_id TEXT,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL
+			)`
+		]
+	},
+	{
+		version: 3,
+		name: 'builds',
+		statements: [
+			`CREATE TABLE builds (
+				id TEXT PRIMARY KEY,
+				server_id TEXT NOT NULL,
+				status TEXT NOT NULL,
+				source_hash TEXT,
+				artifact_hash TEXT,
+				size INTEGER,
+				dependencies TEXT,
+				config TEXT,
+				stages TEXT,
+				diagnostics TEXT,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				completed_at INTEGER
+			)`,
+			'CREATE INDEX builds_server ON builds (server_id, created_at)',
+			'CREATE INDEX builds_artifact ON builds (server_id, artifact_hash)'
+		]
+	},
+	{
+		version: 4,
+		name: 'deployments',
+		statements: [
+			`CREATE TABLE deployments (
+				id TEXT PRIMARY KEY,
+				server_id TEXT NOT NULL,
+				build_id TEXT NOT NULL,
+				version INTEGER NOT NULL,
+				status TEXT NOT NULL,
+				script_name TEXT NOT NULL,
+				artifact_hash TEXT NOT NULL,
+				url TEXT,
+				version_id TEXT,
+				rollback_of TEXT,
+				error TEXT,
+				created_at INTEGER NOT NULL,
+				completed_at INTEGER,
+				UNIQUE (server_id, version)
+			)`,
+			'CREATE INDEX deployments_status ON deployments (server_id, status)'
+		]
+	},
+	{
+		version: 5,
+		name: 'execution_history',
+		statements: [
+			'CREATE INDEX container_executions_started ON container_executions (started_at, id)',
+			'CREATE INDEX container_executions_failures ON container_executions (server_id, status, command)'
+		]
+	},
+	{
+		version: 6,
+		name: 'access_control',
+		statements: [
+			// Servers created before ownership existed have no owner; only admins can reach them
+			'ALTER TABLE servers ADD COLUMN owner TEXT',
+			`CREATE TABLE server_grants (
+				server_id TEXT NOT NULL,
+				principal TEXT NOT NULL,
+				access TEXT NOT NULL,
+				granted_by TEXT NOT NULL,
+				created_at INTEGER NOT NULL,
+				PRIMARY KEY (server_id, principal)
+			)`,
+			`CREATE TABLE audit_log (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				principal TEXT,
+				action TEXT NOT NULL,
+				server_id TEXT,
+				container_id TEXT,
+				details TEXT,
+				allowed INTEGER NOT NULL,
+				reason TEXT,
+				created_at INTEGER NOT NULL
+			)`,
+			'CREATE INDEX audit_log_server ON audit_log (server_id, id)',
+			'CREATE INDEX audit_log_principal ON audit_log (principal, id)',
+			`CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+			BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`,
+			`CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+			BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END`
+		]
+	},
+	{
+		version: 7,
+		name: 'container_events',
+		statements: [
+			`CREATE TABLE container_events (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				container_id TEXT NOT NULL,
+				type TEXT NOT NULL,
+				exit_code INTEGER,
+				error TEXT,
+				created_at INTEGER NOT NULL
+			)`,
+			'CREATE INDEX container_events_container ON container_events (container_id, id)'
+		]
+	},
+	{
+		version: 8,
+		name: 'server_previews',
+		statements: [
+			// One preview per server; starting a new one replaces the row
+			`CREATE TABLE server_previews (
+				server_id TEXT PRIMARY KEY,
+				container_id TEXT NOT NULL,
+				status TEXT NOT NULL,
+				port INTEGER NOT NULL,
+				pid INTEGER,
+				session_id TEXT,
+				error TEXT,
+				started_at INTEGER NOT NULL,
+				stopped_at INTEGER
+			)`,
+			'CREATE INDEX server_previews_container ON server_previews (container_id, status)'
+		]
+	}
+];
+
+/**
+ * Apply the migrations a database does not have yet
+ * Each migration runs in one batch (a transaction) together with its schema_migrations row,
+ * which is inserted first: when two isolates race, the loser fails on that row's primary key
+ * and its batch rolls back
+ */
+export async function migrate(db: D1Database, migrations: Migration[] = MIGRATIONS) {
+	await db.prepare(`
+		CREATE TABLE IF NOT EXISTS schema_migrations (
+			version INTEGER PRIMARY KEY,
+			name TEXT NOT NULL,
+			applied_at INTEGER NOT NULL
+		)
+	`).run();
+
+	const { results } = await db.prepare('SELECT version FROM schema_migrations').all<{ version: number }>();
+	const existing = new Set(results.map((row) => row.version));
+	const applied: number[] = [];
+
+	for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+		if (existing.has(migration.version)) {
+			continue;
+		}
+
+		try {
+			await db.batch([
+				db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').bind(
+					migration.version,
+					migration.name,
+					Date.now()
+				),
+				...migration.statements.map((statement) => db.prepare(statement))
+			]);
+			applied.push(migration.version);
+		} catch (error) {
+			const raced = await db.prepare('SELECT version FROM schema_migrations WHERE version = ?')
+				.bind(migration.version)
+				.first();
+
+			if (!raced) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+			}
+		}
+	}
+
+	return { applied };
+}
+
+// Migrations run once per isolate; a failed run is retried by the next request
+let schemaReady: Promise<{ applied: number[] }> | undefined;
+
+/**
+ * Make sure the database has the current schema before using it
+ */
+export function ensureSchema(db: D1Database) {
+	if (!schemaReady) {
+		schemaReady = migrate(db).catch((error) => {
+			schemaReady = undefined;
+			throw error;
+		});
+	}
+
+	return schemaReady;
+}
@@ -0,0 +1,282 @@
+import { DurableObject } from 'cloudflare:workers';
+import { nanoid } from 'nanoid';
+import { ContainerManagerError } from './errors';
+
+/**
+ * Number of container instances in the pool; matches containers[].max_instances in wrangler.jsonc
+ */
+export const POOL_SIZE = 3;
+
+/**
+ * A lease is released automatically when it has not been renewed for this long,
+ * so a caller that died while holding one does not block its container for good
+ */
+const LEASE_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * A lease handed to a waiting caller expires this soon unless the caller claims it by renewing it,
+ * so the container goes back to the pool when the caller stopped waiting (timed out, or its request was dropped)
+ */
+const LEASE_CLAIM_MS = 30 * 1000;
+
+/**
+ * How often lease holders renew their lease while they work
+ */
+export const LEASE_RENEW_INTERVAL_MS = 60 * 1000;
+
+/**
+ * How long acquire() waits for a busy pool by default
+ */
+const DEFAULT_WAIT_MS = 2 * 60 * 1000;
+
+/**
+ * IDs of the pooled containers, used as MyContainer Durable Object names
+ */
+export const POOL_CONTAINER_IDS = Array.from({ length: POOL_SIZE }, (_, index) => `mcp-pool-${index}`);
+
+/**
+ * Exclusive use of one pooled container by one server
+ */
+export interface ContainerLease {
+	leaseId: string;
+	containerId: string;
+	serverId: string;
+	acquiredAt: number;
+	renewedAt: number;
+	expiresAt: number;
+}
+
+/**
+ * What the pool persists: where each server's workspace lives, and the leases held on containers
+ */
+interface PoolState {
+	/** serverId → containerId */
+	assignments: Record<string, string>;
+	/** containerId → lease */
+	leases: Record<string, ContainerLease>;
+}
+
+interface Waiter {
+	serverId: string;
+	enqueuedAt: number;
+	resolve: (lease: ContainerLease) => void;
+	reject: (error: Error) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Coordinates the fixed pool of MyContainer instances
+ * Each server is assigned to one container, where its workspace lives, and every lease for that
+ * server lands there. New servers go to the idle container hosting the fewest workspaces. Callers
+ * wait in FIFO order while the container they need is leased.
+ */
+export class ContainerPool extends DurableObject<Env> {
+	private state: PoolState = { assignments: {}, leases: {} };
+	// Waiting acquire() calls only live as long as their requests, so they are not persisted
+	private waiters: Waiter[] = [];
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		ctx.blockConcurrencyWhile(async () => {
+			this.state = (await ctx.storage.get<PoolState>('state')) ?? this.state;
+		});
+	}
+
+	/**
+	 * Lease the container for a server, waiting up to waitMs while it (or, for a new server, every container) is busy
+	 * A lease that had to be waited for must be renewed within LEASE_CLAIM_MS, or it is released again
+	 */
+	async acquire(serverId: string, waitMs = DEFAULT_WAIT_MS): Promise<ContainerLease> {
+		this.expireIdleLeases();
+
+		const lease = this.tryLease(serverId);
+		if (lease) {
+			await this.save();
+			return lease;
+		}
+
+		if (waitMs <= 0) {
+			throw this.busyError(serverId);
+		}
+
+		// Expiring idle leases may have handed containers to earlier waiters
+		await this.save();
+
+		return new Promise<ContainerLease>((resolve, reject) => {
+			const waiter: Waiter = {
+				serverId,
+				enqueuedAt: Date.now(),
+				resolve,
+				reject,
+				timer: setTimeout(() => {
+					this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+					reject(this.busyError(serverId, `; gave up after ${waitMs}ms`));
+				}, waitMs)
+			};
+			this.waiters.push(waiter);
+		});
+	}
+
+	/**
+	 * Extend a lease; fails if it was already released or expired
+	 */
+	async renew(leaseId: string) {
+		const lease = this.findLease(leaseId);
+		if (!lease) {
+			throw new Error(`Lease ${leaseId} is no longer held`);
+		}
+
+		lease.renewedAt = Date.now();
+		lease.expiresAt = lease.renewedAt + LEASE_IDLE_MS;
+		await this.save();
+
+		return lease;
+	}
+
+	/**
+	 * Give a container back to the pool and hand it to the next waiter that can use it
+	 */
+	async release(leaseId: string) {
+		const lease = this.findLease(leaseId);
+		if (!lease) {
+			return { released: false };
+		}
+
+		delete this.state.leases[lease.containerId];
+		this.grantWaiters();
+		await this.save();
+
+		return { released: true };
+	}
+
+	/**
+	 * Current state of every container in the pool
+	 */
+	async getOccupancy() {
+		this.expireIdleLeases();
+
+		const containers = POOL_CONTAINER_IDS.map((containerId) => {
+			const lease = this.state.leases[containerId];
+			return {
+				containerId,
+				status: lease ? ('leased' as const) : ('idle' as const),
+				lease,
+				workspaces: Object.keys(this.state.assignments)
+					.filter((serverId) => this.state.assignments[serverId] === containerId)
+					.sort()
+			};
+		});
+
+		return {
+			maxInstances: POOL_SIZE,
+			leased: containers.filter((container) => container.status === 'leased').length,
+			containers,
+			queue: this.waiters.map(({ serverId, enqueuedAt }) => ({ serverId, enqueuedAt }))
+		};
+	}
+
+	/**
+	 * Container a server's workspace is assigned to, if any
+	 */
+	async getAssignment(serverId: string) {
+		return this.state.assignments[serverId];
+	}
+
+	override async alarm() {
+		this.expireIdleLeases();
+		await this.save();
+	}
+
+	private tryLease(serverId: string, idleMs = LEASE_IDLE_MS) {
+		const assigned = this.state.assignments[serverId];
+		if (assigned) {
+			return this.state.leases[assigned] ? undefined : this.grant(assigned, serverId, idleMs);
+		}
+
+		const idle = POOL_CONTAINER_IDS.filter((containerId) => !this.state.leases[containerId]);
+		if (idle.length === 0) {
+			return undefined;
+		}
+
+		// Spread workspaces evenly across containers
+		const load = (containerId: string) =>
+			Object.values(this.state.assignments).filter((assignment) => assignment === containerId).length;
+		const [containerId] = idle.sort((a, b) => load(a) - load(b));
+
+		this.state.assignments[serverId] = containerId;
+		return this.grant(containerId, serverId, idleMs);
+	}
+
+	private grant(containerId: string, serverId: string, idleMs: number) {
+		const now = Date.now();
+		const lease: ContainerLease = {
+			leaseId: nanoid(),
+			containerId,
+			serverId,
+			acquiredAt: now,
+			renewedAt: now,
+			expiresAt: now + idleMs
+		};
+
+		this.state.leases[containerId] = lease;
+		return lease;
+	}
+
+	/**
+	 * Serve waiters in arrival order, skipping those whose container is still busy
+	 * Their leases only last until claimed, since nothing tells the pool a waiter's caller went away
+	 */
+	private grantWaiters() {
+		for (const waiter of [...this.waiters]) {
+			const lease = this.tryLease(waiter.serverId, LEASE_CLAIM_MS);
+			if (lease) {
+				clearTimeout(waiter.timer);
+				this.waiters = this.waiters.filter((candidate) => candidate !== waiter);
+				waiter.resolve(lease);
+			}
+		}
+	}
+
+	private expireIdleLeases() {
+		const now = Date.now();
+		let expired = false;
+
+		for (const lease of Object.values(this.state.leases)) {
+			if (lease.expiresAt <= now) {
+				console.warn(`Releasing idle lease ${lease.leaseId} of ${lease.containerId} (server ${lease.serverId})`);
+				delete this.state.leases[lease.containerId];
+				expired = true;
+			}
+		}
+
+		if (expired) {
+			this.grantWaiters();
+		}
+	}
+
+	private findLease(leaseId: string) {
+		return Object.values(this.state.leases).find((lease) => lease.leaseId === leaseId);
+	}
+
+	private busyError(serverId: string, suffix = '') {
+		const assigned = this.state.assignments[serverId];
+		const message = assigned
+			? `Container ${assigned}, which holds the workspace of ${serverId}, is busy`
+			: `All ${POOL_SIZE} containers are busy`;
+		return new ContainerManagerError('CONTAINER_BUSY', `${message}${suffix}`, { serverId });
+	}
+
+	/**
+	 * Persist the state and wake up when the next lease would expire
+	 */
+	private async save() {
+		await this.ctx.storage.put('state', this.state);
+
+		const expiries = Object.values(this.state.leases).map((lease) => lease.expiresAt);
+		if (expiries.length > 0) {
+			await this.ctx.storage.setAlarm(Math.min(...expiries));
+		} else {
+			await this.ctx.storage.deleteAlarm();
+		}
+	}
+}
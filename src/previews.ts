@@ -0,0 +1,336 @@
+import { ContainerManagerError } from './errors';
+import { quoteShellArg, shellCommand } from './shell';
+
+/**
+ * Lifecycle of a preview
+ * - starting: wrangler dev was launched and has not answered yet
+ * - running: it serves the workspace's worker
+ * - stopped: stopPreview ended it, or it died with its container
+ * - failed: it exited or never answered while starting
+ */
+export type PreviewStatus = 'starting' | 'running' | 'stopped' | 'failed';
+
+/**
+ * A server's preview: `wrangler dev` running its workspace inside the container
+ */
+export interface PreviewRecord {
+	serverId: string;
+	containerId: string;
+	status: PreviewStatus;
+	/** Port wrangler dev listens on inside the container */
+	port: number;
+	/** Process ID of wrangler dev, once it was launched */
+	pid?: number;
+	/** MCP session opened by the last initialize request, sent with the requests after it */
+	sessionId?: string;
+	error?: string;
+	startedAt: number;
+	stoppedAt?: number;
+}
+
+/**
+ * A row of the server_previews table
+ */
+export interface PreviewRow {
+	server_id: string;
+	container_id: string;
+	status: PreviewStatus;
+	port: number;
+	pid: number | null;
+	session_id: string | null;
+	error: string | null;
+	started_at: number;
+	stopped_at: number | null;
+}
+
+/**
+ * Map a server_previews row to a PreviewRecord
+ */
+export function previewFromRow(row: PreviewRow): PreviewRecord {
+	return {
+		serverId: row.server_id,
+		containerId: row.container_id,
+		status: row.status,
+		port: row.port,
+		pid: row.pid ?? undefined,
+		sessionId: row.session_id ?? undefined,
+		error: row.error ?? undefined,
+		startedAt: row.started_at,
+		stoppedAt: row.stopped_at ?? undefined
+	};
+}
+
+/**
+ * Statuses of previews that hold their port
+ */
+export const ACTIVE_PREVIEW_STATUSES: PreviewStatus[] = ['starting', 'running'];
+
+/**
+ * Previews listen on every other port from here (the one after is the devtools inspector's),
+ * well clear of the container agent on 8080
+ */
+const PREVIEW_BASE_PORT = 8800;
+
+/**
+ * Previews that can run side by side in one container
+ */
+export const MAX_PREVIEWS_PER_CONTAINER = 10;
+
+/**
+ * How long startPreview waits for wrangler dev to answer
+ */
+export const PREVIEW_READY_TIMEOUT_SECONDS = 90;
+
+/**
+ * How long previewRequest waits for the preview's response
+ */
+export const PREVIEW_REQUEST_TIMEOUT_SECONDS = 60;
+
+/**
+ * Largest JSON-RPC message previewRequest sends
+ */
+export const MAX_PREVIEW_MESSAGE_BYTES = 1 << 20;
+
+// Exit statuses of waitForPreviewCommand
+export const PREVIEW_EXITED = 3;
+export const PREVIEW_NOT_READY = 124;
+
+/**
+ * Directory of a server's preview in the container: its log and local state (KV, D1, Durable Objects)
+ * It is outside the workspace, so previews leave the history and snapshots alone
+ */
+export const previewDir = (serverId: string) => `/tmp/previews/${serverId}`;
+
+/**
+ * Output of wrangler dev and of the worker it runs; each start truncates it
+ */
+export const previewLogPath = (serverId: string) => `${previewDir(serverId)}/wrangler.log`;
+
+/**
+ * First port no active preview in the container uses, or undefined when all are taken
+ */
+export function freePreviewPort(taken: number[]) {
+	for (let slot = 0; slot < MAX_PREVIEWS_PER_CONTAINER; slot++) {
+		const port = PREVIEW_BASE_PORT + slot * 2;
+		if (!taken.includes(port)) {
+			return port;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Launch wrangler dev on the workspace in the background and print its process ID
+ * It runs in local mode (remote bindings off) in a session of its own, so it outlives the
+ * command that launched it and stopPreviewCommand can end it with every process it spawned
+ */
+export function startPreviewCommand(serverId: string, port: number) {
+	const dir = previewDir(serverId);
+	const dev = shellCommand([
+		'npx',
+		'wrangler',
+		'dev',
+		'--local',
+		'--ip=127.0.0.1',
+		`--port=${port}`,
+		`--inspector-port=${port + 1}`,
+		'--show-interactive-dev-session=false',
+		`--persist-to=${dir}/state`
+	]);
+	const launch = `setsid sh -c ${quoteShellArg(`exec ${dev}`)} > ${previewLogPath(serverId)} 2>&1 < /dev/null &`;
+
+	return `mkdir -p ${dir} || exit 1; ${launch} echo $!`;
+}
+
+/**
+ * Whether a process is alive; processes nobody reaped linger as zombies, which count as exited
+ */
+const aliveCheck = (pid: number) => `kill -0 ${pid} 2>/dev/null && ! grep -qs '^State:[[:space:]]*Z' /proc/${pid}/status`;
+
+/**
+ * Wait until the preview answers HTTP on its port
+ * Exits with PREVIEW_EXITED when wrangler dev exits first and PREVIEW_NOT_READY when it takes too long
+ */
+export function waitForPreviewCommand(port: number, pid: number, seconds = PREVIEW_READY_TIMEOUT_SECONDS) {
+	const probe = shellCommand(['curl', '-s', '-o', '/dev/null', '--max-time', '2', `http://127.0.0.1:${port}/`]);
+
+	return [
+		'i=0',
+		`until ${probe}; do ${aliveCheck(pid)} || exit ${PREVIEW_EXITED}`,
+		`[ $i -ge ${seconds} ] && exit ${PREVIEW_NOT_READY}`,
+		'i=$((i + 1)); sleep 1; done'
+	].join('; ');
+}
+
+/**
+ * Exit with 0 when the preview's process is alive and 1 when it is not
+ */
+export const previewAliveCommand = (pid: number) => aliveCheck(pid);
+
+/**
+ * End the preview's process group, killing it when it has not exited after 10 seconds
+ */
+export function stopPreviewCommand(pid: number) {
+	return [
+		`kill -TERM -${pid} 2>/dev/null || kill -TERM ${pid} 2>/dev/null`,
+		'i=0',
+		`while ${aliveCheck(pid)} && [ $i -lt 10 ]; do i=$((i + 1)); sleep 1; done`,
+		`kill -KILL -${pid} 2>/dev/null`,
+		'true'
+	].join('; ');
+}
+
+/**
+ * Print lines of the preview's log after the first `afterLine`, at most `limit` of them
+ */
+export const previewLogCommand = (serverId: string, afterLine: number, limit: number) =>
+	`tail -n +${afterLine + 1} ${previewLogPath(serverId)} | head -n ${limit}`;
+
+/**
+ * Print the last lines of the preview's log
+ */
+export const previewLogTailCommand = (serverId: string, lines: number) =>
+	shellCommand(['tail', '-n', String(lines), previewLogPath(serverId)]);
+
+/**
+ * POST the JSON-RPC message in a file to the preview's /mcp endpoint, printing the response with
+ * its headers, then delete the file
+ */
+export function previewRequestCommand(port: number, messagePath: string, sessionId?: string) {
+	const curl = shellCommand([
+		'curl',
+		'-sS',
+		'-i',
+		'--max-time',
+		String(PREVIEW_REQUEST_TIMEOUT_SECONDS),
+		'-X',
+		'POST',
+		'-H',
+		'Content-Type: application/json',
+		'-H',
+		'Accept: application/json, text/event-stream',
+		// Send the body right away instead of waiting for 100 Continue
+		'-H',
+		'Expect:',
+		...(sessionId ? ['-H', `Mcp-Session-Id: ${sessionId}`] : []),
+		'--data-binary',
+		'@-',
+		`http://127.0.0.1:${port}/mcp`
+	]);
+	const file = quoteShellArg(messagePath);
+
+	return `${curl} < ${file}; status=$?; rm -f ${file}; exit $status`;
+}
+
+/**
+ * A JSON-RPC message sent to or received from a preview
+ */
+export type JsonRpcMessage = { jsonrpc: '2.0'; id?: string | number | null; method?: string } & Record<string, unknown>;
+
+/**
+ * Throw unless a message is a JSON-RPC 2.0 request, notification or response, small enough to send
+ */
+export function assertValidJsonRpcMessage(message: unknown): asserts message is JsonRpcMessage {
+	const candidate = message as Record<string, unknown> | null;
+
+	if (
+		typeof candidate !== 'object' ||
+		candidate === null ||
+		Array.isArray(candidate) ||
+		candidate.jsonrpc !== '2.0' ||
+		(typeof candidate.method !== 'string' && !('result' in candidate) && !('error' in candidate))
+	) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			'Expected a JSON-RPC 2.0 message: an object with jsonrpc "2.0" and a method (or a result or error)'
+		);
+	}
+
+	const size = new TextEncoder().encode(JSON.stringify(message)).length;
+	if (size > MAX_PREVIEW_MESSAGE_BYTES) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`JSON-RPC message is ${size} bytes; previews take at most ${MAX_PREVIEW_MESSAGE_BYTES}`
+		);
+	}
+}
+
+/**
+ * What a preview answered a message with
+ */
+export interface PreviewResponse {
+	/** HTTP status, e.g. 202 for notifications and 400 for calls without a session */
+	status: number;
+	/** Session the response opened (initialize responses carry one) */
+	sessionId?: string;
+	/** JSON-RPC messages in the response, from a JSON body or the events of an SSE stream */
+	messages: JsonRpcMessage[];
+	/** Body that is not JSON-RPC, such as a 404 page */
+	body?: string;
+}
+
+/**
+ * Read the output of previewRequestCommand
+ */
+export function parsePreviewResponse(output: string): PreviewResponse {
+	const separator = output.indexOf('\r\n\r\n');
+	const head = separator === -1 ? output : output.slice(0, separator);
+	const body = separator === -1 ? '' : output.slice(separator + 4);
+	const [statusLine, ...headerLines] = head.split('\r\n');
+	const headers = new Map(
+		headerLines.map((line) => {
+			const colon = line.indexOf(':');
+			return [line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()] as const;
+		})
+	);
+
+	const eventStream = headers.get('content-type')?.startsWith('text/event-stream') ?? false;
+	const payloads = eventStream ? sseData(body) : [body];
+	const messages = payloads.flatMap((payload) => {
+		try {
+			const parsed = JSON.parse(payload) as JsonRpcMessage | JsonRpcMessage[];
+			return Array.isArray(parsed) ? parsed : [parsed];
+		} catch {
+			return [];
+		}
+	});
+
+	return {
+		status: Number(statusLine.split(' ')[1]) || 0,
+		sessionId: headers.get('mcp-session-id'),
+		messages,
+		body: messages.length === 0 && body.trim() ? body : undefined
+	};
+}
+
+/**
+ * Data of each event in a text/event-stream body
+ */
+function sseData(body: string) {
+	return body
+		.replace(/\r\n/g, '\n')
+		.split('\n\n')
+		.map((event) =>
+			event
+				.split('\n')
+				.filter((line) => line.startsWith('data:'))
+				.map((line) => line.slice(5).replace(/^ /, ''))
+				.join('\n')
+		)
+		.filter((data) => data.length > 0);
+}
+
+/**
+ * Mark the previews of a container that stopped as stopped, since wrangler dev died with it
+ * Returns how many were stopped
+ */
+export async function stopOrphanedPreviews(db: D1Database, containerId: string, reason: string) {
+	const result = await db.prepare(`
+		UPDATE server_previews
+		SET status = 'stopped', error = ?, stopped_at = ?
+		WHERE container_id = ? AND status IN ('starting', 'running')
+	`).bind(reason, Date.now(), containerId).run();
+
+	return result.meta.changes;
+}
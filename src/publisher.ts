@@ -0,0 +1,64 @@
+/**
+ * Dispatch namespace that generated servers are deployed into (see wrangler.jsonc)
+ */
+export const DISPATCH_NAMESPACE = 'meta-mcp';
+
+/**
+ * A bundled worker to upload as a user worker in the dispatch namespace
+ */
+export interface PublishRequest {
+	serverId: string;
+	namespace: string;
+	/** User worker name, unique within the namespace */
+	scriptName: string;
+	/** Bundled ES module, as produced by `wrangler deploy --dry-run` */
+	script: string;
+	/** The workspace's wrangler config (compatibility settings, bindings, migrations) */
+	config: Record<string, unknown>;
+	/** Tags attached to the user worker, e.g. `server:<id>` and `build:<id>` */
+	tags: string[];
+}
+
+export interface PublishResult {
+	/** Version ID assigned by the publisher, when it reports one */
+	versionId?: string;
+	/** URL the publisher routed the worker to, when it reports one */
+	url?: string;
+}
+
+/**
+ * Uploads workers into a dispatch namespace
+ * ContainerManagerRPC talks to the WORKER_PUBLISHER service through this, so tests can swap in a fake
+ */
+export interface WorkerPublisher {
+	publish(request: PublishRequest): Promise<PublishResult>;
+}
+
+/**
+ * RPC surface of the worker-publisher service's WorkerPublisherRPC entrypoint
+ */
+export interface WorkerPublisherService {
+	deploy(request: PublishRequest): Promise<{
+		success: boolean;
+		url?: string;
+		versionId?: string;
+		error?: string;
+	}>;
+}
+
+/**
+ * WorkerPublisher backed by the WORKER_PUBLISHER service binding
+ */
+export class ServiceWorkerPublisher implements WorkerPublisher {
+	constructor(private service: WorkerPublisherService) {}
+
+	async publish(request: PublishRequest): Promise<PublishResult> {
+		const result = await this.service.deploy(request);
+
+		if (!result.success) {
+			throw new Error(result.error || 'Worker publisher rejected the deployment');
+		}
+
+		return { versionId: result.versionId, url: result.url };
+	}
+}
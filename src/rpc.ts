@@ -1,488 +1,3755 @@
 import { WorkerEntrypoint } from 'cloudflare:workers';
 import { nanoid } from 'nanoid';
+import {
+	type Access,
+	type AuditAction,
+	type AuditQuery,
+	accessAllows,
+	assertValidAccess,
+	assertValidPrincipal,
+	type CallerProps,
+	PermissionDeniedError,
+	parsePrincipalList,
+	queryAuditLog,
+	recordAudit
+} from './access';
+import {
+	describeExit,
+	ExecutionLogWriter,
+	type ExecutionRow,
+	executionFromRow,
+	executionStats,
+	queryExecutions,
+	readExecEvents,
+	statusForExit,
+	TERMINAL_STATUSES
+} from './executions';
+import {
+	artifactKey,
+	type BuildRecord,
+	type BuildRow,
+	buildFromRow,
+	diffBuildRecords,
+	hashSourceManifest,
+	resolveDependencies,
+	SOURCE_EXCLUDES,
+	sha256,
+	sourcesKey
+} from './builds';
+import {
+	outputDiagnostic,
+	parseBiomeOutput,
+	parseEsbuildOutput,
+	parseNpmOutput,
+	parseTscOutput,
+	parseVitestReport,
+	stripAnsi
+} from './build-diagnostics';
+import {
+	addBindingToConfig,
+	assertValidBinding,
+	type BindingSpec,
+	bindingEnvType,
+	bindingsInConfig,
+	removeBindingFromConfig,
+	removeEnvMember,
+	setEnvMember,
+	WORKER_TYPES_FILE
+} from './bindings';
+import { listCapabilities } from './capabilities';
+import type { ContainerBackend } from './container-backend';
+import { containerHealth } from './container-health';
+import {
+	assertValidPackageName,
+	type DependencySpec,
+	describeInstallFailure,
+	npmCommand,
+	parseDependency,
+	readDependencies
+} from './dependencies';
+import { type DeploymentRow, deploymentFromRow, routableUrl } from './deployments';
+import { ContainerManagerError, type ErrorCode, failure, ok } from './errors';
+import {
+	type CapabilityKind,
+	ensureNamedImport,
+	insertIntoInit,
+	removeRegistration,
+	replaceRegistration
+} from './source-editor';
+import {
+	DEFAULT_TEMPLATE,
+	getTemplate,
+	getTemplateNames,
+	personalizeSource,
+	personalizeWrangler,
+	TEMPLATE_NAMES,
+	TEMPLATES,
+	TEMPLATES_ROOT
+} from './templates';
+import { ensureSchema } from './migrations';
+import { type ContainerLease, LEASE_RENEW_INTERVAL_MS } from './pool';
+import {
+	ACTIVE_PREVIEW_STATUSES,
+	assertValidJsonRpcMessage,
+	freePreviewPort,
+	type JsonRpcMessage,
+	MAX_PREVIEWS_PER_CONTAINER,
+	PREVIEW_EXITED,
+	PREVIEW_READY_TIMEOUT_SECONDS,
+	PREVIEW_REQUEST_TIMEOUT_SECONDS,
+	type PreviewRecord,
+	type PreviewRow,
+	parsePreviewResponse,
+	previewAliveCommand,
+	previewDir,
+	previewFromRow,
+	previewLogCommand,
+	previewLogTailCommand,
+	previewRequestCommand,
+	startPreviewCommand,
+	stopPreviewCommand,
+	waitForPreviewCommand
+} from './previews';
+import { DISPATCH_NAMESPACE, ServiceWorkerPublisher, type WorkerPublisher } from './publisher';
+import {
+	generateServerFiles,
+	type ServerSpec,
+	SPEC_FILE,
+	TEMPLATE_BASE_FILES,
+	type TemplateBase,
+	validateServerSpec
+} from './scaffold';
+import { shellCommand } from './shell';
+import {
+	blobKey,
+	describeSnapshot,
+	latestSnapshotKey,
+	SNAPSHOT_EXCLUDES,
+	type SnapshotFile,
+	snapshotId,
+	snapshotKey,
+	type WorkspaceSnapshot
+} from './snapshots';
+import {
+	addToolModuleToEntry,
+	assertToolNameFree,
+	findToolModules,
+	generateToolModule,
+	removeToolModuleFromEntry,
+	type ToolModule,
+	toolModulePath
+} from './tool-modules';
+import { generateToolCode, type ToolSpec } from './tool-spec';
+import type {
+	BuildDiagnostic,
+	BuildOptions,
+	BuildStage,
+	BuildStageResult,
+	ExecEvent,
+	ExecOptions,
+	ExecutionLogChunk,
+	ExecutionQuery,
+	ExecutionStatus,
+	FileEncoding,
+	ListFilesOptions
+} from './types';
+import { assertValidContainerId, assertValidServerId } from './validation';
+import { parseWranglerConfig } from './wrangler-config';
+import { base64ToBytes, getWorkspacePath, resolveWorkspacePath, toWorkspaceRelative } from './workspace';
+import {
+	assertValidRevision,
+	commitCommand,
+	HISTORY_DIR,
+	HISTORY_EXCLUDES,
+	historyCommand,
+	historyEnv,
+	initHistoryCommand,
+	isHistoryPath,
+	numstatCommand,
+	parseHistory,
+	parseNumstat,
+	patchCommand,
+	resolveRevisionCommand,
+	restoreCommand
+} from './workspace-history';
+
+// How often streamExecutionLogs polls for new output
+const EXECUTION_POLL_INTERVAL_MS = 1000;
+
+// Stop following an execution after this long, even if it never finishes
+const EXECUTION_FOLLOW_LIMIT_MS = 30 * 60 * 1000;
+
+// Where buildMCPServer has wrangler write the bundled worker
+const BUILD_OUTPUT_DIR = '/tmp/dist';
+
+// Environment of wrangler dev in previews: plain output, no usage metrics
+const PREVIEW_ENV = { NO_COLOR: '1', FORCE_COLOR: '0', WRANGLER_SEND_METRICS: 'false' };
+
+// Lines of the log a preview that failed to start reports
+const PREVIEW_FAILURE_LOG_LINES = 40;
+
+// Timeout of stopPreviewCommand, which waits up to 10 seconds for wrangler dev to exit
+const PREVIEW_STOP_TIMEOUT_MS = 30 * 1000;
+
+// Builds keep at most this many diagnostics, so a broken workspace cannot bloat the builds table
+const MAX_STORED_DIAGNOSTICS = 500;
+
+interface BuildStageOutcome {
+	result: BuildStageResult;
+	diagnostics: BuildDiagnostic[];
+}
+
+// Owner of a server and what the caller was granted on it, as read by accessStatement
+interface ServerAccess {
+	owner: string | null;
+	access: Access | null;
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Codes for the HTTP statuses the container agent's filesystem operations fail with
+const FS_ERROR_CODES: Record<number, ErrorCode> = {
+	400: 'INVALID_ARGUMENT',
+	403: 'PERMISSION_DENIED',
+	404: 'NOT_FOUND',
+	409: 'CONFLICT'
+};
+
+const fsError = (result: { status: number; error: string }, path: string) =>
+	new ContainerManagerError(FS_ERROR_CODES[result.status] ?? 'CONTAINER_ERROR', result.error, { path });
+
+// Code for a command that ran to the end without succeeding
+const commandErrorCode = (exit: { timedOut?: boolean; cancelled?: boolean }): ErrorCode =>
+	exit.timedOut ? 'TIMEOUT' : exit.cancelled ? 'CANCELLED' : 'COMMAND_FAILED';
 
 export class ContainerManagerRPC extends WorkerEntrypoint<Env> {
+	// Workspaces this request already found (or restored) in their container
+	private checkedWorkspaces = new Set<string>();
+
 	/**
 	 * Create SDK environment for building an MCP server
-	 * Copies remote-mcp-authless template and personalizes it for the new server
+	 * Copies a template (remote-mcp-authless by default) and personalizes it for the new server
+	 * The workspace goes to a container leased from the pool (see ContainerPool), waiting while all are busy
+	 * Dependencies (`name` or `name@range`) are installed on top of the template's, like addDependencies
 	 * Returns container ID that can be used for subsequent build operations
 	 */
-	async createSDKEnvironment(serverId: string, dependencies: string[] = []) {
+	async createSDKEnvironment(serverId: string, dependencies: string[] = [], template = DEFAULT_TEMPLATE) {
 		try {
-			// Generate unique container ID for this server
-			const containerId = `mcp-${serverId}-${nanoid(8)}`;
+			assertValidServerId(serverId);
+			const definition = getTemplate(template);
+			const names = getTemplateNames(definition, serverId);
+			const specs = dependencies.map(parseDependency);
 
-			// Get Durable Object instance for this container
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			await this.authorizeCreate(serverId, template, {
+				action: 'createSDKEnvironment',
+				details: { template, dependencies }
+			});
 
-			// Create workspace directory for this server
-			const workspacePath = `/workspace/${serverId}`;
-			await this.executeInContainer(containerId, `mkdir -p ${workspacePath}`, serverId);
+			// The pool decides which container hosts the workspace; later builds of the server land there too
+			return await this.withLease(serverId, async ({ containerId }) => {
+				const workspacePath = await this.copyTemplate(containerId, serverId, template);
 
-			// Copy remote-mcp-authless template to workspace
-			const copyResult = await this.executeInContainer(
-				containerId,
-				`cp -r /templates/remote-mcp-authless/* ${workspacePath}/`,
-				serverId
-			);
+				// Install the requested dependencies on top of the template's
+				const installed =
+					specs.length > 0 ? await this.installDependencies(containerId, serverId, specs, false) : undefined;
 
-			if (!copyResult.success) {
-				throw new Error('Failed to copy template: ' + copyResult.error);
-			}
+				await this.recordServer(serverId, template, containerId);
 
-			// Read template files to personalize
-			const indexData = await container.readFile(`${workspacePath}/src/index.ts`);
+				await this.checkpoint(containerId, serverId, installed ? `Add ${dependencies.join(', ')}` : undefined);
 
-			if (!indexData.success || !indexData.content) {
-				throw new Error('Failed to read template index.ts');
-			}
+				return ok({
+					containerId,
+					workspacePath,
+					ready: true,
+					template,
+					entryFile: definition.entryFile,
+					classNames: names.classes,
+					sdks: ['@modelcontextprotocol/sdk', 'agents', 'zod', 'typescript', 'wrangler'],
+					dependencies: installed?.dependencies ?? []
+				});
+			});
+		} catch (error) {
+			console.error('Failed to create SDK environment:', error);
+			return failure(error);
+		}
+	}
 
-			// Personalize the template: rename class and server name
-			const className = serverId.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('');
-			let personalizedIndex = indexData.content
-				.replace(/class MyMCP/g, `class ${className}MCP`)
-				.replace(/MyMCP\.serveSSE/g, `${className}MCP.serveSSE`)
-				.replace(/MyMCP\.serve/g, `${className}MCP.serve`)
-				.replace(/name: "Authless Calculator"/g, `name: "${serverId}"`)
-				.replace(/version: "1\.0\.0"/g, `version: "1.0.0"`)
-				// Remove example tools (add, calculate)
-				.replace(/\/\/ Simple addition tool[\s\S]*?\}\);/g, '// Add your tools here using this.server.tool()')
-				.replace(/\/\/ Calculator tool[\s\S]*?\}\,?\s*\);/g, '');
+	/**
+	 * Generate a whole MCP server from a declarative spec (see ServerSpec)
+	 * Writes src/index.ts, wrangler.jsonc, package.json, the Env types and the spec itself (mcp-server.json)
+	 * in one pass, creating the workspace from the spec's template first if the server has none
+	 * Generation is deterministic and only files whose content changed are written, so applying an
+	 * edited spec again changes just what the edit touched; generated files are overwritten, so
+	 * keep changes in the spec rather than in them
+	 * Dependencies are installed when package.json changed
+	 */
+	async scaffoldServer(spec: ServerSpec) {
+		try {
+			const normalized = validateServerSpec(spec);
+			const { name: serverId, template } = normalized;
+
+			await this.authorizeCreate(serverId, template, {
+				action: 'scaffoldServer',
+				details: {
+					template,
+					auth: normalized.auth,
+					tools: normalized.tools.map((tool) => tool.name),
+					dependencies: normalized.dependencies
+				}
+			});
+
+			return await this.withLease(serverId, async ({ containerId }) => {
+				const workspacePath = getWorkspacePath(serverId);
+				let created = false;
+
+				try {
+					await this.getWorkspaceContainer(containerId, serverId);
+				} catch (error) {
+					if (!(error instanceof ContainerManagerError && error.code === 'WORKSPACE_NOT_FOUND')) {
+						throw error;
+					}
+					await this.copyTemplate(containerId, serverId, template);
+					created = true;
+				}
 
-			// Write personalized index.ts
-			await container.writeFile(`${workspacePath}/src/index.ts`, personalizedIndex);
+				const container = this.getContainer(containerId);
+				const base = {} as TemplateBase;
+				for (const file of TEMPLATE_BASE_FILES) {
+					const data = await container.readFile(`${TEMPLATES_ROOT}/${template}/${file}`);
+					if (!data.success) {
+						throw new ContainerManagerError(
+							'TEMPLATE_COPY_FAILED',
+							`Failed to read template file ${file}: ${data.error}`,
+							{ template, file }
+						);
+					}
+					base[file] = data.content;
+				}
 
-			// Read and personalize wrangler.jsonc
-			const wranglerData = await container.readFile(`${workspacePath}/wrangler.jsonc`);
+				// Write only what changed, so that mtimes (and snapshots) of untouched files stay as they were
+				const written: string[] = [];
+				const unchanged: string[] = [];
+				for (const [file, content] of Object.entries(generateServerFiles(normalized, base))) {
+					const path = `${workspacePath}/${file}`;
+					const current = await container.readFile(path, { root: workspacePath });
+
+					if (current.success && current.content === content) {
+						unchanged.push(file);
+						continue;
+					}
+
+					const writeResult = await container.writeFile(path, content, { root: workspacePath });
+					if (!writeResult.success) {
+						throw fsError(writeResult, file);
+					}
+					written.push(file);
+				}
 
-			if (wranglerData.success && wranglerData.content) {
-				const personalizedWrangler = wranglerData.content
-					.replace(/"name": "remote-mcp-server-authless"/g, `"name": "${serverId}"`)
-					.replace(/"new_sqlite_classes": \["MyMCP"\]/g, `"new_sqlite_classes": ["${className}MCP"]`)
-					.replace(/"class_name": "MyMCP"/g, `"class_name": "${className}MCP"`);
+				// Commit the generated files before npm install records its own changes, then snapshot once
+				const change = `Scaffold ${serverId} from ${SPEC_FILE}`;
+				let install: BuildStageResult | undefined;
+				if (written.includes('package.json')) {
+					await this.commitWorkspace(containerId, serverId, change).catch((error) =>
+						console.error('Failed to commit workspace change:', error)
+					);
+					install = await this.runNpm(containerId, serverId, 'install');
+				}
+				await this.checkpoint(containerId, serverId, install ? 'Install dependencies' : change);
 
-				await container.writeFile(`${workspacePath}/wrangler.jsonc`, personalizedWrangler);
-			}
+				await this.recordServer(serverId, template, containerId);
 
-			return {
-				success: true,
-				containerId,
-				workspacePath,
-				ready: true,
-				template: 'remote-mcp-authless',
-				sdks: ['@modelcontextprotocol/sdk', 'agents', 'zod', 'typescript', 'wrangler'],
-				dependencies
-			};
+				return ok({
+					containerId,
+					workspacePath,
+					created,
+					template,
+					written,
+					unchanged,
+					installExecutionId: install?.executionId
+				});
+			});
 		} catch (error) {
-			console.error('Failed to create SDK environment:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to scaffold server:', error);
+			return failure(error);
 		}
 	}
 
+	/**
+	 * Templates that createSDKEnvironment can start a server from
+	 */
+	async listTemplates() {
+		return ok({
+			defaultTemplate: DEFAULT_TEMPLATE,
+			templates: TEMPLATE_NAMES.map((name) => ({
+				name,
+				description: TEMPLATES[name].description,
+				entryFile: TEMPLATES[name].entryFile,
+				mcpAgent: TEMPLATES[name].mcpAgent
+			}))
+		});
+	}
+
 	/**
 	 * Execute command in container
-	 * Returns execution ID and output
+	 * Returns execution ID, exit code and the separated stdout/stderr
+	 * When a serverId is given the command runs in its workspace (cwd must stay inside it), the execution is
+	 * recorded and its output is streamed into container_execution_logs while the command runs (see getExecutionLogs)
+	 * Admins only: a shell command can reach every workspace in the shared container, wherever it starts
 	 */
-	async executeInContainer(containerId: string, command: string, serverId?: string) {
+	async executeInContainer(containerId: string, command: string, serverId?: string, options: ExecOptions = {}) {
 		try {
-			const executionId = nanoid();
-
-			// Record execution start
-			if (serverId) {
-				await this.env.DB.prepare(`
-					INSERT INTO container_executions (id, server_id, container_id, command, status, started_at)
-					VALUES (?, ?, ?, ?, ?, ?)
-				`).bind(
-					executionId,
-					serverId,
-					containerId,
-					command,
-					'running',
-					Date.now()
-				).run();
+			await this.authorizeAdmin({ action: 'executeInContainer', containerId, details: { command } }, serverId);
+			const cwd = serverId === undefined ? options.cwd : resolveWorkspacePath(serverId, options.cwd ?? '.');
+
+			const { success, code, error, ...execution } =
+				serverId === undefined
+					? await this.runExecution(containerId, command, undefined, options)
+					: await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+							const result = await this.runExecution(lease.containerId, command, serverId, {
+								...options,
+								cwd
+							});
+							// Failing commands can change the workspace too
+							await this.checkpoint(lease.containerId, serverId, `Run ${command}`);
+							return result;
+						});
+
+			if (!success) {
+				return failure(new ContainerManagerError(code ?? 'INTERNAL', error ?? 'Command failed', execution));
 			}
 
-			// Get container instance
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
-
-			// Execute command via RPC helper (no HTTP port required)
-			const result = await container.execCommand(command);
+			return ok(execution);
+		} catch (error) {
+			console.error('Failed to execute in container:', error);
+			return failure(error);
+		}
+	}
 
-			// Update execution record
-			if (serverId) {
-				await this.env.DB.prepare(`
-					UPDATE container_executions
-					SET status = ?, output = ?, completed_at = ?
-					WHERE id = ?
-				`).bind(
-					result.success ? 'completed' : 'failed',
-					result.output || null,
-					Date.now(),
-					executionId
-				).run();
+	/**
+	 * Get output chunks of a recorded execution, after a sequence number
+	 * Poll with the returned nextSeq until done is true
+	 */
+	async getExecutionLogs(executionId: string, afterSeq = 0, limit = 500) {
+		try {
+			await ensureSchema(this.env.DB);
+			await this.authorizeExecution(executionId, 'read');
+			const execution = await this.env.DB.prepare(`
+				SELECT status FROM container_executions WHERE id = ?
+			`).bind(executionId).first<{ status: ExecutionStatus }>();
+
+			if (!execution) {
+				throw new ContainerManagerError('NOT_FOUND', `Execution not found: ${executionId}`, { executionId });
 			}
 
-			return {
-				success: result.success,
+			const chunks = await this.readExecutionLogs(executionId, afterSeq, limit);
+			const finished = TERMINAL_STATUSES.includes(execution.status);
+
+			return ok({
 				executionId,
-				output: result.output,
-			};
+				status: execution.status,
+				chunks,
+				nextSeq: chunks.length > 0 ? chunks[chunks.length - 1].seq : afterSeq,
+				done: finished && chunks.length < limit
+			});
 		} catch (error) {
-			console.error('Failed to execute in container:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to get execution logs:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Build MCP server in container
-	 * Reads from workspace, installs dependencies, builds with wrangler
+	 * Follow a recorded execution as a stream of NDJSON lines
+	 * Emits {"type":"output",...} per log chunk and ends with {"type":"status","status":...}
+	 * once the execution reaches a terminal status
 	 */
-	async buildMCPServer(containerId: string, serverId: string, code: { [filename: string]: string }) {
+	async streamExecutionLogs(executionId: string, afterSeq = 0) {
 		try {
-			const buildId = nanoid();
-			const workspacePath = `/workspace/${serverId}`;
+			await ensureSchema(this.env.DB);
+			await this.authorizeExecution(executionId, 'read');
+			const execution = await this.env.DB.prepare(`
+				SELECT id FROM container_executions WHERE id = ?
+			`).bind(executionId).first<{ id: string }>();
+
+			if (!execution) {
+				throw new ContainerManagerError('NOT_FOUND', `Execution not found: ${executionId}`, { executionId });
+			}
 
-			// If code is provided (legacy), write it to workspace (shouldn't happen with new flow)
-			if (code && Object.keys(code).length > 0) {
-				console.warn('buildMCPServer received code - this should not happen with new flow');
-				for (const [filename, content] of Object.entries(code)) {
-					const id = this.env.MY_CONTAINER.idFromName(containerId);
-					const container = this.env.MY_CONTAINER.get(id);
+			return ok({ executionId, stream: this.followExecutionLogs(executionId, afterSeq) });
+		} catch (error) {
+			console.error('Failed to stream execution logs:', error);
+			return failure(error);
+		}
+	}
 
-					await container.writeFile(`${workspacePath}/${filename}`, content);
-				}
+	/**
+	 * Cancel a queued or running execution, killing its process in the container
+	 */
+	async cancelExecution(executionId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			await this.authorizeExecution(executionId, 'write', { action: 'cancelExecution', details: { executionId } });
+			const execution = await this.env.DB.prepare(`
+				SELECT container_id, status FROM container_executions WHERE id = ?
+			`).bind(executionId).first<{ container_id: string; status: ExecutionStatus }>();
+
+			if (!execution) {
+				throw new ContainerManagerError('NOT_FOUND', `Execution not found: ${executionId}`, { executionId });
 			}
 
-			// Install dependencies from workspace
-			const installResult = await this.executeInContainer(
-				containerId,
-				`cd ${workspacePath} && npm install`,
-				serverId
-			);
-
-			if (!installResult.success) {
-				return {
-					success: false,
-					error: 'Failed to install dependencies: ' + installResult.error
-				};
+			if (TERMINAL_STATUSES.includes(execution.status)) {
+				throw new ContainerManagerError('CONFLICT', `Execution ${executionId} already ${execution.status}`, {
+					executionId,
+					status: execution.status
+				});
 			}
 
-			// Build with wrangler from workspace
-			const buildResult = await this.executeInContainer(
-				containerId,
-				`cd ${workspacePath} && npx wrangler deploy --dry-run --outdir=/tmp/dist`,
-				serverId
-			);
+			// The agent may not know the command yet (queued) or any more (just exited)
+			const container = this.getContainer(execution.container_id);
+			const killed = await container.cancelCommand(executionId);
 
-			if (!buildResult.success) {
-				return {
-					success: false,
-					error: 'Build failed: ' + buildResult.error
-				};
+			await this.env.DB.prepare(`
+				UPDATE container_executions
+				SET status = 'cancelled', error = 'Cancelled by request', completed_at = ?
+				WHERE id = ? AND status IN ('queued', 'running')
+			`).bind(Date.now(), executionId).run();
+
+			return ok({
+				executionId,
+				status: 'cancelled' as const,
+				processKilled: killed.success
+			});
+		} catch (error) {
+			console.error('Failed to cancel execution:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * List recorded executions, newest first, filtered by server, container, status and start time
+	 * Pass the returned nextCursor to get the next page; output is left out (see getExecution)
+	 */
+	async listExecutions(query: ExecutionQuery = {}) {
+		try {
+			await ensureSchema(this.env.DB);
+			if (query.serverId !== undefined) {
+				assertValidServerId(query.serverId);
+				await this.authorize(query.serverId, 'read');
+			} else {
+				await this.authorizeAdmin();
+			}
+			if (query.containerId !== undefined) {
+				assertValidContainerId(query.containerId);
 			}
 
-			// Read bundled script
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			const page = await queryExecutions(this.env.DB, query);
 
-			const scriptData = await container.readFile('/tmp/dist/index.js');
+			return ok({
+				...page
+			});
+		} catch (error) {
+			console.error('Failed to list executions:', error);
+			return failure(error);
+		}
+	}
 
-			if (!scriptData.success || !scriptData.content) {
-				return {
-					success: false,
-					error: 'Failed to read built script'
-				};
+	/**
+	 * Get a recorded execution with its output
+	 */
+	async getExecution(executionId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			await this.authorizeExecution(executionId, 'read');
+			const row = await this.env.DB.prepare(`
+				SELECT * FROM container_executions WHERE id = ?
+			`).bind(executionId).first<ExecutionRow>();
+
+			if (!row) {
+				throw new ContainerManagerError('NOT_FOUND', `Execution not found: ${executionId}`, { executionId });
 			}
 
-			return {
-				success: true,
-				buildId,
-				scriptContent: scriptData.content
-			};
+			return ok({
+				execution: executionFromRow(row)
+			});
 		} catch (error) {
-			console.error('Failed to build MCP server:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to get execution:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * List all active containers
+	 * Summarize a server's executions: counts by status, p50/p95 duration and its most common failing commands
 	 */
-	async listContainers() {
+	async getExecutionStats(serverId: string) {
 		try {
-			const result = await this.env.DB.prepare(`
-				SELECT DISTINCT container_id, server_id, MAX(started_at) as last_used
-				FROM container_executions
-				WHERE status IN ('running', 'completed')
-				GROUP BY container_id
-				ORDER BY last_used DESC
-				LIMIT 100
-			`).all();
+			await ensureSchema(this.env.DB);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'read');
 
-			return {
-				success: true,
-				containers: result.results || []
-			};
+			const stats = await executionStats(this.env.DB, serverId);
+
+			return ok({
+				...stats
+			});
 		} catch (error) {
-			console.error('Failed to list containers:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to get execution stats:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Add tool to MCP server in container
-	 * Modifies the src/index.ts file to include the new tool
+	 * Build MCP server in container
+	 * Reads from workspace, installs dependencies, builds with wrangler
+	 * Type checking, linting and tests run between install and bundle when requested;
+	 * their problems come back as structured diagnostics alongside a per-stage summary
+	 * Every build is recorded (see getBuild), and its bundle is stored in KV by content hash,
+	 * so rebuilding unchanged sources yields the same artifactHash
+	 * The build runs in the container that holds the server's workspace, once no other lease holds it
 	 */
-	async addToolToServer(containerId: string, serverId: string, toolName: string, toolCode: string) {
+	async buildMCPServer(
+		containerId: string,
+		serverId: string,
+		code: { [filename: string]: string } = {},
+		options: BuildOptions = {}
+	) {
 		try {
-			const workspacePath = `/workspace/${serverId}`;
+			assertValidContainerId(containerId);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'write', { action: 'buildMCPServer', containerId, details: { options } });
 
-			// Read current index.ts
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const result = await this.runBuild(lease.containerId, serverId, code, options);
 
-			const data = await container.readFile(`${workspacePath}/src/index.ts`);
-
-			if (!data.success || !data.content) {
-				throw new Error('Failed to read index.ts');
-			}
+				// The install stage can rewrite the lockfile; the other stages only write ignored output
+				await this.checkpoint(lease.containerId, serverId, 'Install dependencies for a build');
+				return result;
+			});
+		} catch (error) {
+			console.error('Failed to lease a container for build:', error);
+			return failure(error);
+		}
+	}
 
-			// Find the init() method and add tool before closing brace
-			const initRegex = /async init\(\) \{([\s\S]*?)\n\t\}/;
-			const match = data.content.match(initRegex);
+	/**
+	 * Get a recorded build
+	 * Pass includeArtifact to also get the bundled script
+	 */
+	async getBuild(buildId: string, options: { includeArtifact?: boolean } = {}) {
+		try {
+			await ensureSchema(this.env.DB);
+			const build = await this.readBuild(buildId);
 
-			if (!match) {
-				throw new Error('Could not find init() method in index.ts');
+			if (!build) {
+				throw new ContainerManagerError('NOT_FOUND', `Build ${buildId} not found`, { buildId });
 			}
 
-			const existingInitContent = match[1];
-			const updatedInitContent = `async init() {${existingInitContent}\n\n\t\t${toolCode}\n\t}`;
-			const updatedIndex = data.content.replace(initRegex, updatedInitContent);
+			await this.authorize(build.serverId, 'read');
 
-			// Write updated index.ts
-			await container.writeFile(`${workspacePath}/src/index.ts`, updatedIndex);
+			const scriptContent =
+				options.includeArtifact && build.artifactHash
+					? ((await this.env.KV.get(artifactKey(build.artifactHash))) ?? undefined)
+					: undefined;
 
-			return {
-				success: true,
-				message: `Tool '${toolName}' added to ${workspacePath}/src/index.ts`
-			};
+			return ok({
+				build,
+				scriptContent
+			});
 		} catch (error) {
-			console.error('Failed to add tool to server:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to get build:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Add resource to MCP server in container
-	 * Modifies the src/index.ts file to include the new resource
+	 * List a server's builds, newest first
+	 * Diagnostics are left out; get them from getBuild
 	 */
-	async addResourceToServer(containerId: string, serverId: string, resourceCode: string) {
+	async listBuilds(serverId: string, limit = 50) {
 		try {
-			const workspacePath = `/workspace/${serverId}`;
+			await ensureSchema(this.env.DB);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'read');
 
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			const result = await this.env.DB.prepare(`
+				SELECT * FROM builds
+				WHERE server_id = ?
+				ORDER BY created_at DESC
+				LIMIT ?
+			`).bind(serverId, Math.min(Math.max(limit, 1), 500)).all<BuildRow>();
+
+			return ok({
+				builds: result.results.map((row) => {
+					const { diagnostics, ...build } = buildFromRow(row);
+					return { ...build, diagnosticCount: diagnostics.length };
+				})
+			});
+		} catch (error) {
+			console.error('Failed to list builds:', error);
+			return failure(error);
+		}
+	}
 
-			const data = await container.readFile(`${workspacePath}/src/index.ts`);
+	/**
+	 * Compare two builds: which source files and dependencies changed,
+	 * whether the bundles are identical, and how the size moved
+	 */
+	async diffBuilds(fromBuildId: string, toBuildId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			const [from, to] = await Promise.all([this.readBuild(fromBuildId), this.readBuild(toBuildId)]);
 
-			if (!data.success || !data.content) {
-				throw new Error('Failed to read index.ts');
+			if (!from || !to) {
+				const buildId = from ? toBuildId : fromBuildId;
+				throw new ContainerManagerError('NOT_FOUND', `Build ${buildId} not found`, { buildId });
 			}
 
-			const initRegex = /async init\(\) \{([\s\S]*?)\n\t\}/;
-			const match = data.content.match(initRegex);
+			await this.authorize(from.serverId, 'read');
+			await this.authorize(to.serverId, 'read');
 
-			if (!match) {
-				throw new Error('Could not find init() method in index.ts');
-			}
+			const readSources = async (build: BuildRecord) =>
+				build.sourceHash
+					? ((await this.env.KV.get<Record<string, string>>(sourcesKey(build.sourceHash), 'json')) ?? undefined)
+					: undefined;
+			const [fromSources, toSources] = await Promise.all([readSources(from), readSources(to)]);
 
-			const existingInitContent = match[1];
-			const updatedInitContent = `async init() {${existingInitContent}\n\n\t\t${resourceCode}\n\t}`;
-			const updatedIndex = data.content.replace(initRegex, updatedInitContent);
+			return ok({
+				from: fromBuildId,
+				to: toBuildId,
+				...diffBuildRecords(from, to, fromSources, toSources)
+			});
+		} catch (error) {
+			console.error('Failed to diff builds:', error);
+			return failure(error);
+		}
+	}
 
-			await container.writeFile(`${workspacePath}/src/index.ts`, updatedIndex);
+	/**
+	 * Deploy a build as a user worker in the dispatch namespace
+	 * Records the deployment and returns the URL it is routed at
+	 * When the server's active deployment already serves the same artifact, nothing is uploaded
+	 * and that deployment is returned with skipped: true
+	 */
+	async deployMCPServer(serverId: string, buildId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'write', { action: 'deployMCPServer', details: { buildId } });
 
-			return {
-				success: true,
-				message: `Resource added to ${workspacePath}/src/index.ts`
-			};
+			return await this.deployBuild(serverId, buildId);
 		} catch (error) {
-			console.error('Failed to add resource to server:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to deploy MCP server:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Add prompt to MCP server in container
-	 * Modifies the src/index.ts file to include the new prompt
+	 * Redeploy the build of an earlier deployment
+	 * The rollback is a new deployment (with rollbackOf set), so history is never rewritten
 	 */
-	async addPromptToServer(containerId: string, serverId: string, promptCode: string) {
+	async rollback(serverId: string, deploymentId: string) {
 		try {
-			const workspacePath = `/workspace/${serverId}`;
-
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			await ensureSchema(this.env.DB);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'write', { action: 'rollback', details: { deploymentId } });
+
+			const target = await this.env.DB.prepare(`
+				SELECT * FROM deployments WHERE id = ? AND server_id = ?
+			`).bind(deploymentId, serverId).first<DeploymentRow>();
+
+			if (!target) {
+				throw new ContainerManagerError(
+					'NOT_FOUND',
+					`Deployment ${deploymentId} not found for server ${serverId}`,
+					{ deploymentId }
+				);
+			}
+			if (target.status === 'failed' || target.status === 'deploying') {
+				throw new ContainerManagerError(
+					'CONFLICT',
+					`Deployment ${deploymentId} never went live (status: ${target.status})`,
+					{ deploymentId, status: target.status }
+				);
+			}
 
-			const data = await container.readFile(`${workspacePath}/src/index.ts`);
+			return await this.deployBuild(serverId, target.build_id, deploymentId);
+		} catch (error) {
+			console.error('Failed to roll back deployment:', error);
+			return failure(error);
+		}
+	}
 
-			if (!data.success || !data.content) {
-				throw new Error('Failed to read index.ts');
-			}
+	/**
+	 * List a server's deployments, newest first
+	 */
+	async listDeployments(serverId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'read');
 
-			const initRegex = /async init\(\) \{([\s\S]*?)\n\t\}/;
-			const match = data.content.match(initRegex);
+			const result = await this.env.DB.prepare(`
+				SELECT * FROM deployments
+				WHERE server_id = ?
+				ORDER BY version DESC
+			`).bind(serverId).all<DeploymentRow>();
 
-			if (!match) {
-				throw new Error('Could not find init() method in index.ts');
-			}
+			const deployments = result.results.map(deploymentFromRow);
 
-			const existingInitContent = match[1];
-			const updatedInitContent = `async init() {${existingInitContent}\n\n\t\t${promptCode}\n\t}`;
-			const updatedIndex = data.content.replace(initRegex, updatedInitContent);
+			return ok({
+				active: deployments.find((deployment) => deployment.status === 'active'),
+				deployments
+			});
+		} catch (error) {
+			console.error('Failed to list deployments:', error);
+			return failure(error);
+		}
+	}
 
-			await container.writeFile(`${workspacePath}/src/index.ts`, updatedIndex);
+	/**
+	 * List the pooled containers with their current lease, the workspaces they host and the queue waiting for them
+	 */
+	async listContainers() {
+		try {
+			await this.authorizeAdmin();
+			const occupancy = await this.getPool().getOccupancy();
 
-			return {
-				success: true,
-				message: `Prompt added to ${workspacePath}/src/index.ts`
-			};
+			return ok({
+				...occupancy
+			});
 		} catch (error) {
-			console.error('Failed to add prompt to server:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to list containers:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Execute command in container (RPC method)
-	 * This is the public RPC method that Meta-MCP calls
+	 * Health of a container from its recorded lifecycle events: whether it is running and for how long,
+	 * how often it was restarted after crashing, its last error and its most recent events
 	 */
-	async execCommand(containerId: string, command: string, timeout?: number) {
+	async getContainerHealth(containerId: string) {
 		try {
-			// Get container instance
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			await ensureSchema(this.env.DB);
+			assertValidContainerId(containerId);
+			await this.authorizeAdmin();
+			const health = await containerHealth(this.env.DB, containerId);
+
+			return ok({
+				...health
+			});
+		} catch (error) {
+			console.error('Failed to get container health:', error);
+			return failure(error);
+		}
+	}
 
-			// Execute command via container DO
-			const result = await container.execCommand(command);
+	/**
+	 * Add tool to MCP server in container
+	 * Inserts the tool registration at the end of init() in src/index.ts, or with module: true
+	 * writes it to its own module, src/tools/<toolName>.ts, which src/index.ts imports and registers
+	 * Fails if the code does not parse or a tool with the same name already exists
+	 */
+	async addToolToServer(
+		containerId: string,
+		serverId: string,
+		toolName: string,
+		toolCode: string,
+		options: { module?: boolean } = {}
+	) {
+		try {
+			await this.authorize(serverId, 'write', {
+				action: 'addToolToServer',
+				containerId,
+				details: { toolName, module: options.module ?? false }
+			});
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const filePath = options.module
+					? await this.addToolModule(lease.containerId, serverId, toolName, toolCode)
+					: await this.editServerSource(lease.containerId, serverId, `Add tool '${toolName}'`, (source) =>
+							insertIntoInit(assertToolNameFree(source, toolName), 'tool', toolCode, toolName)
+						);
+
+				return ok({
+					message: `Tool '${toolName}' added to ${filePath}`
+				});
+			});
+		} catch (error) {
+			console.error('Failed to add tool to server:', error);
+			return failure(error);
+		}
+	}
 
-			return {
-				success: result.success,
-				output: result.output || '',
-				exitCode: result.success ? 0 : 1,
-				error: result.success ? undefined : result.output
-			};
+	/**
+	 * Add tool to MCP server from a declarative spec
+	 * Generates the this.server.tool(...) registration (zod schema, annotations and
+	 * destructured arguments), imports zod if needed and adds it like addToolToServer
+	 */
+	async addToolFromSpec(containerId: string, serverId: string, spec: ToolSpec, options: { module?: boolean } = {}) {
+		try {
+			await this.authorize(serverId, 'write', {
+				action: 'addToolFromSpec',
+				containerId,
+				details: { toolName: spec.name, module: options.module ?? false }
+			});
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const code = generateToolCode(spec);
+				const filePath = options.module
+					? await this.addToolModule(lease.containerId, serverId, spec.name, code)
+					: await this.editServerSource(lease.containerId, serverId, `Add tool '${spec.name}'`, (source) => {
+							const withZod = ensureNamedImport(source, 'zod', 'z');
+							return insertIntoInit(assertToolNameFree(withZod, spec.name), 'tool', code, spec.name);
+						});
+
+				return ok({
+					message: `Tool '${spec.name}' added to ${filePath}`,
+					code
+				});
+			});
 		} catch (error) {
-			console.error('Failed to execute command:', error);
-			return {
-				success: false,
-				output: '',
-				exitCode: 1,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to add tool from spec:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Write file to container (RPC method)
-	 * This is the public RPC method that Meta-MCP calls
+	 * Add resource to MCP server in container
+	 * Inserts the resource registration at the end of init() in src/index.ts
 	 */
-	async writeFile(containerId: string, path: string, content: string) {
+	async addResourceToServer(containerId: string, serverId: string, resourceCode: string) {
 		try {
-			// Get container instance
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			await this.authorize(serverId, 'write', { action: 'addResourceToServer', containerId });
 
-			// Write file via container DO
-			const result = await container.writeFile(path, content);
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const filePath = await this.editServerSource(lease.containerId, serverId, 'Add a resource', (source) =>
+					insertIntoInit(source, 'resource', resourceCode)
+				);
 
-			return {
-				success: result.success,
-				bytesWritten: result.success ? content.length : undefined,
-				error: result.success ? undefined : 'Failed to write file'
-			};
+				return ok({
+					message: `Resource added to ${filePath}`
+				});
+			});
 		} catch (error) {
-			console.error('Failed to write file:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to add resource to server:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Read file from container (RPC method)
-	 * This is the public RPC method that Meta-MCP calls
+	 * Add prompt to MCP server in container
+	 * Inserts the prompt registration at the end of init() in src/index.ts
 	 */
-	async readFile(containerId: string, path: string) {
+	async addPromptToServer(containerId: string, serverId: string, promptCode: string) {
 		try {
-			// Get container instance
-			const id = this.env.MY_CONTAINER.idFromName(containerId);
-			const container = this.env.MY_CONTAINER.get(id);
+			await this.authorize(serverId, 'write', { action: 'addPromptToServer', containerId });
 
-			// Read file via container DO
-			const result = await container.readFile(path);
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const filePath = await this.editServerSource(lease.containerId, serverId, 'Add a prompt', (source) =>
+					insertIntoInit(source, 'prompt', promptCode)
+				);
 
-			return {
-				success: result.success,
-				content: result.content || undefined,
-				size: result.content ? result.content.length : undefined,
-				error: result.success ? undefined : 'Failed to read file'
-			};
+				return ok({
+					message: `Prompt added to ${filePath}`
+				});
+			});
 		} catch (error) {
-			console.error('Failed to read file:', error);
-			return {
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			};
+			console.error('Failed to add prompt to server:', error);
+			return failure(error);
 		}
 	}
 
 	/**
-	 * Stop container and clean up resources
+	 * List every tool, resource and prompt registered in a server's src/index.ts and its tool modules
+	 * Includes names, descriptions and parameter schemas read from the source; capabilities
+	 * of a tool module carry its path as file
 	 */
-	async stopContainer(containerId: string) {
+	async listServerCapabilities(containerId: string, serverId: string) {
 		try {
-			// Container will automatically sleep after inactivity
-			// Just mark executions as stopped
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const { content } = await this.readServerSource(assignedId, serverId);
+			const { tools, resources, prompts } = listCapabilities(content);
+
+			for (const module of findToolModules(content)) {
+				const listed = listCapabilities(await this.readToolModule(assignedId, serverId, module), module.path);
+				tools.push(...listed.tools.map((tool) => ({ ...tool, file: module.path })));
+				resources.push(...listed.resources.map((resource) => ({ ...resource, file: module.path })));
+				prompts.push(...listed.prompts.map((prompt) => ({ ...prompt, file: module.path })));
+			}
+
+			return ok({
+				tools,
+				resources,
+				prompts
+			});
+		} catch (error) {
+			console.error('Failed to list server capabilities:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Replace a tool registration in init(), or the tool's module, with new code
+	 * The code must register exactly one tool; it may rename it if the new name is free
+	 * (a module is then moved to the new name)
+	 */
+	async updateTool(containerId: string, serverId: string, toolName: string, toolCode: string) {
+		return this.updateCapability(containerId, serverId, 'tool', toolName, toolCode);
+	}
+
+	/**
+	 * Remove a tool registration from init(), or delete the tool's module and its registration
+	 */
+	async removeTool(containerId: string, serverId: string, toolName: string) {
+		return this.removeCapability(containerId, serverId, 'tool', toolName);
+	}
+
+	/**
+	 * Replace a resource registration in init() with new code
+	 */
+	async updateResource(containerId: string, serverId: string, resourceName: string, resourceCode: string) {
+		return this.updateCapability(containerId, serverId, 'resource', resourceName, resourceCode);
+	}
+
+	/**
+	 * Remove a resource registration from init()
+	 */
+	async removeResource(containerId: string, serverId: string, resourceName: string) {
+		return this.removeCapability(containerId, serverId, 'resource', resourceName);
+	}
+
+	/**
+	 * Replace a prompt registration in init() with new code
+	 */
+	async updatePrompt(containerId: string, serverId: string, promptName: string, promptCode: string) {
+		return this.updateCapability(containerId, serverId, 'prompt', promptName, promptCode);
+	}
+
+	/**
+	 * Remove a prompt registration from init()
+	 */
+	async removePrompt(containerId: string, serverId: string, promptName: string) {
+		return this.removeCapability(containerId, serverId, 'prompt', promptName);
+	}
+
+	/**
+	 * Add dependencies to a server's package.json and install them
+	 * Each entry is `name` or `name@range` (a semver range or dist-tag); pass dev to save them as devDependencies
+	 * Installs go through NPM_REGISTRY_URL when configured, otherwise offline from the packages in the container image
+	 */
+	async addDependencies(containerId: string, serverId: string, dependencies: string[], options: { dev?: boolean } = {}) {
+		try {
+			assertValidContainerId(containerId);
+			assertValidServerId(serverId);
+			const specs = dependencies.map(parseDependency);
+			await this.authorize(serverId, 'write', {
+				action: 'addDependencies',
+				containerId,
+				details: { dependencies, dev: options.dev ?? false }
+			});
+
+			if (specs.length === 0) {
+				throw new ContainerManagerError('INVALID_ARGUMENT', 'No dependencies given');
+			}
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const result = await this.installDependencies(lease.containerId, serverId, specs, options.dev ?? false);
+				await this.checkpoint(lease.containerId, serverId, `Add ${dependencies.join(', ')}`);
+				return result;
+			});
+		} catch (error) {
+			console.error('Failed to add dependencies:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Remove dependencies from a server's package.json and node_modules
+	 * Names that are not declared are reported rather than treated as an error
+	 */
+	async removeDependencies(containerId: string, serverId: string, names: string[]) {
+		try {
+			assertValidContainerId(containerId);
+			assertValidServerId(serverId);
+			for (const name of names) {
+				assertValidPackageName(name);
+			}
+			await this.authorize(serverId, 'write', { action: 'removeDependencies', containerId, details: { names } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const before = await this.readPackageFiles(lease.containerId, serverId);
+				const declared = new Set(readDependencies(before.packageJson).map((dependency) => dependency.name));
+				const removed = names.filter((name) => declared.has(name));
+				const notDeclared = names.filter((name) => !declared.has(name));
+
+				if (removed.length === 0) {
+					return ok({
+						removed,
+						notDeclared,
+						dependencies: readDependencies(before.packageJson, before.packageLock)
+					});
+				}
+
+				const result = await this.runNpm(lease.containerId, serverId, 'uninstall', removed);
+				await this.checkpoint(lease.containerId, serverId, `Remove ${removed.join(', ')}`);
+				const after = await this.readPackageFiles(lease.containerId, serverId);
+
+				return ok({
+					executionId: result.executionId,
+					removed,
+					notDeclared,
+					dependencies: readDependencies(after.packageJson, after.packageLock)
+				});
+			});
+		} catch (error) {
+			console.error('Failed to remove dependencies:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Bindings declared in a server's wrangler.jsonc
+	 */
+	async listBindings(containerId: string, serverId: string) {
+		try {
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const { config } = await this.readWorkerConfig(assignedId, serverId);
+
+			return ok({
+				bindings: bindingsInConfig(parseWranglerConfig(config))
+			});
+		} catch (error) {
+			console.error('Failed to list bindings:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Declare a KV, D1, R2, Durable Object, AI, service or variable binding in a server's wrangler.jsonc
+	 * and add it to the Env type in worker-configuration.d.ts, so code using it type checks
+	 * Both files keep their comments and formatting. A Durable Object class of the server itself
+	 * (no scriptName) must be exported from src/index.ts; it gets a migration creating it
+	 */
+	async addBinding(containerId: string, serverId: string, binding: BindingSpec) {
+		try {
+			assertValidBinding(binding);
+			await this.authorize(serverId, 'write', {
+				action: 'addBinding',
+				containerId,
+				details: { type: binding.type, name: binding.name }
+			});
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const change = `Add ${binding.type} binding ${binding.name}`;
+				const files = await this.editWorkerConfig(lease.containerId, serverId, change, ({ config, types }) => {
+					const existing = bindingsInConfig(parseWranglerConfig(config)).find(
+						(declared) => declared.name === binding.name || (binding.type === 'ai' && declared.type === 'ai')
+					);
+					if (existing) {
+						throw new ContainerManagerError(
+							'CONFLICT',
+							`wrangler.jsonc already declares ${existing.type} binding '${existing.name}'`,
+							{ binding: existing }
+						);
+					}
+
+					return {
+						config: addBindingToConfig(config, binding),
+						types: types && setEnvMember(types, { name: binding.name, type: bindingEnvType(binding) })
+					};
+				});
+
+				return ok({
+					message: `Binding '${binding.name}' added`,
+					binding,
+					files
+				});
+			});
+		} catch (error) {
+			console.error('Failed to add binding:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Remove a binding from a server's wrangler.jsonc and its Env type
+	 * Durable Object migrations are kept, since the class (and its data) outlives the binding
+	 */
+	async removeBinding(containerId: string, serverId: string, name: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'removeBinding', containerId, details: { name } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				let removed: BindingSpec | undefined;
+				const change = `Remove binding ${name}`;
+				const files = await this.editWorkerConfig(lease.containerId, serverId, change, ({ config, types }) => {
+					removed = bindingsInConfig(parseWranglerConfig(config)).find((declared) => declared.name === name);
+					if (!removed) {
+						throw new ContainerManagerError('NOT_FOUND', `wrangler.jsonc declares no binding '${name}'`);
+					}
+
+					return {
+						config: removeBindingFromConfig(config, removed),
+						types: types && removeEnvMember(types, name)
+					};
+				});
+
+				return ok({
+					message: `Binding '${name}' removed`,
+					binding: removed,
+					files
+				});
+			});
+		} catch (error) {
+			console.error('Failed to remove binding:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Execute command in container (RPC method)
+	 * This is the public RPC method that Meta-MCP calls
+	 * The timeout (ms) is enforced by the container agent, which kills the whole process group
+	 */
+	async execCommand(
+		containerId: string,
+		command: string,
+		timeout?: number,
+		options: Omit<ExecOptions, 'timeout'> = {}
+	) {
+		try {
+			await this.authorizeAdmin({ action: 'execCommand', containerId, details: { command } });
+			const container = this.getContainer(containerId);
+
+			// Execute command via container DO
+			const { success, error, ...result } = await container.execCommand(command, { ...options, timeout });
+
+			if (!success) {
+				throw new ContainerManagerError(
+					commandErrorCode(result),
+					error ?? `Command exited with code ${result.exitCode}`,
+					result
+				);
+			}
+
+			return ok(result);
+		} catch (error) {
+			console.error('Failed to execute command:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Write file to a server workspace (RPC method)
+	 * This is the public RPC method that Meta-MCP calls
+	 * Content may be a string (utf8, or base64 with encoding: 'base64') or raw bytes
+	 */
+	async writeFile(
+		containerId: string,
+		serverId: string,
+		path: string,
+		content: string | Uint8Array,
+		options: { encoding?: FileEncoding } = {}
+	) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'writeFile', containerId, details: { path } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const filePath = resolveWorkspacePath(serverId, path);
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+
+				// Write file via container DO
+				const result = await container.writeFile(filePath, content, {
+					...options,
+					root: getWorkspacePath(serverId)
+				});
+
+				if (!result.success) {
+					throw fsError(result, path);
+				}
+
+				await this.checkpoint(lease.containerId, serverId, `Write ${toWorkspaceRelative(serverId, filePath)}`);
+
+				return ok({
+					path: toWorkspaceRelative(serverId, filePath),
+					bytesWritten: result.bytesWritten
+				});
+			});
+		} catch (error) {
+			console.error('Failed to write file:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Read file from a server workspace (RPC method)
+	 * This is the public RPC method that Meta-MCP calls
+	 * Use encoding: 'base64' for binary files
+	 */
+	async readFile(containerId: string, serverId: string, path: string, options: { encoding?: FileEncoding } = {}) {
+		try {
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const filePath = resolveWorkspacePath(serverId, path);
+			const container = await this.getWorkspaceContainer(assignedId, serverId);
+
+			// Read file via container DO
+			const result = await container.readFile(filePath, {
+				...options,
+				root: getWorkspacePath(serverId)
+			});
+
+			if (!result.success) {
+				throw fsError(result, path);
+			}
+
+			return ok({
+				path: toWorkspaceRelative(serverId, filePath),
+				content: result.content,
+				encoding: options.encoding ?? 'utf8',
+				size: result.size
+			});
+		} catch (error) {
+			console.error('Failed to read file:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * List a directory in a server workspace (RPC method)
+	 * Entry paths are relative to the workspace root
+	 */
+	async listFiles(containerId: string, serverId: string, path = '.', options: ListFilesOptions = {}) {
+		try {
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const dirPath = resolveWorkspacePath(serverId, path);
+			const container = await this.getWorkspaceContainer(assignedId, serverId);
+
+			const result = await container.listFiles(dirPath, {
+				...options,
+				root: getWorkspacePath(serverId)
+			});
+
+			if (!result.success) {
+				throw fsError(result, path);
+			}
+
+			const prefix = toWorkspaceRelative(serverId, dirPath);
+
+			return ok({
+				path: prefix,
+				entries: result.entries.map((entry) => ({
+					...entry,
+					path: prefix === '.' ? entry.path : `${prefix}/${entry.path}`
+				}))
+			});
+		} catch (error) {
+			console.error('Failed to list files:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Get size, modification time and type of a path in a server workspace (RPC method)
+	 */
+	async statFile(containerId: string, serverId: string, path: string) {
+		try {
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const filePath = resolveWorkspacePath(serverId, path);
+			const container = await this.getWorkspaceContainer(assignedId, serverId);
+
+			const result = await container.statFile(filePath, { root: getWorkspacePath(serverId) });
+
+			if (!result.success) {
+				throw fsError(result, path);
+			}
+
+			return ok({
+				path: toWorkspaceRelative(serverId, filePath),
+				stat: {
+					name: result.name,
+					type: result.type,
+					size: result.size,
+					mtime: result.mtime
+				}
+			});
+		} catch (error) {
+			console.error('Failed to stat file:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Delete a file or directory in a server workspace (RPC method)
+	 * Non-empty directories require recursive: true
+	 */
+	async deleteFile(containerId: string, serverId: string, path: string, options: { recursive?: boolean } = {}) {
+		try {
+			await this.authorize(serverId, 'write', {
+				action: 'deleteFile',
+				containerId,
+				details: { path, recursive: options.recursive ?? false }
+			});
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const filePath = resolveWorkspacePath(serverId, path);
+
+				if (filePath === getWorkspacePath(serverId)) {
+					throw new ContainerManagerError('INVALID_ARGUMENT', 'Refusing to delete the workspace root');
+				}
+
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+				const result = await container.deleteFile(filePath, {
+					...options,
+					root: getWorkspacePath(serverId)
+				});
+
+				if (!result.success) {
+					throw fsError(result, path);
+				}
+
+				await this.checkpoint(lease.containerId, serverId, `Delete ${toWorkspaceRelative(serverId, filePath)}`);
+
+				return ok({
+					path: toWorkspaceRelative(serverId, filePath)
+				});
+			});
+		} catch (error) {
+			console.error('Failed to delete file:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Rename or move a file or directory within a server workspace (RPC method)
+	 * Fails if the destination already exists
+	 */
+	async moveFile(containerId: string, serverId: string, from: string, to: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'moveFile', containerId, details: { from, to } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const fromPath = resolveWorkspacePath(serverId, from);
+				const toPath = resolveWorkspacePath(serverId, to);
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+
+				const result = await container.moveFile(fromPath, toPath, { root: getWorkspacePath(serverId) });
+
+				if (!result.success) {
+					throw fsError(result, from);
+				}
+
+				await this.checkpoint(
+					lease.containerId,
+					serverId,
+					`Move ${toWorkspaceRelative(serverId, fromPath)} to ${toWorkspaceRelative(serverId, toPath)}`
+				);
+
+				return ok({
+					from: toWorkspaceRelative(serverId, fromPath),
+					to: toWorkspaceRelative(serverId, toPath)
+				});
+			});
+		} catch (error) {
+			console.error('Failed to move file:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Create a directory (and any missing parents) in a server workspace (RPC method)
+	 */
+	async createDirectory(containerId: string, serverId: string, path: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'createDirectory', containerId, details: { path } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const dirPath = resolveWorkspacePath(serverId, path);
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+
+				const result = await container.makeDirectory(dirPath, { root: getWorkspacePath(serverId) });
+
+				if (!result.success) {
+					throw fsError(result, path);
+				}
+
+				// Nothing to commit, git does not track empty directories; the snapshot keeps them
+				await this.checkpoint(lease.containerId, serverId);
+
+				return ok({
+					path: toWorkspaceRelative(serverId, dirPath)
+				});
+			});
+		} catch (error) {
+			console.error('Failed to create directory:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Snapshot a server workspace into KV as an explicit checkpoint (RPC method)
+	 * Workspaces are also snapshotted after every change made through this API; the latest
+	 * snapshot is what a cold-started container restores
+	 */
+	async snapshotWorkspace(containerId: string, serverId: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'snapshotWorkspace', containerId });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const snapshot = await this.saveSnapshot(lease.containerId, serverId);
+
+				return ok(describeSnapshot(snapshot));
+			});
+		} catch (error) {
+			console.error('Failed to snapshot workspace:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Restore a server workspace from a snapshot, the latest one by default (RPC method)
+	 * Files the snapshot does not have are deleted; node_modules and build output are left alone
+	 * The workspace keeps its git history, where the restore is committed like any other change
+	 */
+	async restoreWorkspace(containerId: string, serverId: string, snapshotId?: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: 'restoreWorkspace', containerId, details: { snapshotId } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const key = snapshotId ? snapshotKey(serverId, snapshotId) : latestSnapshotKey(serverId);
+				const snapshot = await this.env.KV.get<WorkspaceSnapshot>(key, 'json');
+
+				if (!snapshot) {
+					throw new ContainerManagerError(
+						'NOT_FOUND',
+						snapshotId
+							? `Snapshot ${snapshotId} of ${serverId} not found`
+							: `No snapshot of ${serverId} to restore`,
+						{ snapshotId }
+					);
+				}
+
+				await this.applySnapshot(lease.containerId, snapshot, { keepHistory: true });
+				await this.commitWorkspace(lease.containerId, serverId, `Restore snapshot ${snapshot.id}`);
+				// The restored state becomes the latest, so a cold start does not undo the restore
+				await this.saveSnapshot(lease.containerId, serverId);
+
+				return ok(describeSnapshot(snapshot));
+			});
+		} catch (error) {
+			console.error('Failed to restore workspace:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * List the commits of a server workspace, newest first (RPC method)
+	 * Every change made through this API is committed with a description of it and the caller
+	 * as author; pass a path to list only the commits that touched it
+	 */
+	async getWorkspaceHistory(containerId: string, serverId: string, options: { limit?: number; path?: string } = {}) {
+		try {
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const path = options.path === undefined ? undefined : resolveWorkspacePath(serverId, options.path);
+			const container = await this.getWorkspaceContainer(assignedId, serverId);
+			const workspacePath = getWorkspacePath(serverId);
+
+			// Workspaces created before they had a history get one with their next change
+			const history = await container.statFile(`${workspacePath}/${HISTORY_DIR}`, { root: workspacePath });
+			if (!history.success) {
+				return ok({ commits: [] });
+			}
+
+			const limit = Math.min(Math.max(options.limit ?? 50, 1), 500);
+			const relativePath = path === undefined ? undefined : toWorkspaceRelative(serverId, path);
+			const { stdout } = await this.runGit(container, serverId, historyCommand(limit, relativePath));
+
+			return ok({
+				commits: parseHistory(stdout)
+			});
+		} catch (error) {
+			console.error('Failed to get workspace history:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Compare two commits of a server workspace (RPC method)
+	 * Returns the changed files with their added and deleted line counts, and the unified diff
+	 */
+	async diffWorkspace(containerId: string, serverId: string, from: string, to = 'HEAD') {
+		try {
+			assertValidRevision(from);
+			assertValidRevision(to);
+			await this.authorize(serverId, 'read');
+			const assignedId = await this.assignedContainerId(containerId, serverId);
+			const container = await this.getWorkspaceContainer(assignedId, serverId);
+
+			const fromCommit = await this.resolveRevision(container, serverId, from);
+			const toCommit = await this.resolveRevision(container, serverId, to);
+			const numstat = await this.runGit(container, serverId, numstatCommand(fromCommit, toCommit));
+			const patch = await this.runGit(container, serverId, patchCommand(fromCommit, toCommit));
+
+			return ok({
+				from: fromCommit,
+				to: toCommit,
+				files: parseNumstat(numstat.stdout),
+				patch: patch.stdout,
+				truncated: patch.truncated
+			});
+		} catch (error) {
+			console.error('Failed to diff workspace:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Bring a server workspace back to how it was at a commit, such as the last one that built (RPC method)
+	 * The revert is a new commit on top, so later commits stay in the history and can be returned to
+	 * Dependencies are reinstalled when package.json or the lockfile change
+	 */
+	async revertWorkspace(containerId: string, serverId: string, commit: string) {
+		try {
+			assertValidContainerId(containerId);
+			assertValidServerId(serverId);
+			assertValidRevision(commit);
+			await this.authorize(serverId, 'write', { action: 'revertWorkspace', containerId, details: { commit } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+				const target = await this.resolveRevision(container, serverId, commit);
+				const changed = await this.runGit(container, serverId, numstatCommand('HEAD', target));
+				const files = parseNumstat(changed.stdout);
+
+				if (files.length === 0) {
+					return ok({
+						message: `Workspace already matches ${target.slice(0, 7)}`,
+						commit: target,
+						revertedTo: target,
+						files
+					});
+				}
+
+				await this.runGit(container, serverId, restoreCommand(target));
+				const head = await this.commitWorkspace(lease.containerId, serverId, `Revert to ${target.slice(0, 7)}`);
+
+				const install = files.some((file) => file.path === 'package.json' || file.path === 'package-lock.json')
+					? await this.runNpm(lease.containerId, serverId, 'install')
+					: undefined;
+
+				await this.checkpoint(lease.containerId, serverId, 'Install dependencies');
+
+				return ok({
+					message: `Workspace reverted to ${target.slice(0, 7)}`,
+					commit: head,
+					revertedTo: target,
+					files,
+					installExecutionId: install?.executionId
+				});
+			});
+		} catch (error) {
+			console.error('Failed to revert workspace:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Run a server in its container with `wrangler dev` in local mode, to try it before publishing (RPC method)
+	 * Dependencies are installed first when the workspace has none, and the preview reloads as the
+	 * workspace changes. Talk to it with previewRequest and read its output with getPreviewLogs
+	 * until stopPreview ends it; previews also end when their container stops
+	 */
+	async startPreview(containerId: string, serverId: string) {
+		try {
+			assertValidContainerId(containerId);
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'write', { action: 'startPreview', containerId });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const workspacePath = getWorkspacePath(serverId);
+				const container = await this.getWorkspaceContainer(lease.containerId, serverId);
+				const existing = await this.readPreview(serverId);
+
+				if (existing && ACTIVE_PREVIEW_STATUSES.includes(existing.status)) {
+					const alive =
+						existing.pid !== undefined &&
+						(await this.getContainer(existing.containerId).execCommand(previewAliveCommand(existing.pid))).success;
+
+					if (alive) {
+						throw new ContainerManagerError(
+							'CONFLICT',
+							`A preview of ${serverId} is already ${existing.status} on port ${existing.port}`,
+							{ port: existing.port }
+						);
+					}
+				}
+
+				const modules = await container.statFile(`${workspacePath}/node_modules`, { root: workspacePath });
+				if (!modules.success) {
+					await this.runNpm(lease.containerId, serverId, 'install');
+					await this.checkpoint(lease.containerId, serverId, 'Install dependencies');
+				}
+
+				const { results } = await this.env.DB.prepare(`
+					SELECT port FROM server_previews
+					WHERE container_id = ? AND server_id != ? AND status IN ('starting', 'running')
+				`).bind(lease.containerId, serverId).all<{ port: number }>();
+				const port = freePreviewPort(results.map((row) => row.port));
+
+				if (port === undefined) {
+					throw new ContainerManagerError(
+						'CONTAINER_BUSY',
+						`${lease.containerId} already runs ${MAX_PREVIEWS_PER_CONTAINER} previews; stop one first`
+					);
+				}
+
+				const startedAt = Date.now();
+				await this.env.DB.prepare(`
+					INSERT OR REPLACE INTO server_previews (server_id, container_id, status, port, started_at)
+					VALUES (?, ?, 'starting', ?, ?)
+				`).bind(serverId, lease.containerId, port, startedAt).run();
+
+				const launched = await container.execCommand(startPreviewCommand(serverId, port), {
+					cwd: workspacePath,
+					env: PREVIEW_ENV
+				});
+				const pid = Number.parseInt(launched.stdout.trim(), 10);
+
+				if (!launched.success || Number.isNaN(pid)) {
+					const error = launched.stderr.trim() || launched.error || 'Could not launch wrangler dev';
+					await this.finishPreview(serverId, 'failed', error);
+					throw new ContainerManagerError('PREVIEW_FAILED', error, { port });
+				}
+
+				await this.env.DB.prepare(`
+					UPDATE server_previews SET pid = ? WHERE server_id = ?
+				`).bind(pid, serverId).run();
+
+				const ready = await container.execCommand(waitForPreviewCommand(port, pid), {
+					timeout: (PREVIEW_READY_TIMEOUT_SECONDS + 30) * 1000
+				});
+
+				if (!ready.success) {
+					const log = await container.execCommand(previewLogTailCommand(serverId, PREVIEW_FAILURE_LOG_LINES));
+					const error =
+						ready.exitCode === PREVIEW_EXITED
+							? 'wrangler dev exited before serving the worker'
+							: `wrangler dev did not answer within ${PREVIEW_READY_TIMEOUT_SECONDS} seconds`;
+
+					await container.execCommand(stopPreviewCommand(pid), { timeout: PREVIEW_STOP_TIMEOUT_MS });
+					await this.finishPreview(serverId, 'failed', error);
+					throw new ContainerManagerError('PREVIEW_FAILED', error, {
+						port,
+						log: stripAnsi(log.stdout).split('\n').filter((line) => line.trim())
+					});
+				}
+
+				await this.env.DB.prepare(`
+					UPDATE server_previews SET status = 'running' WHERE server_id = ?
+				`).bind(serverId).run();
+
+				const preview: PreviewRecord = {
+					serverId,
+					containerId: lease.containerId,
+					status: 'running',
+					port,
+					pid,
+					startedAt
+				};
+
+				return ok({
+					message: `Preview of ${serverId} running on port ${port} of ${lease.containerId}`,
+					preview
+				});
+			});
+		} catch (error) {
+			console.error('Failed to start preview:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Stop a server's preview (RPC method)
+	 * Its log stays readable with getPreviewLogs until the next start
+	 */
+	async stopPreview(serverId: string) {
+		try {
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'write', { action: 'stopPreview' });
+			const preview = await this.readPreview(serverId);
+
+			if (!preview) {
+				throw new ContainerManagerError('NOT_FOUND', `No preview of ${serverId}; start one with startPreview`);
+			}
+			if (!ACTIVE_PREVIEW_STATUSES.includes(preview.status)) {
+				throw new ContainerManagerError('CONFLICT', `Preview of ${serverId} already ${preview.status}`, {
+					status: preview.status
+				});
+			}
+
+			if (preview.pid !== undefined) {
+				const stopped = await this.getContainer(preview.containerId).execCommand(stopPreviewCommand(preview.pid), {
+					timeout: PREVIEW_STOP_TIMEOUT_MS
+				});
+				if (!stopped.success) {
+					throw new ContainerManagerError(
+						'CONTAINER_ERROR',
+						stopped.error ?? `Could not stop the preview of ${serverId}`,
+						{ pid: preview.pid }
+					);
+				}
+			}
+
+			const stoppedAt = await this.finishPreview(serverId, 'stopped');
+
+			return ok({
+				message: `Preview of ${serverId} stopped`,
+				preview: { ...preview, status: 'stopped' as const, stoppedAt }
+			});
+		} catch (error) {
+			console.error('Failed to stop preview:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Send an MCP JSON-RPC message to a server's running preview and return what it answered (RPC method)
+	 * Start with `initialize`: the session it opens is sent along with the messages after it.
+	 * response is the answer to a request (notifications get none); messages has everything the
+	 * preview sent back, such as progress notifications before the response
+	 */
+	async previewRequest(serverId: string, jsonRpcMessage: JsonRpcMessage) {
+		try {
+			assertValidServerId(serverId);
+			assertValidJsonRpcMessage(jsonRpcMessage);
+			await this.authorize(serverId, 'write', {
+				action: 'previewRequest',
+				details: { method: jsonRpcMessage.method }
+			});
+			const preview = await this.readPreview(serverId);
+
+			if (!preview) {
+				throw new ContainerManagerError('NOT_FOUND', `No preview of ${serverId}; start one with startPreview`);
+			}
+			if (preview.status !== 'running' || preview.pid === undefined) {
+				throw new ContainerManagerError(
+					'CONFLICT',
+					`Preview of ${serverId} is ${preview.status}; start it again with startPreview`,
+					{ status: preview.status, error: preview.error }
+				);
+			}
+
+			const container = this.getContainer(preview.containerId);
+			const messagePath = `${previewDir(serverId)}/request-${nanoid()}.json`;
+			const written = await container.writeFile(messagePath, JSON.stringify(jsonRpcMessage));
+			if (!written.success) {
+				throw fsError(written, messagePath);
+			}
+
+			const initialize = jsonRpcMessage.method === 'initialize';
+			const result = await container.execCommand(
+				previewRequestCommand(preview.port, messagePath, initialize ? undefined : preview.sessionId),
+				{ timeout: (PREVIEW_REQUEST_TIMEOUT_SECONDS + 10) * 1000 }
+			);
+
+			if (!result.success) {
+				const alive = await container.execCommand(previewAliveCommand(preview.pid));
+				if (!alive.success) {
+					const error = 'wrangler dev exited; see getPreviewLogs';
+					await this.finishPreview(serverId, 'failed', error);
+					throw new ContainerManagerError('PREVIEW_FAILED', error);
+				}
+
+				throw new ContainerManagerError(
+					commandErrorCode(result),
+					result.stderr.trim() || (result.error ?? `curl exited with code ${result.exitCode}`),
+					{ exitCode: result.exitCode }
+				);
+			}
+
+			const { status, sessionId, messages, body } = parsePreviewResponse(result.stdout);
+
+			if (initialize && sessionId) {
+				await this.env.DB.prepare(`
+					UPDATE server_previews SET session_id = ? WHERE server_id = ?
+				`).bind(sessionId, serverId).run();
+			}
+
+			return ok({
+				httpStatus: status,
+				response:
+					jsonRpcMessage.id === undefined
+						? undefined
+						: messages.find(
+								(message) => message.id === jsonRpcMessage.id && ('result' in message || 'error' in message)
+							),
+				messages,
+				sessionId: initialize ? sessionId : preview.sessionId,
+				body
+			});
+		} catch (error) {
+			console.error('Failed to send preview request:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Get lines of a server's preview log (wrangler dev and the worker's console output) after a line number
+	 * Poll with the returned nextLine until done is true
+	 */
+	async getPreviewLogs(serverId: string, afterLine = 0, limit = 500) {
+		try {
+			assertValidServerId(serverId);
+			if (!Number.isInteger(afterLine) || afterLine < 0 || !Number.isInteger(limit) || limit < 1) {
+				throw new ContainerManagerError(
+					'INVALID_ARGUMENT',
+					'afterLine must be a non-negative integer and limit a positive one'
+				);
+			}
+			await this.authorize(serverId, 'read');
+			const preview = await this.readPreview(serverId);
+
+			if (!preview) {
+				throw new ContainerManagerError('NOT_FOUND', `No preview of ${serverId}; start one with startPreview`);
+			}
+
+			const active = ACTIVE_PREVIEW_STATUSES.includes(preview.status);
+			const result = await this.getContainer(preview.containerId).execCommand(
+				previewLogCommand(serverId, afterLine, limit)
+			);
+			const lines = stripAnsi(result.stdout).split('\n');
+
+			// The last line is empty after a final newline, and still being written without one
+			if (lines[lines.length - 1] === '' || active) {
+				lines.pop();
+			}
+
+			return ok({
+				serverId,
+				status: preview.status,
+				lines,
+				nextLine: afterLine + lines.length,
+				done: !active && lines.length < limit
+			});
+		} catch (error) {
+			console.error('Failed to get preview logs:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Stop container and clean up resources
+	 */
+	async stopContainer(containerId: string) {
+		try {
+			await ensureSchema(this.env.DB);
+			assertValidContainerId(containerId);
+			await this.authorizeAdmin({ action: 'stopContainer', containerId });
+
+			// Container will automatically sleep after inactivity
+			// Just mark executions as stopped
+			await this.env.DB.prepare(`
+				UPDATE container_executions
+				SET status = 'failed', error = 'Container stopped', completed_at = ?
+				WHERE container_id = ? AND status IN ('queued', 'running')
+			`).bind(Date.now(), containerId).run();
+
+			return ok({
+				containerId
+			});
+		} catch (error) {
+			console.error('Failed to stop container:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Let another principal read (or also change) a server
+	 * Only the server's owner and admins can grant access; granting again replaces the access level
+	 */
+	async grantAccess(serverId: string, principal: string, access: Access) {
+		try {
+			assertValidServerId(serverId);
+			assertValidPrincipal(principal);
+			assertValidAccess(access);
+			const grantedBy = await this.authorizeOwner(serverId, {
+				action: 'grantAccess',
+				details: { principal, access }
+			});
+
+			await this.env.DB.prepare(`
+				INSERT INTO server_grants (server_id, principal, access, granted_by, created_at)
+				VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT (server_id, principal) DO UPDATE SET
+					access = excluded.access,
+					granted_by = excluded.granted_by,
+					created_at = excluded.created_at
+			`).bind(serverId, principal, access, grantedBy, Date.now()).run();
+
+			return ok({
+				serverId,
+				principal,
+				access
+			});
+		} catch (error) {
+			console.error('Failed to grant access:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Take back a principal's access to a server
+	 */
+	async revokeAccess(serverId: string, principal: string) {
+		try {
+			assertValidServerId(serverId);
+			assertValidPrincipal(principal);
+			await this.authorizeOwner(serverId, { action: 'revokeAccess', details: { principal } });
+
+			const result = await this.env.DB.prepare(`
+				DELETE FROM server_grants WHERE server_id = ? AND principal = ?
+			`).bind(serverId, principal).run();
+
+			return ok({
+				serverId,
+				principal,
+				revoked: result.meta.changes > 0
+			});
+		} catch (error) {
+			console.error('Failed to revoke access:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Owner of a server and the principals granted access to it
+	 */
+	async listGrants(serverId: string) {
+		try {
+			assertValidServerId(serverId);
+			await this.authorize(serverId, 'read');
+
+			const server = await this.env.DB.prepare(`
+				SELECT owner FROM servers WHERE id = ?
+			`).bind(serverId).first<{ owner: string | null }>();
+			const { results } = await this.env.DB.prepare(`
+				SELECT principal, access, granted_by, created_at
+				FROM server_grants
+				WHERE server_id = ?
+				ORDER BY principal
+			`).bind(serverId).all<{ principal: string; access: Access; granted_by: string; created_at: number }>();
+
+			return ok({
+				serverId,
+				owner: server?.owner ?? undefined,
+				grants: results.map((row) => ({
+					principal: row.principal,
+					access: row.access,
+					grantedBy: row.granted_by,
+					createdAt: row.created_at
+				}))
+			});
+		} catch (error) {
+			console.error('Failed to list grants:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Page through the audit log, newest first
+	 * Owners can read their servers' entries and every caller its own; the whole log is for admins
+	 */
+	async getAuditLog(query: AuditQuery = {}) {
+		try {
+			await ensureSchema(this.env.DB);
+			if (query.serverId !== undefined) {
+				assertValidServerId(query.serverId);
+			}
+			if (query.principal !== undefined) {
+				assertValidPrincipal(query.principal);
+			}
+
+			const principal = this.caller();
+			if (query.serverId !== undefined) {
+				await this.authorizeOwner(query.serverId);
+			} else if (query.principal === undefined || query.principal !== principal) {
+				await this.authorizeAdmin();
+			}
+
+			const page = await queryAuditLog(this.env.DB, query);
+
+			return ok({
+				...page
+			});
+		} catch (error) {
+			console.error('Failed to get audit log:', error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Record which template a server was made from and which container holds its workspace
+	 */
+	private async recordServer(serverId: string, template: string, containerId: string) {
+		await this.env.DB.prepare(`
+			INSERT INTO servers (id, template, container_id, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?)
+			ON CONFLICT (id) DO UPDATE SET
+				template = excluded.template,
+				container_id = excluded.container_id,
+				updated_at = excluded.updated_at
+		`).bind(serverId, template, containerId, Date.now(), Date.now()).run();
+	}
+
+	/**
+	 * Copy a template into a new workspace, personalize it for the server and commit it as the first change
+	 * Returns the workspace path
+	 */
+	private async copyTemplate(containerId: string, serverId: string, template: string) {
+		const definition = getTemplate(template);
+		const names = getTemplateNames(definition, serverId);
+		const container = this.getContainer(containerId);
+
+		// Create workspace directory for this server
+		const workspacePath = getWorkspacePath(serverId);
+		const mkdirResult = await container.makeDirectory(workspacePath);
+
+		if (!mkdirResult.success) {
+			throw new ContainerManagerError(
+				'TEMPLATE_COPY_FAILED',
+				`Failed to create workspace: ${mkdirResult.error}`
+			);
+		}
+
+		// Copy the template to the workspace
+		const copyResult = await container.copyPath(`${TEMPLATES_ROOT}/${template}`, workspacePath);
+
+		if (!copyResult.success) {
+			throw new ContainerManagerError('TEMPLATE_COPY_FAILED', `Failed to copy template: ${copyResult.error}`, {
+				template
+			});
+		}
+
+		// Strip example code and rename classes in the entry file and files that reference them
+		for (const file of [definition.entryFile, ...(definition.sourceFiles ?? [])]) {
+			const path = `${workspacePath}/${file}`;
+			const fileData = await container.readFile(path);
+
+			if (!fileData.success) {
+				throw new ContainerManagerError(
+					'TEMPLATE_COPY_FAILED',
+					`Failed to read template file ${file}: ${fileData.error}`,
+					{ template, file }
+				);
+			}
+
+			const personalized = personalizeSource(definition, file, fileData.content, names);
+			if (personalized !== fileData.content) {
+				const writeResult = await container.writeFile(path, personalized);
+
+				if (!writeResult.success) {
+					throw new ContainerManagerError(
+						'TEMPLATE_COPY_FAILED',
+						`Failed to write template file ${file}: ${writeResult.error}`,
+						{ template, file }
+					);
+				}
+			}
+		}
+
+		// Rewrite the worker name, class names and other wrangler fields
+		if (definition.wranglerFile) {
+			const path = `${workspacePath}/${definition.wranglerFile}`;
+			const wranglerData = await container.readFile(path);
+
+			if (!wranglerData.success) {
+				throw new ContainerManagerError(
+					'TEMPLATE_COPY_FAILED',
+					`Failed to read ${definition.wranglerFile}: ${wranglerData.error}`,
+					{ template, file: definition.wranglerFile }
+				);
+			}
+
+			const writeResult = await container.writeFile(path, personalizeWrangler(definition, wranglerData.content, names));
+
+			if (!writeResult.success) {
+				throw new ContainerManagerError(
+					'TEMPLATE_COPY_FAILED',
+					`Failed to write ${definition.wranglerFile}: ${writeResult.error}`,
+					{ template, file: definition.wranglerFile }
+				);
+			}
+		}
+
+		// Start the workspace's history with the personalized template
+		await this.commitWorkspace(containerId, serverId, `Create ${serverId} from the ${template} template`);
+
+		return workspacePath;
+	}
+
+	/**
+	 * Read a workspace's src/index.ts, along with the container it was read from
+	 */
+	private async readServerSource(containerId: string, serverId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const filePath = `${workspacePath}/src/index.ts`;
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+		const data = await container.readFile(filePath, { root: workspacePath });
+
+		if (!data.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to read index.ts: ${data.error}`);
+		}
+
+		return { container, workspacePath, filePath, content: data.content };
+	}
+
+	/**
+	 * Read a workspace's src/index.ts, transform it and write it back, committing the change
+	 * Returns the path of the edited file
+	 */
+	private async editServerSource(
+		containerId: string,
+		serverId: string,
+		change: string,
+		edit: (source: string) => string
+	) {
+		const { container, workspacePath, filePath, content } = await this.readServerSource(containerId, serverId);
+		const writeResult = await container.writeFile(filePath, edit(content), { root: workspacePath });
+
+		if (!writeResult.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to write index.ts: ${writeResult.error}`);
+		}
+
+		await this.checkpoint(containerId, serverId, change);
+		return filePath;
+	}
+
+	/**
+	 * The module of a tool registered from src/tools, if it has one
+	 */
+	private async findToolModule(containerId: string, serverId: string, name: string) {
+		const { content } = await this.readServerSource(containerId, serverId);
+		return findToolModules(content).find((module) => module.name === name);
+	}
+
+	/**
+	 * Read the source of a tool module
+	 */
+	private async readToolModule(containerId: string, serverId: string, module: ToolModule) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+		const data = await container.readFile(`${workspacePath}/${module.path}`, { root: workspacePath });
+
+		if (!data.success) {
+			throw fsError(data, module.path);
+		}
+
+		return data.content;
+	}
+
+	/**
+	 * Write a tool's module to src/tools and register it in src/index.ts
+	 * Returns the path of the module
+	 */
+	private async addToolModule(containerId: string, serverId: string, toolName: string, code: string) {
+		const { name, source } = generateToolModule(code);
+		if (name !== toolName) {
+			throw new ContainerManagerError('INVALID_SOURCE', `Tool code registers '${name}', not '${toolName}'`);
+		}
+
+		const { content } = await this.readServerSource(containerId, serverId);
+		const entry = addToolModuleToEntry(content, name);
+		const path = toolModulePath(name);
+		await this.assertNewModule(containerId, serverId, path);
+		await this.writeSourceFiles(containerId, serverId, `Add tool '${name}' in ${path}`, {
+			[path]: source,
+			'src/index.ts': entry
+		});
+
+		return `${getWorkspacePath(serverId)}/${path}`;
+	}
+
+	/**
+	 * Replace a tool's module, moving it (and its registration) when the code renames the tool
+	 * Returns the path of the module
+	 */
+	private async updateToolModule(containerId: string, serverId: string, module: ToolModule, code: string) {
+		const { name, source } = generateToolModule(code);
+		const change = `Update tool '${module.name}' in ${module.path}`;
+
+		if (name === module.name) {
+			await this.writeSourceFiles(containerId, serverId, change, { [module.path]: source });
+			return `${getWorkspacePath(serverId)}/${module.path}`;
+		}
+
+		const { content } = await this.readServerSource(containerId, serverId);
+		const entry = addToolModuleToEntry(removeToolModuleFromEntry(content, module.name), name);
+		const path = toolModulePath(name);
+		await this.assertNewModule(containerId, serverId, path);
+		await this.writeSourceFiles(containerId, serverId, change, {
+			[module.path]: null,
+			[path]: source,
+			'src/index.ts': entry
+		});
+
+		return `${getWorkspacePath(serverId)}/${path}`;
+	}
+
+	/**
+	 * Delete a tool's module and its registration in src/index.ts
+	 * Returns the path of the deleted module
+	 */
+	private async removeToolModule(containerId: string, serverId: string, module: ToolModule) {
+		const { content } = await this.readServerSource(containerId, serverId);
+		await this.writeSourceFiles(containerId, serverId, `Remove tool '${module.name}' in ${module.path}`, {
+			'src/index.ts': removeToolModuleFromEntry(content, module.name),
+			[module.path]: null
+		});
+
+		return `${getWorkspacePath(serverId)}/${module.path}`;
+	}
+
+	/**
+	 * Throw CONFLICT when a module about to be created exists without being registered,
+	 * so that a stray file is never overwritten
+	 */
+	private async assertNewModule(containerId: string, serverId: string, path: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+
+		if ((await container.statFile(`${workspacePath}/${path}`, { root: workspacePath })).success) {
+			throw new ContainerManagerError('CONFLICT', `${path} already exists but is not registered in src/index.ts`, {
+				path
+			});
+		}
+	}
+
+	/**
+	 * Write (or, for null, delete) workspace-relative files and commit them as one change
+	 */
+	private async writeSourceFiles(
+		containerId: string,
+		serverId: string,
+		change: string,
+		files: Record<string, string | null>
+	) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+
+		for (const [file, content] of Object.entries(files)) {
+			const path = `${workspacePath}/${file}`;
+			const result =
+				content === null
+					? await container.deleteFile(path, { root: workspacePath })
+					: await container.writeFile(path, content, { root: workspacePath });
+
+			if (!result.success) {
+				throw fsError(result, file);
+			}
+		}
+
+		await this.checkpoint(containerId, serverId, change);
+	}
+
+	/**
+	 * Read a workspace's wrangler.jsonc and, if there is one, its worker-configuration.d.ts
+	 */
+	private async readWorkerConfig(containerId: string, serverId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+
+		const config = await container.readFile(`${workspacePath}/wrangler.jsonc`, { root: workspacePath });
+		if (!config.success) {
+			throw fsError(config, 'wrangler.jsonc');
+		}
+
+		const types = await container.readFile(`${workspacePath}/${WORKER_TYPES_FILE}`, { root: workspacePath });
+
+		return { config: config.content, types: types.success ? types.content : undefined };
+	}
+
+	/**
+	 * Transform a workspace's wrangler.jsonc and Env types together, writing back and committing what changed
+	 * Returns the files written
+	 */
+	private async editWorkerConfig(
+		containerId: string,
+		serverId: string,
+		change: string,
+		edit: (files: { config: string; types?: string }) => { config: string; types?: string }
+	) {
+		const workspacePath = getWorkspacePath(serverId);
+		const before = await this.readWorkerConfig(containerId, serverId);
+		const after = edit(before);
+		const container = this.getContainer(containerId);
+
+		const written: string[] = [];
+		for (const [file, from, to] of [
+			['wrangler.jsonc', before.config, after.config],
+			[WORKER_TYPES_FILE, before.types, after.types]
+		] as const) {
+			if (to === undefined || to === from) {
+				continue;
+			}
+			const writeResult = await container.writeFile(`${workspacePath}/${file}`, to, { root: workspacePath });
+			if (!writeResult.success) {
+				throw fsError(writeResult, file);
+			}
+			written.push(file);
+		}
+
+		await this.checkpoint(containerId, serverId, change);
+		return written;
+	}
+
+	/**
+	 * Shared implementation of updateTool/updateResource/updatePrompt
+	 */
+	private async updateCapability(
+		containerId: string,
+		serverId: string,
+		kind: CapabilityKind,
+		name: string,
+		code: string
+	) {
+		try {
+			await this.authorize(serverId, 'write', { action: `update${capitalize(kind)}`, containerId, details: { name } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const module = kind === 'tool' ? await this.findToolModule(lease.containerId, serverId, name) : undefined;
+				const filePath = module
+					? await this.updateToolModule(lease.containerId, serverId, module, code)
+					: await this.editServerSource(lease.containerId, serverId, `Update ${kind} '${name}'`, (source) =>
+							replaceRegistration(source, kind, name, code)
+						);
+
+				return ok({
+					message: `${capitalize(kind)} '${name}' updated in ${filePath}`
+				});
+			});
+		} catch (error) {
+			console.error(`Failed to update ${kind}:`, error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * Shared implementation of removeTool/removeResource/removePrompt
+	 */
+	private async removeCapability(containerId: string, serverId: string, kind: CapabilityKind, name: string) {
+		try {
+			await this.authorize(serverId, 'write', { action: `remove${capitalize(kind)}`, containerId, details: { name } });
+
+			return await this.withWorkspaceLease(containerId, serverId, async (lease) => {
+				const module = kind === 'tool' ? await this.findToolModule(lease.containerId, serverId, name) : undefined;
+				const filePath = module
+					? await this.removeToolModule(lease.containerId, serverId, module)
+					: await this.editServerSource(lease.containerId, serverId, `Remove ${kind} '${name}'`, (source) =>
+							removeRegistration(source, kind, name)
+						);
+
+				return ok({
+					message: `${capitalize(kind)} '${name}' removed from ${filePath}`
+				});
+			});
+		} catch (error) {
+			console.error(`Failed to remove ${kind}:`, error);
+			return failure(error);
+		}
+	}
+
+	/**
+	 * NDJSON stream of an execution's output after a sequence number, ending with its terminal status
+	 */
+	private followExecutionLogs(executionId: string, afterSeq: number) {
+		const encoder = new TextEncoder();
+		const deadline = Date.now() + EXECUTION_FOLLOW_LIMIT_MS;
+		let seq = afterSeq;
+
+		return new ReadableStream<Uint8Array>({
+			pull: async (controller) => {
+				while (true) {
+					const execution = await this.env.DB.prepare(`
+						SELECT status FROM container_executions WHERE id = ?
+					`).bind(executionId).first<{ status: ExecutionStatus }>();
+
+					if (!execution) {
+						controller.error(new Error(`Execution not found: ${executionId}`));
+						return;
+					}
+
+					const chunks = await this.readExecutionLogs(executionId, seq, 500);
+
+					if (chunks.length > 0) {
+						for (const chunk of chunks) {
+							controller.enqueue(encoder.encode(`${JSON.stringify({ type: 'output', ...chunk })}\n`));
+						}
+						seq = chunks[chunks.length - 1].seq;
+						return;
+					}
+
+					if (TERMINAL_STATUSES.includes(execution.status) || Date.now() > deadline) {
+						controller.enqueue(encoder.encode(`${JSON.stringify({ type: 'status', status: execution.status })}\n`));
+						controller.close();
+						return;
+					}
+
+					await new Promise((resolve) => setTimeout(resolve, EXECUTION_POLL_INTERVAL_MS));
+				}
+			}
+		});
+	}
+
+	/**
+	 * Stored status of a recorded execution, undefined when there is no such execution
+	 */
+	private async readExecutionStatus(executionId: string) {
+		const row = await this.env.DB.prepare(`
+			SELECT status FROM container_executions WHERE id = ?
+		`).bind(executionId).first<{ status: ExecutionStatus }>();
+
+		return row?.status;
+	}
+
+	/**
+	 * Read stored output chunks of an execution after a sequence number
+	 */
+	private async readExecutionLogs(executionId: string, afterSeq: number, limit: number) {
+		const result = await this.env.DB.prepare(`
+			SELECT seq, stream, data, created_at
+			FROM container_execution_logs
+			WHERE execution_id = ? AND seq > ?
+			ORDER BY seq
+			LIMIT ?
+		`).bind(executionId, afterSeq, limit).all<{
+			seq: number;
+			stream: 'stdout' | 'stderr';
+			data: string;
+			created_at: number;
+		}>();
+
+		return (result.results || []).map((row): ExecutionLogChunk => ({
+			seq: row.seq,
+			stream: row.stream,
+			data: row.data,
+			createdAt: row.created_at
+		}));
+	}
+
+	/**
+	 * Hash every source file in a workspace and store the manifest in KV
+	 * Also reads the dependency versions the install resolved
+	 */
+	private async snapshotSources(containerId: string, serverId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = this.getContainer(containerId);
+
+		const listing = await container.listFiles(workspacePath, {
+			root: workspacePath,
+			recursive: true,
+			exclude: SOURCE_EXCLUDES
+		});
+		if (!listing.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to list workspace sources: ${listing.error}`);
+		}
+
+		const manifest: Record<string, string> = {};
+		const text: Record<string, string> = {};
+
+		for (const entry of listing.entries.filter((candidate) => candidate.type === 'file')) {
+			const file = await container.readFile(`${workspacePath}/${entry.path}`, {
+				root: workspacePath,
+				encoding: 'base64'
+			});
+			if (!file.success) {
+				throw new ContainerManagerError('CONTAINER_ERROR', `Failed to read ${entry.path}: ${file.error}`);
+			}
+
+			const bytes = base64ToBytes(file.content);
+			manifest[entry.path] = await sha256(bytes);
+			if (entry.path === 'package.json' || entry.path === 'package-lock.json') {
+				text[entry.path] = new TextDecoder().decode(bytes);
+			}
+		}
+
+		const hash = await hashSourceManifest(manifest);
+		await this.env.KV.put(sourcesKey(hash), JSON.stringify(manifest));
+
+		return {
+			hash,
+			dependencies: resolveDependencies(text['package.json'], text['package-lock.json'])
+		};
+	}
+
+	/**
+	 * Record the outcome of a build
+	 */
+	private async finishBuild(
+		buildId: string,
+		outcome: {
+			status: 'succeeded' | 'failed';
+			sources?: { hash: string; dependencies: Record<string, string> };
+			stages: BuildStageResult[];
+			diagnostics: BuildDiagnostic[];
+			artifactHash?: string;
+			size?: number;
+			config?: Record<string, unknown>;
+			error?: string;
+		}
+	) {
+		await this.env.DB.prepare(`
+			UPDATE builds
+			SET status = ?, source_hash = ?, artifact_hash = ?, size = ?, dependencies = ?, config = ?,
+				stages = ?, diagnostics = ?, error = ?, completed_at = ?
+			WHERE id = ?
+		`).bind(
+			outcome.status,
+			outcome.sources?.hash ?? null,
+			outcome.artifactHash ?? null,
+			outcome.size ?? null,
+			JSON.stringify(outcome.sources?.dependencies ?? {}),
+			outcome.config ? JSON.stringify(outcome.config) : null,
+			JSON.stringify(outcome.stages),
+			JSON.stringify(outcome.diagnostics.slice(0, MAX_STORED_DIAGNOSTICS)),
+			outcome.error ?? null,
+			Date.now(),
+			buildId
+		).run();
+	}
+
+	/**
+	 * Read a build record, or undefined if there is none
+	 */
+	private async readBuild(buildId: string) {
+		const row = await this.env.DB.prepare(`
+			SELECT * FROM builds WHERE id = ?
+		`).bind(buildId).first<BuildRow>();
+
+		return row ? buildFromRow(row) : undefined;
+	}
+
+	/**
+	 * Publisher used to upload deployments
+	 * Tests override this to deploy into a fake instead of the WORKER_PUBLISHER service
+	 */
+	protected getPublisher(): WorkerPublisher {
+		return new ServiceWorkerPublisher(this.env.WORKER_PUBLISHER);
+	}
+
+	/**
+	 * Publish a stored build and record the deployment
+	 */
+	private async deployBuild(serverId: string, buildId: string, rollbackOf?: string) {
+		const build = await this.readBuild(buildId);
+
+		if (!build || build.serverId !== serverId) {
+			throw new ContainerManagerError(
+				'NOT_FOUND',
+				`Build ${buildId} not found for server ${serverId}`, { buildId }
+			);
+		}
+		if (build.status !== 'succeeded' || !build.artifactHash) {
+			throw new ContainerManagerError(
+				'CONFLICT',
+				`Build ${buildId} has no artifact to deploy (status: ${build.status})`,
+				{ buildId, status: build.status }
+			);
+		}
+
+		const active = await this.env.DB.prepare(`
+			SELECT * FROM deployments WHERE server_id = ? AND status = 'active'
+		`).bind(serverId).first<DeploymentRow>();
+
+		if (active && active.artifact_hash === build.artifactHash) {
+			return ok({
+				skipped: true,
+				deploymentId: active.id,
+				version: active.version,
+				url: active.url ?? undefined,
+				message: `Deployment ${active.id} already serves this artifact`
+			});
+		}
+
+		const script = await this.env.KV.get(artifactKey(build.artifactHash));
+		if (script === null) {
+			throw new ContainerManagerError(
+				'NOT_FOUND',
+				`Artifact ${build.artifactHash} of build ${buildId} is missing from storage`,
+				{ buildId, artifactHash: build.artifactHash }
+			);
+		}
+
+		const latest = await this.env.DB.prepare(`
+			SELECT MAX(version) as version FROM deployments WHERE server_id = ?
+		`).bind(serverId).first<{ version: number | null }>();
+
+		const deploymentId = nanoid();
+		const version = (latest?.version ?? 0) + 1;
+		const scriptName = serverId;
+
+		await this.env.DB.prepare(`
+			INSERT INTO deployments (id, server_id, build_id, version, status, script_name, artifact_hash, rollback_of, created_at)
+			VALUES (?, ?, ?, ?, 'deploying', ?, ?, ?, ?)
+		`).bind(
+			deploymentId,
+			serverId,
+			buildId,
+			version,
+			scriptName,
+			build.artifactHash,
+			rollbackOf ?? null,
+			Date.now()
+		).run();
+
+		try {
+			const published = await this.getPublisher().publish({
+				serverId,
+				namespace: DISPATCH_NAMESPACE,
+				scriptName,
+				script,
+				config: build.config ?? {},
+				tags: [`server:${serverId}`, `build:${buildId}`]
+			});
+			const url = published.url ?? routableUrl(this.env.DISPATCH_BASE_URL, scriptName);
+
+			// The new deployment replaces whatever was live
+			await this.env.DB.batch([
+				this.env.DB.prepare(`
+					UPDATE deployments SET status = 'superseded' WHERE server_id = ? AND status = 'active'
+				`).bind(serverId),
+				this.env.DB.prepare(`
+					UPDATE deployments SET status = 'active', url = ?, version_id = ?, completed_at = ? WHERE id = ?
+				`).bind(url ?? null, published.versionId ?? null, Date.now(), deploymentId)
+			]);
+
+			return ok({
+				skipped: false,
+				deploymentId,
+				version,
+				url,
+				versionId: published.versionId
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error';
+
 			await this.env.DB.prepare(`
-				UPDATE container_executions
-				SET status = 'failed', error = 'Container stopped', completed_at = ?
-				WHERE container_id = ? AND status = 'running'
-			`).bind(Date.now(), containerId).run();
+				UPDATE deployments SET status = 'failed', error = ?, completed_at = ? WHERE id = ?
+			`).bind(message, Date.now(), deploymentId).run();
+
+			return failure(
+				new ContainerManagerError('DEPLOY_FAILED', `Deployment failed: ${message}`, { deploymentId, version })
+			);
+		}
+	}
+
+	/**
+	 * Run the stages of a build in a leased container and record the outcome
+	 */
+	private async runBuild(
+		containerId: string,
+		serverId: string,
+		code: { [filename: string]: string },
+		options: BuildOptions
+	) {
+		const buildId = nanoid();
+		const stages: BuildStageResult[] = [];
+		const diagnostics: BuildDiagnostic[] = [];
+		let recorded = false;
+
+		try {
+			await ensureSchema(this.env.DB);
+			const workspacePath = getWorkspacePath(serverId);
+			const container = await this.getWorkspaceContainer(containerId, serverId);
+
+			await this.env.DB.prepare(`
+				INSERT INTO builds (id, server_id, status, created_at)
+				VALUES (?, ?, 'running', ?)
+			`).bind(buildId, serverId, Date.now()).run();
+			recorded = true;
+
+			// If code is provided (legacy), write it to workspace (shouldn't happen with new flow)
+			if (code && Object.keys(code).length > 0) {
+				console.warn('buildMCPServer received code - this should not happen with new flow');
+				for (const [filename, content] of Object.entries(code)) {
+					await container.writeFile(resolveWorkspacePath(serverId, filename), content, { root: workspacePath });
+				}
+			}
+
+			const record = ({ result, diagnostics: found }: BuildStageOutcome) => {
+				stages.push(result);
+				diagnostics.push(...found);
+				return result.status === 'passed';
+			};
+			const skip = (stage: BuildStage) => {
+				stages.push({ stage, status: 'skipped', durationMs: 0, errorCount: 0, warningCount: 0 });
+			};
+
+			// Install dependencies from workspace
+			const installed = record(
+				await this.runBuildStage(
+					containerId,
+					serverId,
+					'install',
+					npmCommand('install', [], this.env.NPM_REGISTRY_URL),
+					parseNpmOutput
+				)
+			);
+
+			// Snapshot the sources after install, so the lockfile it wrote is part of them
+			const sources = installed ? await this.snapshotSources(containerId, serverId) : undefined;
+
+			// Checks all run, so one build reports every problem, but any failure stops the bundle
+			let checksPassed = installed;
+			const checks: [BuildStage, boolean | undefined, () => Promise<BuildStageOutcome>][] = [
+				[
+					'typecheck',
+					options.typecheck,
+					() =>
+						this.runBuildStage(containerId, serverId, 'typecheck', ['npx', 'tsc', '--noEmit', '--pretty', 'false'], (output) =>
+							parseTscOutput(output, workspacePath)
+						)
+				],
+				[
+					'lint',
+					options.lint,
+					() =>
+						this.runBuildStage(containerId, serverId, 'lint', ['npx', 'biome', 'lint', '--reporter=github', '.'], (output) =>
+							parseBiomeOutput(output, workspacePath)
+						)
+				],
+				['test', options.test, () => this.runTestStage(containerId, serverId, buildId)]
+			];
+
+			for (const [stage, requested, run] of checks) {
+				if (!requested || !installed) {
+					skip(stage);
+				} else if (!record(await run())) {
+					checksPassed = false;
+				}
+			}
+
+			// Build with wrangler from workspace
+			const bundled =
+				checksPassed &&
+				record(
+					await this.runBuildStage(
+						containerId,
+						serverId,
+						'bundle',
+						['npx', 'wrangler', 'deploy', '--dry-run', `--outdir=${BUILD_OUTPUT_DIR}`],
+						(output) => parseEsbuildOutput(output, workspacePath)
+					)
+				);
+
+			if (!checksPassed) {
+				skip('bundle');
+			}
+
+			if (!bundled) {
+				const failed = stages
+					.filter((stage) => stage.status === 'failed')
+					.map((stage) => `${stage.stage} (${stage.errorCount} ${stage.errorCount === 1 ? 'error' : 'errors'})`);
+				const error = `Build failed at ${failed.join(', ')}`;
+
+				await this.finishBuild(buildId, { status: 'failed', sources, stages, diagnostics, error });
+				return failure(
+					new ContainerManagerError('BUILD_FAILED', error, {
+						buildId,
+						sourceHash: sources?.hash,
+						stages,
+						diagnostics
+					})
+				);
+			}
+
+			// Read bundled script
+			const scriptData = await container.readFile(`${BUILD_OUTPUT_DIR}/index.js`);
+
+			if (!scriptData.success || !scriptData.content) {
+				const error = 'Failed to read built script';
+				await this.finishBuild(buildId, { status: 'failed', sources, stages, diagnostics, error });
+				return failure(
+					new ContainerManagerError('BUILD_FAILED', error, {
+						buildId,
+						sourceHash: sources?.hash,
+						stages,
+						diagnostics
+					})
+				);
+			}
+
+			// Deploying needs the compatibility settings and bindings the bundle was built for
+			const wranglerData = await container.readFile(`${workspacePath}/wrangler.jsonc`, { root: workspacePath });
+			const config = wranglerData.success ? parseWranglerConfig(wranglerData.content) : undefined;
+
+			// Store the bundle by content hash
+			const artifactHash = await sha256(scriptData.content);
+			const size = new TextEncoder().encode(scriptData.content).length;
+			await this.env.KV.put(artifactKey(artifactHash), scriptData.content);
+
+			const duplicate = await this.env.DB.prepare(`
+				SELECT id FROM builds
+				WHERE server_id = ? AND artifact_hash = ? AND status = 'succeeded' AND id != ?
+				ORDER BY created_at DESC
+				LIMIT 1
+			`).bind(serverId, artifactHash, buildId).first<{ id: string }>();
+
+			await this.finishBuild(buildId, {
+				status: 'succeeded',
+				sources,
+				stages,
+				diagnostics,
+				artifactHash,
+				size,
+				config
+			});
+
+			return ok({
+				buildId,
+				scriptContent: scriptData.content,
+				sourceHash: sources?.hash,
+				artifactHash,
+				size,
+				// An earlier build of this server produced the same bundle, so deploying this one changes nothing
+				duplicateOf: duplicate?.id,
+				stages,
+				diagnostics
+			});
+		} catch (error) {
+			console.error('Failed to build MCP server:', error);
+			const { code, error: message, details } = failure(error);
+
+			if (recorded) {
+				await this.finishBuild(buildId, { status: 'failed', stages, diagnostics, error: message }).catch(
+					(finishError) => console.error('Failed to record build failure:', finishError)
+				);
+			}
+
+			return failure(new ContainerManagerError(code, message, { ...details, buildId, stages, diagnostics }));
+		}
+	}
+
+	/**
+	 * Run a command in a container, recording it as an execution when it belongs to a server
+	 * Changes it makes to the workspace are left for the operation running it to checkpoint, once
+	 */
+	private async runExecution(containerId: string, command: string, serverId?: string, options: ExecOptions = {}) {
+		const executionId = nanoid();
+
+		try {
+			await ensureSchema(this.env.DB);
+			assertValidContainerId(containerId);
+			if (serverId !== undefined) {
+				assertValidServerId(serverId);
+			}
+
+			// Record execution as queued until the container accepts it
+			if (serverId) {
+				await this.env.DB.prepare(`
+					INSERT INTO container_executions (id, server_id, container_id, command, status, started_at)
+					VALUES (?, ?, ?, ?, ?, ?)
+				`).bind(
+					executionId,
+					serverId,
+					containerId,
+					command,
+					'queued',
+					Date.now()
+				).run();
+			}
+
+			// Execute command via the container agent
+			const container = serverId
+				? await this.getWorkspaceContainer(containerId, serverId)
+				: this.getContainer(containerId);
+
+			// cancelExecution of a queued execution only marks it, since the agent does not know it yet
+			if (serverId && (await this.readExecutionStatus(executionId)) !== 'queued') {
+				return {
+					success: false,
+					code: 'CANCELLED' as const,
+					executionId,
+					status: 'cancelled' as const,
+					error: 'Cancelled by request'
+				};
+			}
+
+			const stream = await container.execStream(executionId, command, options);
+
+			if (serverId) {
+				const started = await this.env.DB.prepare(`
+					UPDATE container_executions SET status = 'running' WHERE id = ? AND status = 'queued'
+				`).bind(executionId).run();
+
+				// Cancelled while the agent was starting it, too early for cancelExecution to kill it
+				if (started.meta.changes === 0) {
+					await container.cancelCommand(executionId);
+				}
+			}
+
+			const log = serverId ? new ExecutionLogWriter(this.env.DB, executionId) : undefined;
+			let stdout = '';
+			let stderr = '';
+			let exit: Extract<ExecEvent, { type: 'exit' }> | undefined;
+
+			for await (const event of readExecEvents(stream)) {
+				if (event.type === 'output') {
+					if (event.stream === 'stdout') {
+						stdout += event.data;
+					} else {
+						stderr += event.data;
+					}
+					await log?.append(event.stream, event.data);
+				} else if (event.type === 'exit') {
+					exit = event;
+				} else if (event.type === 'error') {
+					throw new ContainerManagerError('CONTAINER_ERROR', event.error);
+				}
+			}
+
+			await log?.flush();
+
+			if (!exit) {
+				throw new ContainerManagerError(
+					'CONTAINER_ERROR',
+					'Container agent closed the stream before the command exited'
+				);
+			}
+
+			let status = statusForExit(exit);
+			let code = status === 'succeeded' ? undefined : commandErrorCode(exit);
+			const output = stdout + stderr;
+			let error = status === 'succeeded' ? undefined : stderr.trim() || describeExit(exit);
+
+			// Update execution record, unless cancelExecution already finished it
+			if (serverId) {
+				const finished = await this.env.DB.prepare(`
+					UPDATE container_executions
+					SET status = ?, output = ?, error = ?, completed_at = ?
+					WHERE id = ? AND status IN ('queued', 'running')
+				`).bind(
+					status,
+					output || null,
+					error || null,
+					Date.now(),
+					executionId
+				).run();
+
+				if (finished.meta.changes === 0) {
+					status = (await this.readExecutionStatus(executionId)) ?? status;
+					if (status !== 'succeeded') {
+						code = status === 'cancelled' ? 'CANCELLED' : (code ?? 'COMMAND_FAILED');
+						error = status === 'cancelled' ? 'Cancelled by request' : (error ?? describeExit(exit));
+					}
+				}
+			}
+			const success = status === 'succeeded';
 
 			return {
-				success: true,
-				containerId
+				success,
+				code,
+				executionId,
+				status,
+				output,
+				stdout,
+				stderr,
+				exitCode: exit.exitCode,
+				durationMs: exit.durationMs,
+				timedOut: exit.timedOut ?? false,
+				cancelled: exit.cancelled ?? false,
+				error,
 			};
 		} catch (error) {
-			console.error('Failed to stop container:', error);
+			console.error('Failed to execute in container:', error);
+			const { code, error: message } = failure(error);
+
+			if (serverId) {
+				await this.env.DB.prepare(`
+					UPDATE container_executions
+					SET status = 'failed', error = ?, completed_at = ?
+					WHERE id = ? AND status IN ('queued', 'running')
+				`).bind(message, Date.now(), executionId).run().catch(() => undefined);
+			}
+
 			return {
 				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
+				code,
+				executionId,
+				error: message
 			};
 		}
 	}
+
+	/**
+	 * Run one buildMCPServer stage as a recorded execution in the workspace
+	 * A failing command always yields at least one error, even when its output did not parse
+	 */
+	private async runBuildStage(
+		containerId: string,
+		serverId: string,
+		stage: BuildStage,
+		argv: string[],
+		parse: (output: string) => BuildDiagnostic[] | Promise<BuildDiagnostic[]>
+	): Promise<BuildStageOutcome> {
+		const started = Date.now();
+		const execution = await this.runExecution(containerId, shellCommand(argv), serverId, {
+			cwd: getWorkspacePath(serverId),
+			env: { NO_COLOR: '1', FORCE_COLOR: '0', CI: '1' }
+		});
+
+		const output = stripAnsi(`${execution.stdout ?? ''}\n${execution.stderr ?? ''}`);
+		const diagnostics = await parse(output);
+
+		if (!execution.success && !diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+			diagnostics.push(outputDiagnostic(stage, output, execution.error ?? `${stage} failed`));
+		}
+
+		const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+
+		return {
+			result: {
+				stage,
+				status: execution.success ? 'passed' : 'failed',
+				durationMs: Date.now() - started,
+				executionId: execution.executionId,
+				errorCount: execution.success ? 0 : errorCount,
+				warningCount: diagnostics.filter((diagnostic) => diagnostic.severity === 'warning').length
+			},
+			diagnostics
+		};
+	}
+
+	/**
+	 * Run the workspace's vitest suite, reading failures from its JSON report
+	 */
+	private async runTestStage(containerId: string, serverId: string, buildId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const reportPath = `/tmp/vitest-${buildId}.json`;
+		const container = this.getContainer(containerId);
+
+		return this.runBuildStage(
+			containerId,
+			serverId,
+			'test',
+			[
+				'npx',
+				'vitest',
+				'run',
+				'--passWithNoTests',
+				'--includeTaskLocation',
+				'--reporter=json',
+				`--outputFile=${reportPath}`
+			],
+			async () => {
+				const report = await container.readFile(reportPath);
+				if (!report.success) {
+					return [];
+				}
+				await container.deleteFile(reportPath);
+				return parseVitestReport(report.content, workspacePath);
+			}
+		);
+	}
+
+	/**
+	 * Install packages into a workspace with npm, which saves them to package.json
+	 * A failed install throws INSTALL_FAILED and leaves package.json and the lockfile as they were
+	 */
+	private async installDependencies(containerId: string, serverId: string, specs: DependencySpec[], dev: boolean) {
+		const args = [dev ? '--save-dev' : '--save', ...specs.map(({ name, range }) => (range ? `${name}@${range}` : name))];
+		const result = await this.runNpm(containerId, serverId, 'install', args);
+
+		const { packageJson, packageLock } = await this.readPackageFiles(containerId, serverId);
+		const requested = new Set(specs.map((spec) => spec.name));
+
+		return ok({
+			executionId: result.executionId,
+			dependencies: readDependencies(packageJson, packageLock).filter((dependency) => requested.has(dependency.name))
+		});
+	}
+
+	/**
+	 * Run npm install or uninstall in a workspace as an install stage
+	 * A failure throws INSTALL_FAILED with npm's diagnostics
+	 */
+	private async runNpm(containerId: string, serverId: string, subcommand: 'install' | 'uninstall', args: string[] = []) {
+		const registry = this.env.NPM_REGISTRY_URL;
+		const { result, diagnostics } = await this.runBuildStage(
+			containerId,
+			serverId,
+			'install',
+			npmCommand(subcommand, args, registry),
+			parseNpmOutput
+		);
+
+		if (result.status === 'failed') {
+			throw new ContainerManagerError(
+				'INSTALL_FAILED',
+				describeInstallFailure(diagnostics.map((diagnostic) => diagnostic.message).join('\n'), registry),
+				{ executionId: result.executionId, diagnostics }
+			);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Read a workspace's package.json and, if there is one, its package-lock.json
+	 */
+	private async readPackageFiles(containerId: string, serverId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = await this.getWorkspaceContainer(containerId, serverId);
+
+		const packageJson = await container.readFile(`${workspacePath}/package.json`, { root: workspacePath });
+		if (!packageJson.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to read package.json: ${packageJson.error}`);
+		}
+
+		const packageLock = await container.readFile(`${workspacePath}/package-lock.json`, { root: workspacePath });
+
+		return {
+			packageJson: packageJson.content,
+			packageLock: packageLock.success ? packageLock.content : undefined
+		};
+	}
+
+	/**
+	 * Get the container stub for a server's workspace, restoring the workspace from its
+	 * latest snapshot first when the container lost it (it slept or was evicted)
+	 * Throws WORKSPACE_NOT_FOUND when there is neither a workspace nor a snapshot
+	 */
+	private async getWorkspaceContainer(containerId: string, serverId: string) {
+		const container = this.getContainer(containerId);
+		const key = `${containerId}/${serverId}`;
+
+		if (this.checkedWorkspaces.has(key)) {
+			return container;
+		}
+
+		const workspacePath = getWorkspacePath(serverId);
+		const stat = await container.statFile(workspacePath);
+
+		if (!stat.success) {
+			// Only the container the pool assigned the server to gets its workspace back
+			const assigned = await this.getPool().getAssignment(serverId);
+			if (assigned !== containerId) {
+				throw new ContainerManagerError(
+					'WORKSPACE_NOT_FOUND',
+					`No workspace for ${serverId} in ${containerId}; it lives in ${assigned ?? 'no container yet'}`,
+					{ serverId, containerId }
+				);
+			}
+
+			const snapshot = await this.env.KV.get<WorkspaceSnapshot>(latestSnapshotKey(serverId), 'json');
+			if (!snapshot) {
+				throw new ContainerManagerError(
+					'WORKSPACE_NOT_FOUND',
+					`No workspace for ${serverId} in ${containerId}; create it with createSDKEnvironment`,
+					{ serverId, containerId }
+				);
+			}
+
+			await this.applySnapshot(containerId, snapshot);
+			console.log(`Restored workspace ${serverId} in ${containerId} from snapshot ${snapshot.id}`);
+		}
+
+		this.checkedWorkspaces.add(key);
+		return container;
+	}
+
+	/**
+	 * Snapshot a workspace after a change, committing it first when it is described
+	 * Logs instead of failing the change when either does not work
+	 */
+	private async checkpoint(containerId: string, serverId: string, change?: string) {
+		if (change !== undefined) {
+			try {
+				await this.commitWorkspace(containerId, serverId, change);
+			} catch (error) {
+				console.error('Failed to commit workspace change:', error);
+			}
+		}
+
+		try {
+			await this.saveSnapshot(containerId, serverId);
+		} catch (error) {
+			console.error('Failed to snapshot workspace:', error);
+		}
+	}
+
+	/**
+	 * Commit whatever changed in a workspace to its git history, with the caller as author
+	 * Starts the history first when the workspace has none; returns the commit at HEAD
+	 */
+	private async commitWorkspace(containerId: string, serverId: string, change: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = this.getContainer(containerId);
+
+		const history = await container.statFile(`${workspacePath}/${HISTORY_DIR}`, { root: workspacePath });
+		if (!history.success) {
+			await this.runGit(container, serverId, initHistoryCommand());
+
+			const excludePath = `${HISTORY_DIR}/info/exclude`;
+			const exclude = await container.writeFile(
+				`${workspacePath}/${excludePath}`,
+				`${HISTORY_EXCLUDES.join('\n')}\n`,
+				{ root: workspacePath }
+			);
+			if (!exclude.success) {
+				throw fsError(exclude, excludePath);
+			}
+		}
+
+		const { stdout } = await this.runGit(container, serverId, commitCommand(change), {
+			env: historyEnv(this.caller() ?? 'container-manager')
+		});
+		return stdout.trim();
+	}
+
+	/**
+	 * Full hash of the commit a revision names in a workspace's history
+	 */
+	private async resolveRevision(container: ContainerBackend, serverId: string, revision: string) {
+		const result = await container.execCommand(resolveRevisionCommand(revision), { cwd: getWorkspacePath(serverId) });
+
+		if (!result.success) {
+			throw new ContainerManagerError('NOT_FOUND', `No commit ${revision} in the history of ${serverId}`, {
+				revision
+			});
+		}
+
+		return result.stdout.trim();
+	}
+
+	/**
+	 * Run a git command in a workspace, throwing when it fails
+	 */
+	private async runGit(container: ContainerBackend, serverId: string, command: string, options: ExecOptions = {}) {
+		const result = await container.execCommand(command, { ...options, cwd: getWorkspacePath(serverId) });
+
+		if (!result.success) {
+			throw new ContainerManagerError(
+				commandErrorCode(result),
+				result.stderr.trim() || (result.error ?? `git exited with code ${result.exitCode}`),
+				{ command, exitCode: result.exitCode }
+			);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Store the workspace's files in KV and make the snapshot the latest
+	 * Only files whose size or mtime changed since the previous snapshot are read again, and
+	 * nothing is written when the workspace still matches it
+	 */
+	private async saveSnapshot(containerId: string, serverId: string) {
+		const workspacePath = getWorkspacePath(serverId);
+		const container = this.getContainer(containerId);
+
+		const listing = await container.listFiles(workspacePath, {
+			root: workspacePath,
+			recursive: true,
+			exclude: SNAPSHOT_EXCLUDES
+		});
+		if (!listing.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to list workspace: ${listing.error}`);
+		}
+
+		const previous = await this.env.KV.get<WorkspaceSnapshot>(latestSnapshotKey(serverId), 'json');
+		const stored = new Set(Object.values(previous?.files ?? {}).map((file) => file.hash));
+		const files: Record<string, SnapshotFile> = {};
+		const directories: string[] = [];
+
+		for (const entry of listing.entries) {
+			if (entry.type === 'directory') {
+				directories.push(entry.path);
+				continue;
+			}
+			if (entry.type !== 'file') {
+				continue;
+			}
+
+			const known = previous?.files[entry.path];
+			if (known && known.size === entry.size && known.mtime === entry.mtime) {
+				files[entry.path] = known;
+				continue;
+			}
+
+			const file = await container.readFile(`${workspacePath}/${entry.path}`, {
+				root: workspacePath,
+				encoding: 'base64'
+			});
+			if (!file.success) {
+				throw new ContainerManagerError('CONTAINER_ERROR', `Failed to read ${entry.path}: ${file.error}`);
+			}
+
+			const bytes = base64ToBytes(file.content);
+			const hash = await sha256(bytes);
+			if (!stored.has(hash)) {
+				await this.env.KV.put(blobKey(hash), bytes);
+				stored.add(hash);
+			}
+
+			files[entry.path] = { hash, size: entry.size, mtime: entry.mtime };
+		}
+
+		const id = await snapshotId(files, directories);
+		if (previous?.id === id) {
+			// Nothing changed since the latest snapshot, which stays as it is
+			return previous;
+		}
+
+		const snapshot: WorkspaceSnapshot = { id, serverId, files, directories: directories.sort(), createdAt: Date.now() };
+		await this.env.KV.put(snapshotKey(serverId, id), JSON.stringify(snapshot));
+		await this.env.KV.put(latestSnapshotKey(serverId), JSON.stringify(snapshot));
+
+		return snapshot;
+	}
+
+	/**
+	 * Make a workspace match a snapshot, creating it if the container does not have it
+	 * With keepHistory the workspace's git history stays as it is instead of being restored too
+	 */
+	private async applySnapshot(
+		containerId: string,
+		snapshot: WorkspaceSnapshot,
+		options: { keepHistory?: boolean } = {}
+	) {
+		const workspacePath = getWorkspacePath(snapshot.serverId);
+		const container = this.getContainer(containerId);
+		const restored = (path: string) => !(options.keepHistory && isHistoryPath(path));
+
+		const mkdirResult = await container.makeDirectory(workspacePath);
+		if (!mkdirResult.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to create workspace: ${mkdirResult.error}`);
+		}
+
+		// Remove what the snapshot does not have, deepest paths first
+		const listing = await container.listFiles(workspacePath, {
+			root: workspacePath,
+			recursive: true,
+			exclude: options.keepHistory ? [...SNAPSHOT_EXCLUDES, HISTORY_DIR] : SNAPSHOT_EXCLUDES
+		});
+		if (!listing.success) {
+			throw new ContainerManagerError('CONTAINER_ERROR', `Failed to list workspace: ${listing.error}`);
+		}
+
+		const keep = new Set([...Object.keys(snapshot.files), ...snapshot.directories]);
+		const extra = listing.entries
+			.filter((entry) => !keep.has(entry.path))
+			.sort((a, b) => b.path.length - a.path.length);
+		for (const entry of extra) {
+			await container.deleteFile(`${workspacePath}/${entry.path}`, { root: workspacePath, recursive: true });
+		}
+
+		for (const directory of snapshot.directories.filter(restored)) {
+			await container.makeDirectory(`${workspacePath}/${directory}`, { root: workspacePath });
+		}
+
+		for (const [path, file] of Object.entries(snapshot.files).filter(([path]) => restored(path))) {
+			const content = await this.env.KV.get(blobKey(file.hash), 'arrayBuffer');
+			if (!content) {
+				throw new Error(`Snapshot ${snapshot.id} is missing the content of ${path}`);
+			}
+
+			const writeResult = await container.writeFile(`${workspacePath}/${path}`, new Uint8Array(content), {
+				root: workspacePath
+			});
+			if (!writeResult.success) {
+				throw new ContainerManagerError('CONTAINER_ERROR', `Failed to restore ${path}: ${writeResult.error}`);
+			}
+		}
+	}
+
+	/**
+	 * A server's preview, if it ever had one
+	 */
+	private async readPreview(serverId: string) {
+		const row = await this.env.DB.prepare(`
+			SELECT * FROM server_previews WHERE server_id = ?
+		`).bind(serverId).first<PreviewRow>();
+
+		return row ? previewFromRow(row) : undefined;
+	}
+
+	/**
+	 * Record that a server's preview ended, returning when
+	 */
+	private async finishPreview(serverId: string, status: 'stopped' | 'failed', error?: string) {
+		const stoppedAt = Date.now();
+		await this.env.DB.prepare(`
+			UPDATE server_previews SET status = ?, error = ?, stopped_at = ? WHERE server_id = ?
+		`).bind(status, error ?? null, stoppedAt, serverId).run();
+
+		return stoppedAt;
+	}
+
+	/**
+	 * Get the ContainerPool Durable Object that coordinates all containers
+	 */
+	private getPool() {
+		const id = this.env.CONTAINER_POOL.idFromName('default');
+		return this.env.CONTAINER_POOL.get(id);
+	}
+
+	/**
+	 * Run work in the container that holds a server's workspace while holding its lease
+	 * The lease is claimed right away, renewed while the work runs and released afterwards, even when it fails
+	 */
+	private async withLease<T>(serverId: string, run: (lease: ContainerLease) => Promise<T>) {
+		const pool = this.getPool();
+		const lease = await pool
+			.acquire(serverId)
+			// Leases handed over after a wait are released again unless claimed
+			.then(({ leaseId }) => pool.renew(leaseId))
+			.catch((error) => {
+				// The pool only fails to lease when the container stays busy; the error class does not survive RPC
+				throw new ContainerManagerError('CONTAINER_BUSY', error instanceof Error ? error.message : String(error), {
+					serverId
+				});
+			});
+		const renewal = setInterval(() => {
+			pool.renew(lease.leaseId).catch((error) => console.error('Failed to renew container lease:', error));
+		}, LEASE_RENEW_INTERVAL_MS);
+
+		try {
+			return await run(lease);
+		} finally {
+			clearInterval(renewal);
+			await pool
+				.release(lease.leaseId)
+				.catch((error) => console.error('Failed to release container lease:', error));
+		}
+	}
+
+	/**
+	 * Change a server's workspace while holding its lease, in the container the pool assigned it
+	 * The containerId callers pass is only compared with that assignment
+	 */
+	private async withWorkspaceLease<T>(
+		containerId: string,
+		serverId: string,
+		run: (lease: ContainerLease) => Promise<T>
+	) {
+		return this.withLease(serverId, (lease) => {
+			if (lease.containerId !== containerId) {
+				console.warn(`Workspace of ${serverId} lives in ${lease.containerId}, using it instead of ${containerId}`);
+			}
+			return run(lease);
+		});
+	}
+
+	/**
+	 * Container the pool assigned a server's workspace to, for reads that need no lease
+	 * The containerId callers pass is only compared with that assignment
+	 */
+	private async assignedContainerId(containerId: string, serverId: string) {
+		const assigned = await this.getPool().getAssignment(serverId);
+
+		if (!assigned) {
+			throw new ContainerManagerError(
+				'WORKSPACE_NOT_FOUND',
+				`No container holds a workspace for ${serverId}; create it with createSDKEnvironment`,
+				{ serverId }
+			);
+		}
+		if (assigned !== containerId) {
+			console.warn(`Workspace of ${serverId} lives in ${assigned}, using it instead of ${containerId}`);
+		}
+
+		return assigned;
+	}
+
+	/**
+	 * Principal of the caller, from the props of its service binding
+	 */
+	private caller() {
+		return (this.ctx.props as CallerProps | undefined)?.principal;
+	}
+
+	private isAdmin(principal: string | undefined) {
+		return principal !== undefined && parsePrincipalList(this.env.ADMIN_PRINCIPALS).has(principal);
+	}
+
+	/**
+	 * Throw PermissionDeniedError unless the caller has access to a server
+	 * Admins can do anything, owners anything to their servers, and others what they were granted
+	 * Decisions are recorded in the audit log when an action is given; reads are not audited
+	 * IDs are validated first, so the append-only audit log never records malformed ones
+	 */
+	private async authorize(serverId: string, access: Access, audit?: AuditAction) {
+		this.assertValidTarget(serverId, audit);
+		await ensureSchema(this.env.DB);
+		const principal = this.caller();
+		let denied: string | undefined;
+
+		if (principal === undefined) {
+			denied = 'Caller has no principal';
+		} else if (!this.isAdmin(principal)) {
+			const row = await this.accessStatement(principal, serverId).first<ServerAccess>();
+			denied = this.deniedAccess(principal, serverId, access, row);
+		}
+
+		return this.decide(principal, serverId, audit, denied);
+	}
+
+	/**
+	 * Authorize creating a server, which needs write access to it unless nobody has claimed it yet
+	 * A server nobody has claimed (it has no servers row and no workspace in the pool) is claimed for
+	 * the caller, in the same batch that reads the caller's access, so a concurrent claim cannot slip between
+	 */
+	private async authorizeCreate(serverId: string, template: string, audit: AuditAction) {
+		this.assertValidTarget(serverId, audit);
+		await ensureSchema(this.env.DB);
+		const principal = this.caller();
+
+		if (principal === undefined) {
+			return this.decide(principal, serverId, audit, 'Caller has no principal');
+		}
+
+		const unassigned = (await this.getPool().getAssignment(serverId)) === undefined;
+		const [, access] = await this.env.DB.batch<ServerAccess>([
+			this.env.DB.prepare(`
+				INSERT INTO servers (id, template, owner, created_at, updated_at)
+				SELECT ?, ?, ?, ?, ?
+				WHERE ? AND NOT EXISTS (SELECT 1 FROM servers WHERE id = ?)
+			`).bind(serverId, template, principal, Date.now(), Date.now(), unassigned ? 1 : 0, serverId),
+			this.accessStatement(principal, serverId)
+		]);
+		const denied = this.isAdmin(principal)
+			? undefined
+			: this.deniedAccess(principal, serverId, 'write', access.results[0]);
+
+		return this.decide(principal, serverId, audit, denied);
+	}
+
+	/**
+	 * Query for who owns a server and what the principal was granted on it
+	 */
+	private accessStatement(principal: string, serverId: string) {
+		return this.env.DB.prepare(`
+			SELECT s.owner, g.access
+			FROM servers s
+			LEFT JOIN server_grants g ON g.server_id = s.id AND g.principal = ?
+			WHERE s.id = ?
+		`).bind(principal, serverId);
+	}
+
+	/**
+	 * Why a principal lacks access to a server, given its accessStatement row, or undefined if it has it
+	 */
+	private deniedAccess(principal: string, serverId: string, access: Access, row: ServerAccess | null | undefined) {
+		if (row?.owner !== principal && !(row?.access && accessAllows(row.access, access))) {
+			return `${principal} has no ${access} access to server ${serverId}`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Throw PermissionDeniedError unless the caller owns a server or is an admin
+	 */
+	private async authorizeOwner(serverId: string, audit?: AuditAction) {
+		this.assertValidTarget(serverId, audit);
+		await ensureSchema(this.env.DB);
+		const principal = this.caller();
+		let denied: string | undefined;
+
+		if (principal === undefined) {
+			denied = 'Caller has no principal';
+		} else if (!this.isAdmin(principal)) {
+			const row = await this.env.DB.prepare(`
+				SELECT owner FROM servers WHERE id = ?
+			`).bind(serverId).first<{ owner: string | null }>();
+
+			if (row?.owner !== principal) {
+				denied = `${principal} does not own server ${serverId}`;
+			}
+		}
+
+		return this.decide(principal, serverId, audit, denied);
+	}
+
+	/**
+	 * Throw PermissionDeniedError unless the caller is an admin, for operations on whole containers
+	 * The server, when given, is the one the decision is audited under
+	 */
+	private async authorizeAdmin(audit?: AuditAction, serverId?: string) {
+		this.assertValidTarget(serverId, audit);
+		await ensureSchema(this.env.DB);
+		const principal = this.caller();
+		const denied =
+			principal === undefined
+				? 'Caller has no principal'
+				: this.isAdmin(principal)
+					? undefined
+					: `${principal} is not an admin`;
+
+		return this.decide(principal, serverId, audit, denied);
+	}
+
+	/**
+	 * Authorize access to the server an execution belongs to
+	 * Executions without a server (commands run outside a workspace) are for admins only
+	 */
+	private async authorizeExecution(executionId: string, access: Access, audit?: AuditAction) {
+		await ensureSchema(this.env.DB);
+		const execution = await this.env.DB.prepare(`
+			SELECT server_id FROM container_executions WHERE id = ?
+		`).bind(executionId).first<{ server_id: string }>();
+
+		return execution?.server_id ? this.authorize(execution.server_id, access, audit) : this.authorizeAdmin(audit);
+	}
+
+	/**
+	 * Throw unless the server and the audited container of an authorization are well-formed IDs
+	 */
+	private assertValidTarget(serverId: string | undefined, audit: AuditAction | undefined) {
+		if (serverId !== undefined) {
+			assertValidServerId(serverId);
+		}
+		if (audit?.containerId !== undefined) {
+			assertValidContainerId(audit.containerId);
+		}
+	}
+
+	/**
+	 * Audit an authorization decision and throw if it was a denial
+	 */
+	private async decide(
+		principal: string | undefined,
+		serverId: string | undefined,
+		audit: AuditAction | undefined,
+		denied: string | undefined
+	) {
+		if (audit) {
+			await recordAudit(this.env.DB, principal, serverId, audit, denied);
+		}
+		if (denied !== undefined) {
+			throw new PermissionDeniedError(denied);
+		}
+
+		return principal as string;
+	}
+
+	/**
+	 * Get the backend of a container
+	 * Throws if the ID is malformed
+	 */
+	private getContainer(containerId: string) {
+		assertValidContainerId(containerId);
+		return this.getContainerBackend(containerId);
+	}
+
+	/**
+	 * Backend that runs commands and file operations in a container: the MyContainer Durable Object
+	 * Tests override this to run them in a local stand-in instead (see test/local-container.ts)
+	 */
+	protected getContainerBackend(containerId: string): ContainerBackend {
+		const id = this.env.MY_CONTAINER.idFromName(containerId);
+		return this.env.MY_CONTAINER.get(id);
+	}
 }
@@ -0,0 +1,498 @@
+import {
+	addBindingToConfig,
+	assertValidBinding,
+	type BindingSpec,
+	bindingEnvType,
+	type EnvMember,
+	envDeclaration,
+	sortBindings
+} from './bindings';
+import { parseDependency } from './dependencies';
+import { ContainerManagerError } from './errors';
+import { getSyntaxDiagnostics, indentSnippet, SourceEditError } from './source-editor';
+import { DEFAULT_TEMPLATE, getTemplate, getTemplateNames, personalizeWrangler, type TemplateDefinition } from './templates';
+import { generateToolCode, propertyKey, type ToolSpec, variableName } from './tool-spec';
+import { assertValidServerId } from './validation';
+
+/**
+ * How a generated server authenticates its MCP clients
+ * - none: anyone who can reach the worker may connect
+ * - bearer: requests must send the MCP_AUTH_TOKEN secret as `Authorization: Bearer <token>`
+ */
+export type AuthMode = 'none' | 'bearer';
+
+const AUTH_MODES: AuthMode[] = ['none', 'bearer'];
+
+/**
+ * Secret that bearer-authenticated servers check requests against
+ */
+export const AUTH_TOKEN_SECRET = 'MCP_AUTH_TOKEN';
+
+/**
+ * Binding of the McpAgent's Durable Object namespace in the MCP templates
+ */
+const MCP_OBJECT_BINDING = 'MCP_OBJECT';
+
+/**
+ * Workspace file the applied spec is saved to, next to the files generated from it
+ */
+export const SPEC_FILE = 'mcp-server.json';
+
+/**
+ * Template files the generated ones start from, relative to the template root
+ */
+export const TEMPLATE_BASE_FILES = ['package.json', 'wrangler.jsonc', 'worker-configuration.d.ts'] as const;
+
+export type TemplateBase = Record<(typeof TEMPLATE_BASE_FILES)[number], string>;
+
+/**
+ * Declarative description of a resource, turned into a this.server.resource(...) registration
+ */
+export interface ResourceSpec {
+	name: string;
+	/** Fixed URI of the resource, e.g. `config://app` */
+	uri: string;
+	description?: string;
+	mimeType?: string;
+	/** Body of the async read callback; `uri` is the requested URL and it must return a ReadResourceResult */
+	handler: string;
+}
+
+/**
+ * A prompt argument; prompt arguments are always strings
+ */
+export interface PromptArgumentSpec {
+	name: string;
+	description?: string;
+	optional?: boolean;
+}
+
+/**
+ * Declarative description of a prompt, turned into a this.server.prompt(...) registration
+ */
+export interface PromptSpec {
+	name: string;
+	description?: string;
+	arguments?: PromptArgumentSpec[];
+	/** Body of the async callback; arguments are destructured like tool parameters and it must return a GetPromptResult */
+	handler: string;
+}
+
+/**
+ * Manifest of a whole MCP server, from which scaffoldServer generates its workspace
+ */
+export interface ServerSpec {
+	/** Server ID: the worker name and the McpServer's name */
+	name: string;
+	description?: string;
+	/** An MCP template (remote-mcp-authless by default) */
+	template?: string;
+	tools?: ToolSpec[];
+	resources?: ResourceSpec[];
+	prompts?: PromptSpec[];
+	bindings?: BindingSpec[];
+	auth?: AuthMode;
+	/** `name` or `name@range`; without a range any version (`*`) is declared */
+	dependencies?: string[];
+}
+
+/**
+ * A spec with its defaults filled in and its keys in a fixed order
+ */
+export type NormalizedServerSpec = Required<Omit<ServerSpec, 'description'>> & Pick<ServerSpec, 'description'>;
+
+const CAPABILITY_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const invalid = (message: string) => new ContainerManagerError('INVALID_ARGUMENT', message);
+
+/**
+ * An optional list field of the spec, defaulting to empty
+ */
+function listField<T>(spec: ServerSpec, field: keyof ServerSpec): T[] {
+	const value = spec[field];
+	if (value === undefined) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		throw invalid(`Spec field '${field}' must be an array`);
+	}
+
+	return value as T[];
+}
+
+/**
+ * Throw unless value is a string (or, when optional, undefined)
+ */
+function assertString(value: unknown, what: string, optional = false) {
+	if ((value !== undefined || !optional) && typeof value !== 'string') {
+		throw invalid(`${what} must be a string`);
+	}
+}
+
+/**
+ * Throw if a list names the same thing twice
+ */
+function assertUnique(values: string[], what: string) {
+	const seen = new Set<string>();
+	for (const value of values) {
+		if (seen.has(value)) {
+			throw invalid(`Duplicate ${what} '${value}'`);
+		}
+		seen.add(value);
+	}
+}
+
+function assertValidCapability(kind: string, capability: { name?: unknown; handler?: unknown; description?: unknown }) {
+	if (!capability || typeof capability !== 'object') {
+		throw invalid(`Each ${kind} must be an object`);
+	}
+	if (typeof capability.name !== 'string' || !CAPABILITY_NAME_PATTERN.test(capability.name)) {
+		throw invalid(`Invalid ${kind} name ${JSON.stringify(capability.name)}: use 1-64 letters, digits, '_' or '-'`);
+	}
+	if (typeof capability.handler !== 'string' || !capability.handler.trim()) {
+		throw invalid(`${kind.charAt(0).toUpperCase()}${kind.slice(1)} '${capability.name}' needs a handler body`);
+	}
+	assertString(capability.description, `Description of ${kind} '${capability.name}'`, true);
+}
+
+function validateResource(resource: ResourceSpec) {
+	assertValidCapability('resource', resource);
+	assertString(resource.mimeType, `MIME type of resource '${resource.name}'`, true);
+
+	if (typeof resource.uri !== 'string' || !URL.canParse(resource.uri)) {
+		throw invalid(`Resource '${resource.name}' needs an absolute URI such as config://app`);
+	}
+}
+
+function validatePrompt(prompt: PromptSpec) {
+	assertValidCapability('prompt', prompt);
+	if (prompt.arguments !== undefined && !Array.isArray(prompt.arguments)) {
+		throw invalid(`Arguments of prompt '${prompt.name}' must be an array`);
+	}
+
+	for (const argument of prompt.arguments ?? []) {
+		if (!argument || typeof argument.name !== 'string' || !argument.name) {
+			throw invalid(`Prompt '${prompt.name}' has an argument without a name`);
+		}
+		assertString(argument.description, `Description of argument '${argument.name}'`, true);
+	}
+	assertUnique(
+		(prompt.arguments ?? []).map((argument) => argument.name),
+		`argument of prompt '${prompt.name}':`
+	);
+	assertUnique(
+		(prompt.arguments ?? []).map((argument) => variableName(argument.name)),
+		`variable in prompt '${prompt.name}':`
+	);
+}
+
+/**
+ * Check a server spec and return it normalized
+ * Every problem is reported as INVALID_ARGUMENT before anything is generated
+ */
+export function validateServerSpec(spec: ServerSpec): NormalizedServerSpec {
+	if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+		throw invalid('Server spec must be an object');
+	}
+
+	assertValidServerId(spec.name);
+	assertString(spec.description, 'Server description', true);
+
+	const template = spec.template ?? DEFAULT_TEMPLATE;
+	assertString(template, 'Template');
+	if (!getTemplate(template).mcpAgent) {
+		throw invalid(`Template '${template}' is not an MCP server template; scaffoldServer needs one with an McpAgent`);
+	}
+
+	const auth = spec.auth ?? 'none';
+	if (!AUTH_MODES.includes(auth)) {
+		throw invalid(`Invalid auth mode ${JSON.stringify(auth)}. Valid modes: ${AUTH_MODES.join(', ')}`);
+	}
+
+	const tools = listField<ToolSpec>(spec, 'tools');
+	for (const tool of tools) {
+		generateToolCode(tool);
+	}
+	assertUnique(
+		tools.map((tool) => tool.name),
+		'tool'
+	);
+
+	const resources = listField<ResourceSpec>(spec, 'resources');
+	for (const resource of resources) {
+		validateResource(resource);
+	}
+	assertUnique(
+		resources.map((resource) => resource.name),
+		'resource'
+	);
+	assertUnique(
+		resources.map((resource) => resource.uri),
+		'resource URI'
+	);
+
+	const prompts = listField<PromptSpec>(spec, 'prompts');
+	for (const prompt of prompts) {
+		validatePrompt(prompt);
+	}
+	assertUnique(
+		prompts.map((prompt) => prompt.name),
+		'prompt'
+	);
+
+	const bindings = listField<BindingSpec>(spec, 'bindings');
+	for (const binding of bindings) {
+		assertValidBinding(binding);
+		if (binding.name === MCP_OBJECT_BINDING || binding.name === AUTH_TOKEN_SECRET) {
+			throw invalid(`Binding name '${binding.name}' is reserved for the generated server`);
+		}
+		// The generated entry file defines no classes besides the McpAgent
+		if (binding.type === 'durable_object' && !binding.scriptName) {
+			throw invalid(`Durable Object binding '${binding.name}' needs the scriptName of the worker defining it`);
+		}
+	}
+	assertUnique(
+		bindings.map((binding) => binding.name),
+		'binding'
+	);
+	if (bindings.filter((binding) => binding.type === 'ai').length > 1) {
+		throw invalid('A worker can have only one ai binding');
+	}
+
+	const dependencies = listField<string>(spec, 'dependencies');
+	assertUnique(
+		dependencies.map((dependency) => parseDependency(dependency).name),
+		'dependency'
+	);
+
+	return {
+		name: spec.name,
+		...(spec.description !== undefined ? { description: spec.description } : {}),
+		template,
+		auth,
+		tools,
+		resources,
+		prompts,
+		bindings,
+		dependencies
+	};
+}
+
+/**
+ * Generate the this.server.resource(...) registration for a spec, indented from column 0
+ */
+function generateResourceCode(resource: ResourceSpec) {
+	const args = [JSON.stringify(resource.name), JSON.stringify(resource.uri)];
+
+	const metadata = Object.entries({ description: resource.description, mimeType: resource.mimeType }).filter(
+		([, value]) => value !== undefined
+	);
+	if (metadata.length > 0) {
+		args.push(`{ ${metadata.map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')} }`);
+	}
+
+	args.push(`async (uri) => {\n${indentSnippet(resource.handler, '\t\t')}\n\t}`);
+
+	return `this.server.resource(\n${args.map((arg) => `\t${arg},`).join('\n')}\n);`;
+}
+
+/**
+ * Generate the this.server.prompt(...) registration for a spec, indented from column 0
+ */
+function generatePromptCode(prompt: PromptSpec) {
+	const args = [JSON.stringify(prompt.name)];
+	const parameters = prompt.arguments ?? [];
+
+	if (prompt.description) {
+		args.push(JSON.stringify(prompt.description));
+	}
+
+	if (parameters.length > 0) {
+		const shape = parameters.map(({ name, description, optional }) => {
+			let zod = 'z.string()';
+			if (description) {
+				zod += `.describe(${JSON.stringify(description)})`;
+			}
+			if (optional) {
+				zod += '.optional()';
+			}
+			return `\t\t${propertyKey(name)}: ${zod},`;
+		});
+		args.push(`{\n${shape.join('\n')}\n\t}`);
+	}
+
+	const bindings = parameters.map(({ name }) => {
+		const variable = variableName(name);
+		return variable === name ? name : `${propertyKey(name)}: ${variable}`;
+	});
+	const handlerArgs = bindings.length > 0 ? `{ ${bindings.join(', ')} }` : '';
+
+	args.push(`async (${handlerArgs}) => {\n${indentSnippet(prompt.handler, '\t\t')}\n\t}`);
+
+	return `this.server.prompt(\n${args.map((arg) => `\t${arg},`).join('\n')}\n);`;
+}
+
+/**
+ * The server's entry file: the McpAgent with every registration in spec order, and the fetch handler
+ */
+function generateEntryFile(spec: NormalizedServerSpec, className: string) {
+	const registrations = [
+		...spec.tools.map(generateToolCode),
+		...spec.resources.map(generateResourceCode),
+		...spec.prompts.map(generatePromptCode)
+	];
+
+	const imports = [
+		'import { McpAgent } from "agents/mcp";',
+		'import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";',
+		// Only import zod when a schema or handler uses it, so the server lints clean
+		...(registrations.some((code) => /\bz\./.test(code)) ? ['import { z } from "zod";'] : [])
+	];
+
+	const classComment = spec.description
+		? ['/**', ...spec.description.split('\n').map((line) => ` * ${line}`.trimEnd()), ' */']
+		: [];
+
+	const init =
+		registrations.length > 0
+			? registrations.map((code) => indentSnippet(code, '\t\t')).join('\n\n')
+			: `\t\t// Add tools, resources and prompts to ${SPEC_FILE}`;
+
+	const auth =
+		spec.auth === 'bearer'
+			? [
+					'',
+					`\t\t// Every request must carry the ${AUTH_TOKEN_SECRET} secret as a bearer token`,
+					`\t\tconst token = env.${AUTH_TOKEN_SECRET};`,
+					`\t\tif (!token || request.headers.get("Authorization") !== \`Bearer \${token}\`) {`,
+					'\t\t\treturn new Response("Unauthorized", {',
+					'\t\t\t\tstatus: 401,',
+					'\t\t\t\theaders: { "WWW-Authenticate": "Bearer" },',
+					'\t\t\t});',
+					'\t\t}'
+				]
+			: [];
+
+	return [
+		`// Generated by scaffoldServer from ${SPEC_FILE}: change the spec and apply it again instead of editing this file`,
+		...imports,
+		'',
+		...classComment,
+		`export class ${className} extends McpAgent {`,
+		'\tserver = new McpServer({',
+		`\t\tname: ${JSON.stringify(spec.name)},`,
+		'\t\tversion: "1.0.0",',
+		'\t});',
+		'',
+		'\tasync init() {',
+		init,
+		'\t}',
+		'}',
+		'',
+		'export default {',
+		'\tfetch(request: Request, env: Env, ctx: ExecutionContext) {',
+		'\t\tconst url = new URL(request.url);',
+		...auth,
+		'',
+		'\t\tif (url.pathname === "/sse" || url.pathname === "/sse/message") {',
+		`\t\t\treturn ${className}.serveSSE("/sse").fetch(request, env, ctx);`,
+		'\t\t}',
+		'',
+		'\t\tif (url.pathname === "/mcp") {',
+		`\t\t\treturn ${className}.serve("/mcp").fetch(request, env, ctx);`,
+		'\t\t}',
+		'',
+		'\t\treturn new Response("Not found", { status: 404 });',
+		'\t},',
+		'};',
+		''
+	].join('\n');
+}
+
+/**
+ * The template's wrangler config, personalized, with the spec's bindings added in sorted order
+ */
+function generateWranglerConfig(
+	spec: NormalizedServerSpec,
+	definition: TemplateDefinition,
+	base: string,
+	names: ReturnType<typeof getTemplateNames>
+) {
+	const config = sortBindings(spec.bindings).reduce(
+		(text, binding) => addBindingToConfig(text, binding, definition.wranglerFile),
+		personalizeWrangler(definition, base, names)
+	);
+
+	return config.endsWith('\n') ? config : `${config}\n`;
+}
+
+/**
+ * The template's package.json, named after the server, with the spec's dependencies added
+ * Dependencies are sorted so that adding or removing one changes one line
+ */
+function generatePackageJson(spec: NormalizedServerSpec, base: string) {
+	const manifest = JSON.parse(base) as Record<string, unknown> & { dependencies?: Record<string, string> };
+	const dependencies: Record<string, string> = { ...manifest.dependencies };
+	for (const { name, range } of spec.dependencies.map(parseDependency)) {
+		dependencies[name] = range ?? '*';
+	}
+
+	const rest: Record<string, unknown> = { ...manifest, dependencies };
+	delete rest.name;
+	delete rest.description;
+
+	const generated = {
+		name: spec.name,
+		...(spec.description !== undefined ? { description: spec.description } : {}),
+		...rest,
+		dependencies: Object.fromEntries(Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b)))
+	};
+
+	return `${JSON.stringify(generated, null, '\t')}\n`;
+}
+
+/**
+ * The template's worker-configuration.d.ts with an Env for the spec's bindings
+ * Only the Env declarations are replaced; the runtime types after them are kept
+ */
+function generateWorkerTypes(spec: NormalizedServerSpec, base: string, className: string) {
+	const members: EnvMember[] = [
+		{ name: MCP_OBJECT_BINDING, type: `DurableObjectNamespace<import("./src/index").${className}>` },
+		...sortBindings(spec.bindings).map((binding) => ({ name: binding.name, type: bindingEnvType(binding) })),
+		...(spec.auth === 'bearer' ? [{ name: AUTH_TOKEN_SECRET, type: 'string' }] : [])
+	];
+
+	const marker = base.indexOf('// Begin runtime types');
+	const runtimeTypes = marker === -1 ? base : base.slice(marker);
+
+	return `// Env generated by scaffoldServer from ${SPEC_FILE}\n${envDeclaration(members)}\n\n${runtimeTypes}`;
+}
+
+/**
+ * Generate every file of a server's workspace from its spec, keyed by workspace-relative path
+ * Output depends only on the spec and the template, so applying the same spec twice writes
+ * the same bytes, and editing one tool, binding or dependency changes only its lines
+ */
+export function generateServerFiles(spec: NormalizedServerSpec, base: TemplateBase): Record<string, string> {
+	const definition = getTemplate(spec.template);
+	const names = getTemplateNames(definition, spec.name);
+	const [className] = Object.values(names.classes);
+
+	const entry = generateEntryFile(spec, className);
+	const [diagnostic, ...rest] = getSyntaxDiagnostics(entry, definition.entryFile);
+	if (diagnostic) {
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Generated ${definition.entryFile} does not parse: ${diagnostic.message} (line ${diagnostic.line}, column ${diagnostic.column}); check the handlers in the spec`,
+			[diagnostic, ...rest]
+		);
+	}
+
+	return {
+		[SPEC_FILE]: `${JSON.stringify(spec, null, '\t')}\n`,
+		'package.json': generatePackageJson(spec, base['package.json']),
+		[definition.entryFile]: entry,
+		'worker-configuration.d.ts': generateWorkerTypes(spec, base['worker-configuration.d.ts'], className),
+		'wrangler.jsonc': generateWranglerConfig(spec, definition, base['wrangler.jsonc'], names)
+	};
+}
@@ -0,0 +1,33 @@
+import { ContainerManagerError } from './errors';
+
+/**
+ * Arguments made only of these characters need no quoting in sh
+ */
+const SAFE_ARGUMENT = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/**
+ * Quote one argument for sh
+ * Anything beyond plain words is single-quoted, with embedded quotes written as '\''
+ */
+export function quoteShellArg(arg: string) {
+	if (arg.includes('\0')) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', 'Command arguments must not contain NUL bytes');
+	}
+	if (SAFE_ARGUMENT.test(arg)) {
+		return arg;
+	}
+
+	return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Build a shell command line from an argv array, e.g. shellCommand(['npm', 'install', name])
+ * Every argument reaches the program as-is: no word splitting, globbing or substitution
+ */
+export function shellCommand(argv: string[]) {
+	if (argv.length === 0) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', 'A command needs at least one argument');
+	}
+
+	return argv.map(quoteShellArg).join(' ');
+}
@@ -0,0 +1,76 @@
+import { hashSourceManifest, SOURCE_EXCLUDES } from './builds';
+import { HISTORY_DIR } from './workspace-history';
+
+/**
+ * Workspace paths left out of snapshots; they are rebuilt (npm install, wrangler) rather than restored
+ * Unlike builds, snapshots keep the git history, so it survives the container losing the workspace
+ */
+export const SNAPSHOT_EXCLUDES = SOURCE_EXCLUDES.filter((pattern) => pattern !== `**/${HISTORY_DIR}`);
+
+/**
+ * KV key of a snapshotted file's content, by content hash
+ * Files with the same content share one entry across snapshots and servers
+ */
+export const blobKey = (hash: string) => `workspace-blob:${hash}`;
+
+/**
+ * KV key of one snapshot of a server's workspace
+ */
+export const snapshotKey = (serverId: string, snapshotId: string) => `workspace-snapshot:${serverId}:${snapshotId}`;
+
+/**
+ * KV key of the latest snapshot of a server's workspace, which cold-started containers restore
+ */
+export const latestSnapshotKey = (serverId: string) => `workspace-snapshot:${serverId}:latest`;
+
+/**
+ * A file in a snapshot
+ * Size and mtime let the next snapshot reuse the hash of files that did not change
+ */
+export interface SnapshotFile {
+	hash: string;
+	size: number;
+	mtime: number;
+}
+
+/**
+ * The contents of a workspace at one point in time
+ */
+export interface WorkspaceSnapshot {
+	/** Hash of the file manifest and directories; identical workspaces share an ID */
+	id: string;
+	serverId: string;
+	/** Workspace-relative path → file */
+	files: Record<string, SnapshotFile>;
+	/** Workspace-relative directories, so empty ones are restored too */
+	directories: string[];
+	createdAt: number;
+}
+
+/**
+ * ID of a snapshot with these files and directories
+ */
+export function snapshotId(files: Record<string, SnapshotFile>, directories: string[]) {
+	const manifest: Record<string, string> = {};
+
+	for (const [path, file] of Object.entries(files)) {
+		manifest[path] = file.hash;
+	}
+	for (const directory of directories) {
+		manifest[`${directory}/`] = 'directory';
+	}
+
+	return hashSourceManifest(manifest);
+}
+
+/**
+ * Summary of a snapshot for RPC results
+ */
+export function describeSnapshot(snapshot: WorkspaceSnapshot) {
+	return {
+		snapshotId: snapshot.id,
+		files: Object.keys(snapshot.files).length,
+		bytes: Object.values(snapshot.files).reduce((total, file) => total + file.size, 0),
+		createdAt: snapshot.createdAt
+	};
+}
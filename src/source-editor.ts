@@ -0,0 +1,565 @@
+import ts from 'typescript';
+import { ContainerManagerError, type ErrorCode } from './errors';
+
+/**
+ * Kinds of MCP capabilities a generated server registers in init()
+ */
+export type CapabilityKind = 'tool' | 'resource' | 'prompt';
+
+/**
+ * McpServer methods that register each kind of capability
+ */
+const REGISTRATION_METHODS: Record<CapabilityKind, string[]> = {
+	tool: ['tool', 'registerTool'],
+	resource: ['resource', 'registerResource'],
+	prompt: ['prompt', 'registerPrompt']
+};
+
+/**
+ * A syntax problem located in the code being edited (1-based line and column)
+ */
+export interface SourceDiagnostic {
+	line: number;
+	column: number;
+	message: string;
+}
+
+/**
+ * Thrown when a source edit cannot be applied
+ * Carries diagnostics when the failure is a syntax error in the inserted code
+ */
+export class SourceEditError extends ContainerManagerError {
+	constructor(
+		code: ErrorCode,
+		message: string,
+		public diagnostics: SourceDiagnostic[] = []
+	) {
+		super(code, message, diagnostics.length > 0 ? { diagnostics } : undefined);
+		this.name = 'SourceEditError';
+	}
+}
+
+/**
+ * A this.server.tool/resource/prompt(...) call found in source
+ */
+export interface Registration {
+	kind: CapabilityKind;
+	/** Name of the McpServer method, e.g. `tool` or `registerTool` */
+	method: string;
+	/** First argument when it is a string literal */
+	name?: string;
+	call: ts.CallExpression;
+	/** The whole statement containing the call */
+	statement: ts.Statement;
+}
+
+/**
+ * Parse TypeScript source with parent pointers set
+ */
+export function parseSource(text: string, fileName = 'index.ts') {
+	return ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Syntax errors in a piece of TypeScript source
+ * lineOffset is subtracted from reported lines when the text was wrapped before checking
+ */
+export function getSyntaxDiagnostics(text: string, fileName = 'index.ts', lineOffset = 0): SourceDiagnostic[] {
+	const result = ts.transpileModule(text, {
+		fileName,
+		reportDiagnostics: true,
+		compilerOptions: { target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext }
+	});
+
+	return (result.diagnostics ?? []).map((diagnostic) => {
+		const { line, character } =
+			diagnostic.file && diagnostic.start !== undefined
+				? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+				: { line: lineOffset, character: 0 };
+
+		return {
+			line: line + 1 - lineOffset,
+			column: character + 1,
+			message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+		};
+	});
+}
+
+/**
+ * Find the class that extends McpAgent (e.g. `class MyMCP extends McpAgent`)
+ */
+export function findMcpAgentClass(sourceFile: ts.SourceFile) {
+	for (const statement of sourceFile.statements) {
+		if (!ts.isClassDeclaration(statement)) {
+			continue;
+		}
+
+		const extendsMcpAgent = statement.heritageClauses?.some(
+			(clause) =>
+				clause.token === ts.SyntaxKind.ExtendsKeyword &&
+				clause.types.some((type) => type.expression.getText(sourceFile) === 'McpAgent')
+		);
+
+		if (extendsMcpAgent) {
+			return statement;
+		}
+	}
+
+	throw new SourceEditError('INIT_NOT_FOUND', 'No class extending McpAgent found in source');
+}
+
+/**
+ * Find the init() method of the McpAgent subclass
+ */
+export function findInitMethod(sourceFile: ts.SourceFile) {
+	const agentClass = findMcpAgentClass(sourceFile);
+
+	for (const member of agentClass.members) {
+		if (
+			ts.isMethodDeclaration(member) &&
+			member.name.getText(sourceFile) === 'init' &&
+			member.body
+		) {
+			return member as ts.MethodDeclaration & { body: ts.Block };
+		}
+	}
+
+	throw new SourceEditError(
+		'INIT_NOT_FOUND',
+		`Could not find init() method in class ${agentClass.name?.text ?? '(anonymous)'}`
+	);
+}
+
+/**
+ * Kind of capability registered by a call, if it is a `server.<method>(...)` registration
+ */
+function registrationKind(call: ts.CallExpression): CapabilityKind | undefined {
+	const callee = call.expression;
+
+	if (!ts.isPropertyAccessExpression(callee)) {
+		return undefined;
+	}
+
+	const receiver = callee.expression;
+	const isServer =
+		(ts.isIdentifier(receiver) && receiver.text === 'server') ||
+		(ts.isPropertyAccessExpression(receiver) && receiver.name.text === 'server');
+
+	if (!isServer) {
+		return undefined;
+	}
+
+	return (Object.keys(REGISTRATION_METHODS) as CapabilityKind[]).find((kind) =>
+		REGISTRATION_METHODS[kind].includes(callee.name.text)
+	);
+}
+
+/**
+ * Find every capability registration below a node
+ */
+export function findRegistrations(node: ts.Node): Registration[] {
+	const registrations: Registration[] = [];
+
+	const visit = (child: ts.Node) => {
+		if (ts.isCallExpression(child)) {
+			const kind = registrationKind(child);
+
+			if (kind) {
+				const [first] = child.arguments;
+				let statement: ts.Node = child;
+				while (statement.parent && !ts.isBlock(statement.parent) && !ts.isSourceFile(statement.parent)) {
+					statement = statement.parent;
+				}
+
+				registrations.push({
+					kind,
+					method: (child.expression as ts.PropertyAccessExpression).name.text,
+					name: first && ts.isStringLiteralLike(first) ? first.text : undefined,
+					call: child,
+					statement: statement as ts.Statement
+				});
+			}
+		}
+
+		ts.forEachChild(child, visit);
+	};
+
+	visit(node);
+	return registrations;
+}
+
+/**
+ * Leading whitespace of the line containing a position
+ */
+export function lineIndentAt(text: string, position: number) {
+	const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+	return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? '';
+}
+
+/**
+ * Re-indent a snippet to sit at the given indentation
+ * The snippet's own relative indentation is kept. A first line without indentation
+ * followed by indented lines (as when code is cut from a method body) is aligned on
+ * its closing line.
+ */
+export function indentSnippet(snippet: string, indent: string) {
+	const lines = snippet.replace(/\s+$/, '').replace(/^\s*\n/, '').split('\n');
+	const nonEmpty = lines.filter((line) => line.trim());
+	const indentOf = (line: string) => /^[ \t]*/.exec(line)?.[0] ?? '';
+
+	const base = nonEmpty.reduce<string | undefined>((common, line) => {
+		const lineIndent = indentOf(line);
+		if (common === undefined) {
+			return lineIndent;
+		}
+		let i = 0;
+		while (i < common.length && i < lineIndent.length && common[i] === lineIndent[i]) {
+			i++;
+		}
+		return common.slice(0, i);
+	}, undefined) ?? '';
+
+	let rest = '';
+	const last = nonEmpty[nonEmpty.length - 1];
+	if (base === '' && nonEmpty.length > 1 && /^[ \t]*[)}\]]/.test(last)) {
+		rest = indentOf(last);
+	}
+
+	return lines
+		.map((line, index) => {
+			if (!line.trim()) {
+				return '';
+			}
+			const strip = index === 0 ? base : base || rest;
+			return indent + (line.startsWith(strip) ? line.slice(strip.length) : line.trimStart());
+		})
+		.join('\n');
+}
+
+/**
+ * Indentation used for statements in init(), derived from the surrounding code
+ */
+function initBodyIndent(text: string, init: ts.MethodDeclaration & { body: ts.Block }) {
+	const [first] = init.body.statements;
+
+	if (first) {
+		return lineIndentAt(text, first.getStart());
+	}
+
+	// No statements, but maybe a comment such as "// Add your tools here"
+	const bodyText = text.slice(init.body.getStart() + 1, init.body.getEnd() - 1);
+	const firstContent = bodyText.search(/\S/);
+	if (firstContent !== -1 && bodyText.lastIndexOf('\n', firstContent) !== -1) {
+		return lineIndentAt(text, init.body.getStart() + 1 + firstContent);
+	}
+
+	const methodIndent = lineIndentAt(text, init.getStart());
+	return methodIndent + (methodIndent.startsWith('\t') || methodIndent === '' ? '\t' : methodIndent);
+}
+
+/**
+ * Check a snippet meant for a method body, throwing with diagnostics if it does not parse
+ */
+function assertSnippetParses(snippet: string) {
+	// Wrap so that `this`, `await` and `return` parse as they would inside init()
+	const prefix = 'class __Snippet {\n\tasync init() {\n';
+	const suffix = '\n\t}\n}\n';
+	const wrapped = `${prefix}${snippet}${suffix}`;
+	const diagnostics = getSyntaxDiagnostics(wrapped, 'snippet.ts', 2);
+
+	if (diagnostics.length > 0) {
+		const [first] = diagnostics;
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Inserted code does not parse: ${first.message} (line ${first.line}, column ${first.column})`,
+			diagnostics
+		);
+	}
+
+	// Code such as `} evil() {` parses too, by closing init() and opening another member:
+	// the wrapper must still be one class whose only member is an init() spanning the snippet
+	const snippetFile = parseSource(wrapped, 'snippet.ts');
+	const [wrapper, ...rest] = snippetFile.statements;
+	const init =
+		wrapper && ts.isClassDeclaration(wrapper) && wrapper.members.length === 1 ? wrapper.members[0] : undefined;
+
+	if (
+		rest.length > 0 ||
+		!init ||
+		!ts.isMethodDeclaration(init) ||
+		!init.body ||
+		init.body.getStart(snippetFile) !== prefix.length - 2 ||
+		init.body.getEnd() !== wrapped.length - '\n}\n'.length
+	) {
+		throw new SourceEditError('INVALID_SOURCE', 'Inserted code must stay inside init(): it closes the method body');
+	}
+
+	return snippetFile;
+}
+
+/**
+ * Insert a registration snippet at the end of the McpAgent subclass's init() method
+ * Rejects snippets that do not parse and registrations whose names already exist
+ * Only the inserted text changes; the rest of the file keeps its formatting
+ */
+export function insertIntoInit(source: string, kind: CapabilityKind, snippet: string, name?: string) {
+	const snippetFile = assertSnippetParses(snippet);
+	const sourceFile = parseSource(source);
+	const init = findInitMethod(sourceFile);
+
+	const existing = new Set(
+		findRegistrations(init.body)
+			.filter((registration) => registration.kind === kind && registration.name)
+			.map((registration) => registration.name)
+	);
+	const added = findRegistrations(snippetFile)
+		.filter((registration) => registration.kind === kind && registration.name)
+		.map((registration) => registration.name as string);
+
+	if (name && !added.includes(name)) {
+		added.push(name);
+	}
+
+	for (const addedName of added) {
+		if (existing.has(addedName)) {
+			throw new SourceEditError(
+				'CAPABILITY_EXISTS',
+				`A ${kind} named '${addedName}' is already registered in init()`
+			);
+		}
+	}
+
+	if (new Set(added).size !== added.length) {
+		throw new SourceEditError('INVALID_SOURCE', `Inserted code registers the same ${kind} name more than once`);
+	}
+
+	const indented = indentSnippet(snippet, initBodyIndent(source, init));
+	const openBrace = init.body.getStart();
+	const closeBrace = init.body.getEnd() - 1;
+	// Insert after the last statement or comment in the body, before the closing brace
+	const contentEnd = openBrace + 1 + source.slice(openBrace + 1, closeBrace).trimEnd().length;
+	let updated: string;
+
+	if (contentEnd > openBrace + 1) {
+		updated = `${source.slice(0, contentEnd)}\n\n${indented}${source.slice(contentEnd)}`;
+	} else {
+		const methodIndent = lineIndentAt(source, init.getStart());
+		updated = `${source.slice(0, openBrace)}{\n${indented}\n${methodIndent}}${source.slice(closeBrace + 1)}`;
+	}
+
+	const diagnostics = getSyntaxDiagnostics(updated);
+	if (diagnostics.length > 0) {
+		const [first] = diagnostics;
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Edited file does not parse: ${first.message} (line ${first.line}, column ${first.column})`,
+			diagnostics
+		);
+	}
+
+	return updated;
+}
+
+/**
+ * Remove registration statements from init(), together with their leading comments
+ * Returns the edited source and the registrations that were removed
+ */
+export function removeRegistrations(source: string, shouldRemove: (registration: Registration) => boolean) {
+	const sourceFile = parseSource(source);
+	const init = findInitMethod(sourceFile);
+	const statements = new Set(
+		findRegistrations(init.body)
+			.filter(shouldRemove)
+			.map((registration) => registration.statement)
+	);
+
+	// Splice from the end so earlier positions stay valid
+	let updated = source;
+	for (const statement of [...statements].sort((a, b) => b.getStart() - a.getStart())) {
+		updated = updated.slice(0, statement.getFullStart()) + updated.slice(statement.getEnd());
+	}
+
+	return {
+		source: updated,
+		removed: findRegistrations(init.body).filter((registration) => statements.has(registration.statement))
+	};
+}
+
+/**
+ * Find the registration of a named capability in init(), throwing if it is missing
+ */
+function findNamedRegistration(init: ts.MethodDeclaration & { body: ts.Block }, kind: CapabilityKind, name: string) {
+	const registration = findRegistrations(init.body).find(
+		(candidate) => candidate.kind === kind && candidate.name === name
+	);
+
+	if (!registration) {
+		throw new SourceEditError('CAPABILITY_NOT_FOUND', `No ${kind} named '${name}' is registered in init()`);
+	}
+
+	return registration;
+}
+
+/**
+ * Replace the registration of a named capability with new code
+ * The new code is indented like the statement it replaces and keeps that statement's
+ * leading comments. It may rename the capability, as long as the new name is free.
+ */
+export function replaceRegistration(source: string, kind: CapabilityKind, name: string, snippet: string) {
+	const snippetFile = assertSnippetParses(snippet);
+	const sourceFile = parseSource(source);
+	const init = findInitMethod(sourceFile);
+	const { statement } = findNamedRegistration(init, kind, name);
+
+	const replacements = findRegistrations(snippetFile).filter((registration) => registration.kind === kind);
+	if (replacements.length !== 1) {
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Replacement code must register exactly one ${kind}, found ${replacements.length}`
+		);
+	}
+
+	const newName = replacements[0].name;
+	if (newName && newName !== name) {
+		const taken = findRegistrations(init.body).some(
+			(registration) => registration.kind === kind && registration.name === newName
+		);
+		if (taken) {
+			throw new SourceEditError(
+				'CAPABILITY_EXISTS',
+				`A ${kind} named '${newName}' is already registered in init()`
+			);
+		}
+	}
+
+	const indent = lineIndentAt(source, statement.getStart());
+	const indented = indentSnippet(snippet, indent).slice(indent.length);
+	const updated = source.slice(0, statement.getStart()) + indented + source.slice(statement.getEnd());
+
+	const diagnostics = getSyntaxDiagnostics(updated);
+	if (diagnostics.length > 0) {
+		const [first] = diagnostics;
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Edited file does not parse: ${first.message} (line ${first.line}, column ${first.column})`,
+			diagnostics
+		);
+	}
+
+	return updated;
+}
+
+/**
+ * Remove the registration of a named capability from init(), throwing if it is missing
+ */
+export function removeRegistration(source: string, kind: CapabilityKind, name: string) {
+	findNamedRegistration(findInitMethod(parseSource(source)), kind, name);
+
+	return removeRegistrations(
+		source,
+		(registration) => registration.kind === kind && registration.name === name
+	).source;
+}
+
+/**
+ * Make sure `name` is imported from a module, e.g. ensureNamedImport(source, 'zod', 'z')
+ * Extends an existing import from the module or adds a new one after the last import
+ */
+export function ensureNamedImport(source: string, moduleName: string, name: string) {
+	const sourceFile = parseSource(source);
+	const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+
+	for (const declaration of imports) {
+		if (!ts.isStringLiteral(declaration.moduleSpecifier) || declaration.moduleSpecifier.text !== moduleName) {
+			continue;
+		}
+
+		const bindings = declaration.importClause?.namedBindings;
+		if (bindings && ts.isNamespaceImport(bindings) && bindings.name.text === name) {
+			return source;
+		}
+		if (bindings && ts.isNamedImports(bindings)) {
+			if (bindings.elements.some((element) => element.name.text === name)) {
+				return source;
+			}
+			if (!declaration.importClause?.isTypeOnly) {
+				const last = bindings.elements[bindings.elements.length - 1];
+				const position = last ? last.getEnd() : bindings.getStart() + 1;
+				const insertion = last ? `, ${name}` : ` ${name} `;
+				return source.slice(0, position) + insertion + source.slice(position);
+			}
+		}
+	}
+
+	// Match the quote style of the existing imports
+	const quote = imports[0]?.moduleSpecifier.getText(sourceFile).startsWith("'") ? "'" : '"';
+	const statement = `import { ${name} } from ${quote}${moduleName}${quote};`;
+	const lastImport = imports[imports.length - 1];
+
+	if (lastImport) {
+		return `${source.slice(0, lastImport.getEnd())}\n${statement}${source.slice(lastImport.getEnd())}`;
+	}
+
+	return `${statement}\n${source}`;
+}
+
+/**
+ * Rename identifiers throughout a file, e.g. { MyMCP: 'WeatherMCP' }
+ * Only identifiers are touched, so strings and comments mentioning the old names stay as they are
+ */
+export function renameIdentifiers(source: string, renames: Record<string, string>, fileName = 'index.ts') {
+	const sourceFile = parseSource(source, fileName);
+	const names = new Map(Object.entries(renames));
+	const positions: { start: number; end: number; name: string }[] = [];
+
+	const visit = (node: ts.Node) => {
+		const name = ts.isIdentifier(node) ? names.get(node.text) : undefined;
+		if (name) {
+			positions.push({ start: node.getStart(sourceFile), end: node.getEnd(), name });
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+
+	let updated = source;
+	for (const { start, end, name } of positions.sort((a, b) => b.start - a.start)) {
+		updated = updated.slice(0, start) + name + updated.slice(end);
+	}
+
+	return updated;
+}
+
+/**
+ * Set the `name` passed to `new McpServer({ name, version })`
+ */
+export function setMcpServerName(source: string, name: string) {
+	const sourceFile = parseSource(source);
+	let property: ts.PropertyAssignment | undefined;
+
+	const visit = (node: ts.Node) => {
+		if (
+			ts.isNewExpression(node) &&
+			node.expression.getText(sourceFile) === 'McpServer' &&
+			node.arguments?.[0] &&
+			ts.isObjectLiteralExpression(node.arguments[0])
+		) {
+			property = node.arguments[0].properties
+				.filter(ts.isPropertyAssignment)
+				.find((candidate) => candidate.name.getText(sourceFile) === 'name');
+		}
+		if (!property) {
+			ts.forEachChild(node, visit);
+		}
+	};
+	visit(sourceFile);
+
+	if (!property) {
+		throw new SourceEditError('INVALID_SOURCE', 'No `new McpServer({ name })` found in source');
+	}
+
+	const { initializer } = property;
+	const quote = initializer.getText(sourceFile).startsWith("'") ? "'" : '"';
+	const literal = `${quote}${JSON.stringify(name).slice(1, -1)}${quote}`;
+
+	return source.slice(0, initializer.getStart(sourceFile)) + literal + source.slice(initializer.getEnd());
+}
@@ -0,0 +1,258 @@
+import ts from 'typescript';
+import { ContainerManagerError } from './errors';
+import { parseSource, removeRegistrations, renameIdentifiers, setMcpServerName } from './source-editor';
+import { rewriteConfigStrings } from './wrangler-config';
+
+/**
+ * Directory in the container image that holds the templates (see Dockerfile)
+ */
+export const TEMPLATES_ROOT = '/templates';
+
+/**
+ * Template used when createSDKEnvironment is not given one
+ */
+export const DEFAULT_TEMPLATE = 'remote-mcp-authless';
+
+/**
+ * Names a template is personalized with
+ */
+export interface TemplateNames {
+	serverId: string;
+	/** Template class name → class name in the generated server */
+	classes: Record<string, string>;
+}
+
+/**
+ * Rewrites one wrangler field, given its current value
+ */
+type WranglerFieldRewriter = (value: string, names: TemplateNames) => string;
+
+/**
+ * How a template is copied into a workspace and made into a server of its own
+ */
+export interface TemplateDefinition {
+	description: string;
+	/** Entry file, relative to the template root */
+	entryFile: string;
+	/** Other files referencing the renamed classes, such as the generated Env types */
+	sourceFiles?: string[];
+	/**
+	 * Classes to rename, mapped to the suffix of their new name
+	 * (`MyMCP: 'MCP'` makes `WeatherApiMCP` for server `weather-api`)
+	 */
+	classNames: Record<string, string>;
+	/** Whether the entry file defines an McpAgent, whose McpServer is then named after the server */
+	mcpAgent: boolean;
+	/** Wrangler config, relative to the template root; omitted for templates without one */
+	wranglerFile?: string;
+	/** Wrangler fields to rewrite, keyed by path (see rewriteConfigStrings) */
+	wranglerFields?: Record<string, WranglerFieldRewriter>;
+	/** Remove the template's example code from its entry file */
+	stripExamples?: (source: string) => string;
+}
+
+const workerName: WranglerFieldRewriter = (_, { serverId }) => serverId;
+const renamedClass: WranglerFieldRewriter = (value, { classes }) => classes[value] ?? value;
+const workflowName: WranglerFieldRewriter = (_, { serverId }) => `${serverId}-workflow`;
+// Template configs point at the agents/ monorepo's node_modules, which the workspace does not have
+const localSchema: WranglerFieldRewriter = () => 'node_modules/wrangler/config-schema.json';
+
+const WORKFLOW_FIELDS: Record<string, WranglerFieldRewriter> = {
+	$schema: localSchema,
+	name: workerName,
+	'workflows[].name': workflowName,
+	'workflows[].class_name': renamedClass
+};
+
+/**
+ * Empty the object literal assigned to a property, e.g. `tools: { weather: tool(...) }` → `tools: {}`
+ */
+function emptyObjectProperty(source: string, propertyName: string) {
+	const sourceFile = parseSource(source);
+	const objects: ts.ObjectLiteralExpression[] = [];
+
+	const visit = (node: ts.Node) => {
+		if (
+			ts.isPropertyAssignment(node) &&
+			node.name.getText(sourceFile) === propertyName &&
+			ts.isObjectLiteralExpression(node.initializer)
+		) {
+			objects.push(node.initializer);
+			return;
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+
+	let updated = source;
+	for (const object of objects.sort((a, b) => b.getStart(sourceFile) - a.getStart(sourceFile))) {
+		updated = `${updated.slice(0, object.getStart(sourceFile))}{}${updated.slice(object.getEnd())}`;
+	}
+
+	return updated;
+}
+
+/**
+ * Templates shipped in the container image under /templates
+ */
+export const TEMPLATES: Record<string, TemplateDefinition> = {
+	'remote-mcp-authless': {
+		description: 'MCP server without authentication, served over SSE and streamable HTTP',
+		entryFile: 'src/index.ts',
+		sourceFiles: ['worker-configuration.d.ts'],
+		classNames: { MyMCP: 'MCP' },
+		mcpAgent: true,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: {
+			name: workerName,
+			'migrations[].new_sqlite_classes[]': renamedClass,
+			'durable_objects.bindings[].class_name': renamedClass
+		},
+		// The calculator tools (add, calculate)
+		stripExamples: (source) => removeRegistrations(source, (registration) => registration.kind === 'tool').source
+	},
+	'tool-calling': {
+		description: 'Workers AI agent that calls tools through the AI SDK',
+		entryFile: 'src/index.ts',
+		classNames: {},
+		mcpAgent: false,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: { $schema: localSchema, name: workerName },
+		// The weather tool
+		stripExamples: (source) => emptyObjectProperty(source, 'tools')
+	},
+	'orchestrator-workers': {
+		description: 'Workflow where an orchestrator splits a task between worker prompts',
+		entryFile: 'src/index.ts',
+		sourceFiles: ['src/orchestrator-workers-workflow.ts'],
+		classNames: { OrchestratorWorkersWorkflow: 'Workflow' },
+		mcpAgent: false,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: WORKFLOW_FIELDS
+	},
+	'agent-task-manager': {
+		description: 'Agent that manages a task list in Durable Object state',
+		entryFile: 'src/index.ts',
+		sourceFiles: ['src/TaskManagerAgent.ts', 'worker-configuration.d.ts'],
+		classNames: { TaskManagerAgent: 'Agent' },
+		mcpAgent: false,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: {
+			$schema: localSchema,
+			name: workerName,
+			'migrations[].new_sqlite_classes[]': renamedClass,
+			'durable_objects.bindings[].class_name': renamedClass
+		}
+	},
+	routing: {
+		description: 'Workflow that classifies a request and routes it to a specialised prompt',
+		entryFile: 'src/index.ts',
+		sourceFiles: ['src/routing-workflow.ts'],
+		classNames: { RoutingWorkflow: 'Workflow' },
+		mcpAgent: false,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: WORKFLOW_FIELDS
+	},
+	parallelisation: {
+		description: 'Workflow that runs prompts in parallel and aggregates the results',
+		entryFile: 'src/index.ts',
+		sourceFiles: ['src/parallelisation-workflow.ts'],
+		classNames: { ParallelisationWorkflow: 'Workflow' },
+		mcpAgent: false,
+		wranglerFile: 'wrangler.jsonc',
+		wranglerFields: WORKFLOW_FIELDS
+	},
+	e2e: {
+		description: 'End-to-end tests for MCP servers (test harness, no wrangler config)',
+		entryFile: 'e2e.test.ts',
+		classNames: {},
+		mcpAgent: false
+	}
+};
+
+/**
+ * Names of all registered templates
+ */
+export const TEMPLATE_NAMES = Object.keys(TEMPLATES);
+
+/**
+ * Look up a template, rejecting unknown names with the list of valid ones
+ */
+export function getTemplate(name: string) {
+	if (!TEMPLATE_NAMES.includes(name)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Unknown template '${name}'. Valid templates: ${TEMPLATE_NAMES.join(', ')}`
+		);
+	}
+
+	return TEMPLATES[name];
+}
+
+/**
+ * Names to personalize a template with for a server, e.g. `weather-api` → `WeatherApiMCP`
+ */
+export function getTemplateNames(template: TemplateDefinition, serverId: string): TemplateNames {
+	const base = serverId
+		.split(/[^A-Za-z0-9]+/)
+		.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+		.join('');
+
+	return {
+		serverId,
+		classes: Object.fromEntries(
+			Object.entries(template.classNames).map(([original, suffix]) => [original, `${base}${suffix}`])
+		)
+	};
+}
+
+/**
+ * Personalize one of the template's source files
+ * The entry file also loses its example code and, for MCP templates, gets the server's name
+ */
+export function personalizeSource(template: TemplateDefinition, file: string, source: string, names: TemplateNames) {
+	let updated = source;
+
+	if (file === template.entryFile) {
+		if (template.stripExamples) {
+			updated = template.stripExamples(updated);
+		}
+		if (template.mcpAgent) {
+			updated = setMcpServerName(updated, names.serverId);
+		}
+	}
+
+	return renameIdentifiers(updated, names.classes, file);
+}
+
+/**
+ * Rewrite the template's wrangler fields for the server
+ * Fails when a field is missing rather than leaving it unpersonalized
+ */
+export function personalizeWrangler(template: TemplateDefinition, text: string, names: TemplateNames) {
+	const fields = new Map(Object.entries(template.wranglerFields ?? {}));
+	const found = new Set<string>();
+
+	const updated = rewriteConfigStrings(
+		text,
+		(path, value) => {
+			const rewrite = fields.get(path);
+			if (rewrite) {
+				found.add(path);
+			}
+			return rewrite?.(value, names);
+		},
+		template.wranglerFile
+	);
+
+	const missing = [...fields.keys()].filter((path) => !found.has(path));
+	if (missing.length > 0) {
+		throw new ContainerManagerError(
+			'TEMPLATE_COPY_FAILED',
+			`${template.wranglerFile} has no ${missing.join(', ')} to personalize`,
+			{ missing }
+		);
+	}
+
+	return updated;
+}
@@ -0,0 +1,296 @@
+import ts from 'typescript';
+import {
+	findInitMethod,
+	findRegistrations,
+	getSyntaxDiagnostics,
+	indentSnippet,
+	insertIntoInit,
+	lineIndentAt,
+	parseSource,
+	SourceEditError
+} from './source-editor';
+
+/**
+ * Directory of tool modules: one src/tools/<name>.ts per tool, exporting register(server)
+ */
+export const TOOL_MODULES_DIR = 'src/tools';
+
+/**
+ * Directory of helpers shared by tool modules, which import them from ../lib/<file>
+ */
+export const LIB_DIR = 'src/lib';
+
+// Tool names double as module file names
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Import of a tool module in the entry file (src/index.ts)
+const MODULE_SPECIFIER_PATTERN = /^\.\/tools\/([A-Za-z0-9_-]{1,64})(?:\.js)?$/;
+
+/**
+ * A tool module the entry file imports and registers
+ */
+export interface ToolModule {
+	/** Tool name, which is also the module's file name */
+	name: string;
+	/** Workspace-relative path, e.g. src/tools/forecast.ts */
+	path: string;
+	/** Name the entry file imports the module's register function as */
+	localName: string;
+}
+
+/**
+ * Workspace-relative path of a tool's module
+ */
+export const toolModulePath = (name: string) => `${TOOL_MODULES_DIR}/${name}.ts`;
+
+/**
+ * Name of a module's register function in the entry file, e.g. registerGetWeather for get-weather
+ */
+function registerFunctionName(name: string) {
+	const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+	return `register${words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('')}`;
+}
+
+/**
+ * Tool modules imported by an entry file, in import order
+ * The imports (`import { register as registerX } from "./tools/x"`) and the registerX(this.server)
+ * calls in init() form the list that addToolModuleToEntry and removeToolModuleFromEntry maintain
+ */
+export function findToolModules(entry: string): ToolModule[] {
+	const modules: ToolModule[] = [];
+
+	for (const statement of parseSource(entry).statements) {
+		if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+			continue;
+		}
+
+		const match = MODULE_SPECIFIER_PATTERN.exec(statement.moduleSpecifier.text);
+		const bindings = statement.importClause?.namedBindings;
+		const register =
+			bindings && ts.isNamedImports(bindings)
+				? bindings.elements.find((element) => (element.propertyName ?? element.name).text === 'register')
+				: undefined;
+
+		if (match && register) {
+			modules.push({ name: match[1], path: toolModulePath(match[1]), localName: register.name.text });
+		}
+	}
+
+	return modules;
+}
+
+/**
+ * Throw CAPABILITY_EXISTS when a tool of that name is registered, in init() or as a module
+ */
+export function assertToolNameFree(entry: string, name: string) {
+	const inline = findRegistrations(findInitMethod(parseSource(entry)).body).some(
+		(registration) => registration.kind === 'tool' && registration.name === name
+	);
+
+	if (inline || findToolModules(entry).some((module) => module.name === name)) {
+		throw new SourceEditError('CAPABILITY_EXISTS', `A tool named '${name}' is already registered`);
+	}
+
+	return entry;
+}
+
+/**
+ * Generate the module for a tool from its registration code
+ * The code is what addToolToServer takes (a this.server.tool(...) call), optionally preceded by
+ * imports, and becomes the body of `register(server)`. Code that already exports a register
+ * function is used as it is. Either way the module must register exactly one tool, and may only
+ * import packages and shared helpers from ../lib
+ */
+export function generateToolModule(code: string) {
+	const snippet = parseSource(code, 'tool.ts');
+	const imports = snippet.statements.filter(ts.isImportDeclaration);
+	const exportsRegister = snippet.statements.some(
+		(statement) =>
+			ts.isFunctionDeclaration(statement) &&
+			statement.name?.text === 'register' &&
+			statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword)
+	);
+	let source: string;
+
+	if (exportsRegister) {
+		source = `${code.trim()}\n`;
+	} else {
+		const bodyStart = imports.length > 0 ? imports[imports.length - 1].getEnd() : 0;
+		const body = useServerParameter(code, snippet).slice(bodyStart);
+		const imported = new Set(
+			imports.flatMap((declaration) => {
+				const bindings = declaration.importClause?.namedBindings;
+				return bindings && ts.isNamedImports(bindings) ? bindings.elements.map((element) => element.name.text) : [];
+			})
+		);
+		const header = ['import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";'];
+
+		if (/\bz\./.test(body) && !imported.has('z')) {
+			header.push('import { z } from "zod";');
+		}
+		if (imports.length > 0) {
+			header.push(code.slice(0, bodyStart).trim());
+		}
+
+		source = `${header.join('\n')}\n\nexport function register(server: McpServer) {\n${indentSnippet(body, '\t')}\n}\n`;
+	}
+
+	const diagnostics = getSyntaxDiagnostics(source, 'tool.ts');
+	if (diagnostics.length > 0) {
+		const [first] = diagnostics;
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			`Tool module does not parse: ${first.message} (line ${first.line}, column ${first.column})`,
+			diagnostics
+		);
+	}
+
+	const sourceFile = parseSource(source, 'tool.ts');
+	for (const declaration of sourceFile.statements.filter(ts.isImportDeclaration)) {
+		const specifier = (declaration.moduleSpecifier as ts.StringLiteral).text;
+		if (specifier.startsWith('.') && !specifier.startsWith('../lib/')) {
+			throw new SourceEditError(
+				'INVALID_SOURCE',
+				`Tool modules can only import shared helpers from ../lib (${LIB_DIR}), not '${specifier}'`
+			);
+		}
+	}
+
+	const tools = findRegistrations(sourceFile).filter((registration) => registration.kind === 'tool');
+	const [tool] = tools;
+	if (tools.length !== 1 || !tool.name || !TOOL_NAME_PATTERN.test(tool.name)) {
+		throw new SourceEditError(
+			'INVALID_SOURCE',
+			tools.length === 1
+				? 'A tool module must name its tool with a string of letters, digits, `_` and `-`'
+				: `A tool module must register exactly one tool, found ${tools.length}`
+		);
+	}
+
+	return { name: tool.name, source };
+}
+
+/**
+ * Replace `this.server` with the register function's `server` parameter
+ * Any other use of `this` has nothing to refer to in a module and is rejected
+ */
+function useServerParameter(code: string, snippet: ts.SourceFile) {
+	const replacements: number[] = [];
+
+	const visit = (node: ts.Node) => {
+		if (
+			ts.isPropertyAccessExpression(node) &&
+			node.expression.kind === ts.SyntaxKind.ThisKeyword &&
+			node.name.text === 'server'
+		) {
+			replacements.push(node.getStart(snippet));
+			return;
+		}
+		if (node.kind === ts.SyntaxKind.ThisKeyword) {
+			const { line } = snippet.getLineAndCharacterOfPosition(node.getStart(snippet));
+			throw new SourceEditError(
+				'INVALID_SOURCE',
+				`Tool modules get the McpServer as \`server\` and cannot use \`this\` (line ${line + 1})`
+			);
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(snippet);
+
+	let updated = code;
+	for (const start of replacements.reverse()) {
+		updated = `${updated.slice(0, start)}server${updated.slice(start + 'this.server'.length)}`;
+	}
+
+	return updated;
+}
+
+/**
+ * Import a tool module in the entry file and call its register function in init()
+ * The import goes after the other tool modules (or the last import) and the call after the
+ * other modules' calls (or at the end of init())
+ */
+export function addToolModuleToEntry(entry: string, name: string) {
+	const modules = findToolModules(entry);
+	const localName = registerFunctionName(name);
+	assertToolNameFree(entry, name);
+
+	if (modules.some((module) => module.localName === localName)) {
+		throw new SourceEditError(
+			'CONFLICT',
+			`Tool '${name}' would be registered as ${localName}, which another tool module already uses`
+		);
+	}
+
+	const sourceFile = parseSource(entry);
+	const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+	const lastModuleImport = imports.filter((declaration) =>
+		MODULE_SPECIFIER_PATTERN.test((declaration.moduleSpecifier as ts.StringLiteral).text)
+	);
+	const after = lastModuleImport[lastModuleImport.length - 1] ?? imports[imports.length - 1];
+	const quote = imports[0]?.moduleSpecifier.getText(sourceFile).startsWith("'") ? "'" : '"';
+	const statement = `import { register as ${localName} } from ${quote}./tools/${name}${quote};`;
+
+	const withImport = after
+		? `${entry.slice(0, after.getEnd())}\n${statement}${entry.slice(after.getEnd())}`
+		: `${statement}\n${entry}`;
+
+	const locals = new Set(modules.map((module) => module.localName));
+	const calls = findInitMethod(parseSource(withImport)).body.statements.filter((candidate) =>
+		locals.has(registerCallee(candidate) ?? '')
+	);
+	const lastCall = calls[calls.length - 1];
+	const call = `${localName}(this.server);`;
+
+	if (!lastCall) {
+		return insertIntoInit(withImport, 'tool', call);
+	}
+
+	const indent = lineIndentAt(withImport, lastCall.getStart());
+	return `${withImport.slice(0, lastCall.getEnd())}\n${indent}${call}${withImport.slice(lastCall.getEnd())}`;
+}
+
+/**
+ * Remove a tool module's import and register call from the entry file
+ */
+export function removeToolModuleFromEntry(entry: string, name: string) {
+	const module = findToolModules(entry).find((candidate) => candidate.name === name);
+	if (!module) {
+		throw new SourceEditError('CAPABILITY_NOT_FOUND', `No tool module named '${name}' is registered`);
+	}
+
+	const sourceFile = parseSource(entry);
+	const statements: ts.Statement[] = [
+		...sourceFile.statements.filter(
+			(statement) =>
+				ts.isImportDeclaration(statement) &&
+				MODULE_SPECIFIER_PATTERN.exec((statement.moduleSpecifier as ts.StringLiteral).text)?.[1] === name
+		),
+		...findInitMethod(sourceFile).body.statements.filter(
+			(statement) => registerCallee(statement) === module.localName
+		)
+	];
+
+	// Splice from the end so earlier positions stay valid
+	let updated = entry;
+	for (const statement of statements.sort((a, b) => b.getStart() - a.getStart())) {
+		updated = updated.slice(0, statement.getFullStart()) + updated.slice(statement.getEnd());
+	}
+
+	return updated;
+}
+
+/**
+ * Function called by a `registerX(this.server);` statement
+ */
+function registerCallee(statement: ts.Statement) {
+	if (
+		ts.isExpressionStatement(statement) &&
+		ts.isCallExpression(statement.expression) &&
+		ts.isIdentifier(statement.expression.expression)
+	) {
+		return statement.expression.expression.text;
+	}
+
+	return undefined;
+}
@@ -0,0 +1,337 @@
+import { ContainerManagerError } from './errors';
+import { indentSnippet } from './source-editor';
+
+/**
+ * The subset of JSON Schema that tool specs can use to describe parameters
+ */
+export interface JsonSchema {
+	type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null' | (string & {}) | string[];
+	description?: string;
+	enum?: (string | number | boolean)[];
+	items?: JsonSchema;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	default?: unknown;
+	minimum?: number;
+	maximum?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	format?: string;
+}
+
+/**
+ * One tool parameter in the list form: a JSON Schema node plus its name
+ */
+export interface ToolParameterSpec extends Omit<JsonSchema, 'required'> {
+	name: string;
+	/** Parameters are required unless marked optional (or given a default) */
+	optional?: boolean;
+}
+
+/**
+ * MCP tool annotations (hints for clients; see the MCP specification)
+ */
+export interface ToolAnnotationsSpec {
+	title?: string;
+	readOnlyHint?: boolean;
+	destructiveHint?: boolean;
+	idempotentHint?: boolean;
+	openWorldHint?: boolean;
+}
+
+/**
+ * Declarative description of a tool, turned into a this.server.tool(...) registration
+ */
+export interface ToolSpec {
+	/** Tool name: letters, digits, `_` and `-`, at most 64 characters */
+	name: string;
+	/** Display title, emitted as the `title` annotation */
+	title?: string;
+	description?: string;
+	/** Either a parameter list or a JSON Schema object with `properties` */
+	parameters?: ToolParameterSpec[] | JsonSchema;
+	annotations?: ToolAnnotationsSpec;
+	/**
+	 * Body of the async handler. Parameters are destructured into local variables
+	 * (names that are not identifiers are camelCased, reserved words get a `Value` suffix),
+	 * and it must return a CallToolResult.
+	 */
+	handler: string;
+}
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+// Words that are valid property keys but cannot be destructured into a variable
+const RESERVED_WORDS = new Set(
+	(
+		'arguments await break case catch class const continue debugger default delete do else enum eval ' +
+		'export extends false finally for function if implements import in instanceof interface let new null ' +
+		'package private protected public return static super switch this throw true try typeof var void ' +
+		'while with yield'
+	).split(' ')
+);
+// Type of each MCP tool annotation; specs may not carry any other
+const ANNOTATION_TYPES: Record<keyof ToolAnnotationsSpec, 'string' | 'boolean'> = {
+	title: 'string',
+	readOnlyHint: 'boolean',
+	destructiveHint: 'boolean',
+	idempotentHint: 'boolean',
+	openWorldHint: 'boolean'
+};
+const STRING_FORMATS: Record<string, string> = {
+	email: '.email()',
+	uri: '.url()',
+	url: '.url()',
+	uuid: '.uuid()',
+	'date-time': '.datetime()'
+};
+
+/**
+ * Local variable name for a parameter, camelCasing names that are not identifiers
+ * and suffixing reserved words
+ */
+export function variableName(name: string) {
+	if (RESERVED_WORDS.has(name)) {
+		return `${name}Value`;
+	}
+	if (IDENTIFIER_PATTERN.test(name)) {
+		return name;
+	}
+
+	const camel = name
+		.replace(/[^A-Za-z0-9_$]+(.)?/g, (_, next: string | undefined) => (next ? next.toUpperCase() : ''))
+		.replace(/^[0-9]/, (digit) => `_${digit}`);
+
+	return camel || '_param';
+}
+
+/**
+ * Property key as it must appear in an object literal
+ */
+export function propertyKey(name: string) {
+	return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Zod expression for a JSON Schema node, without optional()/default() modifiers
+ */
+function schemaToZod(schema: JsonSchema, path: string, indent: string): string {
+	const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+	const nullable = types.includes('null');
+	const [type] = types.filter((candidate) => candidate !== 'null');
+
+	if (types.filter((candidate) => candidate !== 'null').length > 1) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', `Parameter '${path}': union types are not supported`);
+	}
+
+	let zod: string;
+
+	if (schema.enum) {
+		if (schema.enum.length === 0) {
+			throw new ContainerManagerError('INVALID_ARGUMENT', `Parameter '${path}': enum must not be empty`);
+		}
+		zod = schema.enum.every((value) => typeof value === 'string')
+			? `z.enum([${schema.enum.map((value) => JSON.stringify(value)).join(', ')}])`
+			: `z.union([${schema.enum.map((value) => `z.literal(${JSON.stringify(value)})`).join(', ')}])`;
+	} else {
+		switch (type) {
+			case 'string':
+				zod = 'z.string()';
+				if (schema.format) {
+					zod += STRING_FORMATS[schema.format] ?? '';
+				}
+				if (schema.minLength !== undefined) {
+					zod += `.min(${schema.minLength})`;
+				}
+				if (schema.maxLength !== undefined) {
+					zod += `.max(${schema.maxLength})`;
+				}
+				if (schema.pattern !== undefined) {
+					zod += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+				}
+				break;
+			case 'number':
+			case 'integer':
+				zod = type === 'integer' ? 'z.number().int()' : 'z.number()';
+				if (schema.minimum !== undefined) {
+					zod += `.min(${schema.minimum})`;
+				}
+				if (schema.maximum !== undefined) {
+					zod += `.max(${schema.maximum})`;
+				}
+				break;
+			case 'boolean':
+				zod = 'z.boolean()';
+				break;
+			case 'array':
+				zod = `z.array(${schema.items ? schemaToZod(schema.items, `${path}[]`, indent) : 'z.unknown()'})`;
+				break;
+			case 'object':
+				zod = schema.properties
+					? `z.object(${shapeToZod(objectParameters(schema, path), path, indent)})`
+					: 'z.record(z.unknown())';
+				break;
+			case undefined:
+				zod = 'z.unknown()';
+				break;
+			default:
+				throw new ContainerManagerError('INVALID_ARGUMENT', `Parameter '${path}': unsupported type '${type}'`);
+		}
+	}
+
+	if (nullable) {
+		zod += '.nullable()';
+	}
+	if (schema.description) {
+		zod += `.describe(${JSON.stringify(schema.description)})`;
+	}
+
+	return zod;
+}
+
+/**
+ * Parameter list for the properties of an object schema
+ */
+function objectParameters(schema: JsonSchema, path?: string): ToolParameterSpec[] {
+	if (schema.type !== undefined && schema.type !== 'object') {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`${path ? `Parameter '${path}'` : 'Tool parameters'}: expected an object schema`
+		);
+	}
+
+	const required = new Set(schema.required ?? []);
+	return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+		...property,
+		name,
+		optional: !required.has(name)
+	}));
+}
+
+/**
+ * Zod raw shape (`{ a: z.string(), ... }`) for a parameter list
+ */
+function shapeToZod(parameters: ToolParameterSpec[], path: string | undefined, indent: string) {
+	if (parameters.length === 0) {
+		return '{}';
+	}
+
+	const inner = `${indent}\t`;
+	const lines = parameters.map(({ name, optional, ...schema }) => {
+		const fullName = path ? `${path}.${name}` : name;
+		let zod = schemaToZod(schema, fullName, inner);
+
+		if (schema.default !== undefined) {
+			zod += `.default(${JSON.stringify(schema.default)})`;
+		} else if (optional) {
+			zod += '.optional()';
+		}
+
+		return `${inner}${propertyKey(name)}: ${zod},`;
+	});
+
+	return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Check a spec and return its parameters as a list
+ */
+function validateToolSpec(spec: ToolSpec) {
+	if (!spec || typeof spec !== 'object') {
+		throw new ContainerManagerError('INVALID_ARGUMENT', 'Tool spec must be an object');
+	}
+	if (typeof spec.name !== 'string' || !TOOL_NAME_PATTERN.test(spec.name)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid tool name '${spec.name}': use 1-64 letters, digits, '_' or '-'`
+		);
+	}
+	if (typeof spec.handler !== 'string' || !spec.handler.trim()) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', `Tool '${spec.name}' needs a handler body`);
+	}
+
+	if (spec.annotations !== undefined && (typeof spec.annotations !== 'object' || spec.annotations === null)) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', `Tool '${spec.name}': annotations must be an object`);
+	}
+	for (const [key, value] of Object.entries(spec.annotations ?? {})) {
+		const type = Object.keys(ANNOTATION_TYPES).includes(key)
+			? ANNOTATION_TYPES[key as keyof ToolAnnotationsSpec]
+			: undefined;
+		if (!type) {
+			throw new ContainerManagerError(
+				'INVALID_ARGUMENT',
+				`Tool '${spec.name}' has unknown annotation '${key}'; use ${Object.keys(ANNOTATION_TYPES).join(', ')}`
+			);
+		}
+		if (typeof value !== type) {
+			throw new ContainerManagerError(
+				'INVALID_ARGUMENT',
+				`Tool '${spec.name}': annotation '${key}' must be a ${type}`
+			);
+		}
+	}
+
+	const parameters = Array.isArray(spec.parameters)
+		? spec.parameters
+		: spec.parameters
+			? objectParameters(spec.parameters)
+			: [];
+
+	const names = new Set<string>();
+	const variables = new Set<string>();
+	for (const parameter of parameters) {
+		if (typeof parameter.name !== 'string' || !parameter.name) {
+			throw new ContainerManagerError('INVALID_ARGUMENT', `Tool '${spec.name}' has a parameter without a name`);
+		}
+		if (names.has(parameter.name)) {
+			throw new ContainerManagerError(
+				'INVALID_ARGUMENT',
+				`Tool '${spec.name}' declares parameter '${parameter.name}' twice`
+			);
+		}
+		const variable = variableName(parameter.name);
+		if (variables.has(variable)) {
+			throw new ContainerManagerError(
+				'INVALID_ARGUMENT',
+				`Tool '${spec.name}': parameters map to the same variable '${variable}'`
+			);
+		}
+		names.add(parameter.name);
+		variables.add(variable);
+	}
+
+	return parameters;
+}
+
+/**
+ * Generate the this.server.tool(...) registration for a spec
+ * The result is indented from column 0 and ready for insertIntoInit()
+ */
+export function generateToolCode(spec: ToolSpec) {
+	const parameters = validateToolSpec(spec);
+	const args = [JSON.stringify(spec.name)];
+
+	if (spec.description) {
+		args.push(JSON.stringify(spec.description));
+	}
+
+	args.push(shapeToZod(parameters, undefined, '\t'));
+
+	const annotations = { ...(spec.title ? { title: spec.title } : {}), ...spec.annotations };
+	if (Object.keys(annotations).length > 0) {
+		const entries = Object.entries(annotations).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+		args.push(`{ ${entries.join(', ')} }`);
+	}
+
+	const bindings = parameters.map(({ name }) => {
+		const variable = variableName(name);
+		return variable === name ? name : `${propertyKey(name)}: ${variable}`;
+	});
+	const handlerArgs = bindings.length > 0 ? `{ ${bindings.join(', ')} }` : '';
+	const body = indentSnippet(spec.handler, '\t\t');
+
+	args.push(`async (${handlerArgs}) => {\n${body}\n\t}`);
+
+	return `this.server.tool(\n${args.map((arg) => `\t${arg},`).join('\n')}\n);`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Options for running a command inside a container
+ */
+export interface ExecOptions {
+	/** Working directory for the command (defaults to the agent's cwd) */
+	cwd?: string;
+	/** Extra environment variables, merged over the container's own */
+	env?: Record<string, string>;
+	/** Kill the command after this many milliseconds (defaults to 5 minutes) */
+	timeout?: number;
+}
+
+/**
+ * Result of a command run by the container agent
+ */
+export interface ExecResult {
+	success: boolean;
+	exitCode: number;
+	stdout: string;
+	stderr: string;
+	/** stdout followed by stderr, kept for callers that want a single blob */
+	output: string;
+	durationMs: number;
+	timedOut: boolean;
+	/** True when the command was killed by a cancellation request */
+	cancelled: boolean;
+	/** True when stdout or stderr exceeded the agent's output cap */
+	truncated: boolean;
+	error?: string;
+}
+
+/**
+ * Lifecycle of a recorded container execution
+ */
+export type ExecutionStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Events streamed by the container agent while a command runs (one JSON object per line)
+ */
+export type ExecEvent =
+	| { type: 'start' }
+	| { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+	| {
+		type: 'exit';
+		exitCode: number;
+		durationMs: number;
+		timedOut?: boolean;
+		cancelled?: boolean;
+		truncated?: boolean;
+	}
+	| { type: 'error'; error: string };
+
+/**
+ * A chunk of command output stored in the execution log
+ */
+export interface ExecutionLogChunk {
+	/** Increasing per execution, starting at 1 */
+	seq: number;
+	stream: 'stdout' | 'stderr';
+	data: string;
+	createdAt: number;
+}
+
+/**
+ * A recorded container execution
+ */
+export interface ExecutionRecord {
+	id: string;
+	serverId: string;
+	containerId: string;
+	command: string;
+	status: ExecutionStatus;
+	error?: string;
+	/** Combined stdout and stderr; only returned by getExecution */
+	output?: string;
+	startedAt: number;
+	completedAt?: number;
+	durationMs?: number;
+}
+
+/**
+ * Filters for listExecutions; times are ms since epoch, since inclusive and until exclusive
+ */
+export interface ExecutionQuery {
+	serverId?: string;
+	containerId?: string;
+	status?: ExecutionStatus | ExecutionStatus[];
+	since?: number;
+	until?: number;
+	/** nextCursor of the previous page */
+	cursor?: string;
+	/** Page size, 50 by default and at most 200 */
+	limit?: number;
+}
+
+/**
+ * Encoding used to move file contents over RPC; base64 is binary safe
+ */
+export type FileEncoding = 'utf8' | 'base64';
+
+/**
+ * A file or directory in a container filesystem
+ */
+export interface FileEntry {
+	/** Path relative to the listed directory (or workspace, for RPC results) */
+	path: string;
+	name: string;
+	type: 'file' | 'directory' | 'symlink';
+	size: number;
+	/** Last modification time in ms since epoch */
+	mtime: number;
+}
+
+/**
+ * Options for listing a directory
+ */
+export interface ListFilesOptions {
+	/** Descend into subdirectories */
+	recursive?: boolean;
+	/** Only return entries matching one of these globs (supports **, *, ? and {a,b}) */
+	include?: string[];
+	/** Skip entries (and whole directories) matching one of these globs */
+	exclude?: string[];
+}
+
+/**
+ * Stages of buildMCPServer, in the order they run
+ */
+export type BuildStage = 'install' | 'typecheck' | 'lint' | 'test' | 'bundle';
+
+/**
+ * Optional checks buildMCPServer can run before bundling
+ */
+export interface BuildOptions {
+	/** Run `tsc --noEmit` */
+	typecheck?: boolean;
+	/** Run `biome lint` */
+	lint?: boolean;
+	/** Run the workspace's vitest suite */
+	test?: boolean;
+}
+
+/**
+ * A problem reported by one of the build stages
+ * Positions are 1-based and the file is relative to the workspace, when the tool reports them
+ */
+export interface BuildDiagnostic {
+	stage: BuildStage;
+	severity: 'error' | 'warning' | 'info';
+	message: string;
+	file?: string;
+	line?: number;
+	column?: number;
+	/** Rule or error code, e.g. `TS2322` or `lint/suspicious/noExplicitAny` */
+	rule?: string;
+}
+
+/**
+ * Outcome of one build stage
+ * A stage is skipped when it was not requested or an earlier stage it depends on failed
+ */
+export interface BuildStageResult {
+	stage: BuildStage;
+	status: 'passed' | 'failed' | 'skipped';
+	durationMs: number;
+	/** Execution recording the stage's command and output (see getExecutionLogs) */
+	executionId?: string;
+	errorCount: number;
+	warningCount: number;
+}
@@ -0,0 +1,32 @@
+import { ContainerManagerError } from './errors';
+import { POOL_CONTAINER_IDS } from './pool';
+
+/**
+ * Server IDs name the workspace directory, the generated worker and its classes,
+ * so they follow Workers script naming: lowercase letters, digits and dashes
+ */
+const SERVER_ID_PATTERN = /^[a-z][a-z0-9-]{0,62}$/;
+
+/**
+ * Throw unless serverId is safe to use in paths, commands and worker names
+ */
+export function assertValidServerId(serverId: unknown): asserts serverId is string {
+	if (typeof serverId !== 'string' || !SERVER_ID_PATTERN.test(serverId)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid server ID ${JSON.stringify(serverId)}: use 1-63 lowercase letters, digits and '-', starting with a letter`
+		);
+	}
+}
+
+/**
+ * Throw unless containerId names a container of the pool (`mcp-pool-<n>`, see POOL_CONTAINER_IDS)
+ */
+export function assertValidContainerId(containerId: unknown): asserts containerId is string {
+	if (typeof containerId !== 'string' || !POOL_CONTAINER_IDS.includes(containerId)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid container ID ${JSON.stringify(containerId)}: use one of ${POOL_CONTAINER_IDS.join(', ')}`
+		);
+	}
+}
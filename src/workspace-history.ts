@@ -0,0 +1,194 @@
+import { ContainerManagerError } from './errors';
+import { shellCommand } from './shell';
+
+/**
+ * Workspace directory holding the git history; snapshots keep it, build sources leave it out
+ * Snapshots carry it so history and reverts survive a container losing the workspace; commits never
+ * repack (gc.auto=0), so objects stay loose files that checkpoints upload once, when they are new
+ */
+export const HISTORY_DIR = '.git';
+
+/**
+ * Paths the history does not track, written to .git/info/exclude
+ * What npm install and wrangler produce: SOURCE_EXCLUDES without .git itself, as gitignore patterns
+ */
+export const HISTORY_EXCLUDES = ['node_modules/', '.wrangler/', '/dist/'];
+
+// Commit hashes, HEAD and ancestors of either (HEAD~2, abc1234^)
+const REVISION_PATTERN = /^(?:HEAD|[0-9a-f]{4,40})(?:[~^][0-9]{0,4})*$/;
+
+// Longest commit subject; longer descriptions (such as commands) are cut short
+const MAX_SUBJECT_LENGTH = 100;
+
+// Separators of the fields (\x1f) and commits (\x1e) in `git log` output
+const LOG_FORMAT = '--format=%x1e%H%x1f%an%x1f%at%x1f%s';
+
+/**
+ * A commit in a workspace's history
+ */
+export interface WorkspaceCommit {
+	commit: string;
+	/** Principal that made the change */
+	author: string;
+	/** Epoch milliseconds */
+	date: number;
+	message: string;
+	files: { status: string; path: string }[];
+}
+
+/**
+ * A file that differs between two commits; additions and deletions are null for binary files
+ */
+export interface WorkspaceFileDiff {
+	path: string;
+	additions: number | null;
+	deletions: number | null;
+}
+
+/**
+ * Throw unless a revision is a commit hash (at least 4 hex digits) or HEAD, optionally with ~n or ^n
+ */
+export function assertValidRevision(revision: unknown): asserts revision is string {
+	if (typeof revision !== 'string' || !REVISION_PATTERN.test(revision)) {
+		throw new ContainerManagerError(
+			'INVALID_ARGUMENT',
+			`Invalid revision ${JSON.stringify(revision)}: use a commit hash, HEAD or HEAD~n`
+		);
+	}
+}
+
+/**
+ * Whether a workspace-relative path is (inside) the history directory
+ */
+export const isHistoryPath = (path: string) => path === HISTORY_DIR || path.startsWith(`${HISTORY_DIR}/`);
+
+/**
+ * One-line commit subject describing a change
+ */
+export function commitSubject(description: string) {
+	const subject = description.replace(/\s+/g, ' ').trim();
+	return subject.length > MAX_SUBJECT_LENGTH ? `${subject.slice(0, MAX_SUBJECT_LENGTH - 3)}...` : subject;
+}
+
+/**
+ * Environment that makes a principal the author and committer of commits
+ */
+export function historyEnv(principal: string): Record<string, string> {
+	return {
+		GIT_AUTHOR_NAME: principal,
+		GIT_AUTHOR_EMAIL: principal,
+		GIT_COMMITTER_NAME: principal,
+		GIT_COMMITTER_EMAIL: principal
+	};
+}
+
+/**
+ * Create an empty repository, without the sample hooks git would copy in
+ */
+export const initHistoryCommand = () => shellCommand(['git', 'init', '-q', '--template=', '-b', 'main']);
+
+/**
+ * Commit everything that changed (nothing when nothing did) and print the commit at HEAD
+ */
+export function commitCommand(description: string) {
+	const add = shellCommand(['git', 'add', '-A']);
+	const unchanged = shellCommand(['git', 'diff', '--cached', '--quiet']);
+	const commit = shellCommand([
+		'git',
+		'-c',
+		'commit.gpgsign=false',
+		'-c',
+		'gc.auto=0',
+		'commit',
+		'-q',
+		'--no-verify',
+		'-m',
+		commitSubject(description)
+	]);
+
+	return `${add} && (${unchanged} || ${commit}) && ${shellCommand(['git', 'rev-parse', 'HEAD'])}`;
+}
+
+/**
+ * Print the full hash of the commit a revision names
+ */
+export const resolveRevisionCommand = (revision: string) =>
+	shellCommand(['git', 'rev-parse', '--verify', '--quiet', `${revision}^{commit}`]);
+
+/**
+ * Print the newest commits, optionally only those that touched a path, in the format parseHistory reads
+ */
+export function historyCommand(limit: number, path?: string) {
+	return shellCommand([
+		'git',
+		'log',
+		`--max-count=${limit}`,
+		'--name-status',
+		'--no-renames',
+		LOG_FORMAT,
+		'--',
+		...(path ? [path] : [])
+	]);
+}
+
+/**
+ * Print how many lines of each file changed between two commits, for parseNumstat
+ */
+export const numstatCommand = (from: string, to: string) =>
+	shellCommand(['git', 'diff', '--numstat', '--no-renames', from, to, '--']);
+
+/**
+ * Print the unified diff between two commits
+ */
+export const patchCommand = (from: string, to: string) =>
+	shellCommand(['git', 'diff', '--no-color', '--no-ext-diff', '--no-renames', from, to, '--']);
+
+/**
+ * Make the tracked files and the index match a commit, deleting tracked files it does not have
+ * Untracked files (node_modules, build output) are left alone
+ */
+export const restoreCommand = (revision: string) =>
+	shellCommand(['git', 'restore', `--source=${revision}`, '--staged', '--worktree', '--', '.']);
+
+/**
+ * Read the output of historyCommand
+ */
+export function parseHistory(output: string): WorkspaceCommit[] {
+	return output
+		.split('\x1e')
+		.filter((record) => record.trim())
+		.map((record) => {
+			const [header, ...lines] = record.split('\n');
+			const [commit, author, seconds, message] = header.split('\x1f');
+
+			return {
+				commit,
+				author,
+				date: Number(seconds) * 1000,
+				message,
+				files: lines
+					.filter((line) => line.trim())
+					.map((line) => {
+						const [status, path] = line.split('\t');
+						return { status, path };
+					})
+			};
+		});
+}
+
+/**
+ * Read the output of numstatCommand
+ */
+export function parseNumstat(output: string): WorkspaceFileDiff[] {
+	return output
+		.split('\n')
+		.filter((line) => line.trim())
+		.map((line) => {
+			const [additions, deletions, path] = line.split('\t');
+			return {
+				path,
+				additions: additions === '-' ? null : Number(additions),
+				deletions: deletions === '-' ? null : Number(deletions)
+			};
+		});
+}
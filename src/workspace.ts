@@ -0,0 +1,101 @@
+import { ContainerManagerError } from './errors';
+import { assertValidServerId } from './validation';
+
+/**
+ * Root directory under which every server gets its own workspace
+ */
+export const WORKSPACE_ROOT = '/workspace';
+
+/**
+ * Absolute path of the workspace for a server
+ * Throws if the server ID is malformed, so it can never smuggle in a path or shell syntax
+ */
+export function getWorkspacePath(serverId: string) {
+	assertValidServerId(serverId);
+	return `${WORKSPACE_ROOT}/${serverId}`;
+}
+
+/**
+ * Normalize a POSIX path, collapsing `.`, `..` and duplicate slashes
+ * Leading `..` segments that would climb above `/` are kept so callers can detect them
+ */
+function normalizePath(path: string) {
+	const segments: string[] = [];
+
+	for (const segment of path.split('/')) {
+		if (segment === '' || segment === '.') {
+			continue;
+		}
+		if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+			segments.pop();
+			continue;
+		}
+		segments.push(segment);
+	}
+
+	return segments.join('/');
+}
+
+/**
+ * Resolve a path inside a server workspace to an absolute container path
+ * Accepts paths relative to the workspace or absolute paths that already point into it
+ * Throws if the path would leave the workspace (e.g. `../other-server` or `/etc/passwd`)
+ */
+export function resolveWorkspacePath(serverId: string, path: string) {
+	const workspacePath = getWorkspacePath(serverId);
+
+	if (path.includes('\0')) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', 'Path must not contain NUL bytes');
+	}
+
+	let relative = normalizePath(path);
+
+	if (path.startsWith('/')) {
+		// Absolute paths must point at the workspace itself or something below it
+		const root = normalizePath(workspacePath);
+		if (relative === root) {
+			relative = '';
+		} else if (relative.startsWith(`${root}/`)) {
+			relative = relative.slice(root.length + 1);
+		} else {
+			relative = '..';
+		}
+	}
+
+	if (relative === '..' || relative.startsWith('../')) {
+		throw new ContainerManagerError('INVALID_ARGUMENT', `Path '${path}' is outside the workspace ${workspacePath}`);
+	}
+
+	return relative ? `${workspacePath}/${relative}` : workspacePath;
+}
+
+/**
+ * Path relative to a server workspace, for reporting back to callers
+ */
+export function toWorkspaceRelative(serverId: string, absolutePath: string) {
+	const workspacePath = getWorkspacePath(serverId);
+	return absolutePath === workspacePath ? '.' : absolutePath.slice(workspacePath.length + 1);
+}
+
+/**
+ * Base64-encode bytes so binary content can travel through the container agent's JSON API
+ */
+export function bytesToBase64(bytes: Uint8Array) {
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+/**
+ * Decode base64 content read through the container agent back into bytes
+ */
+export function base64ToBytes(base64: string) {
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
@@ -0,0 +1,355 @@
+import ts from 'typescript';
+import { ContainerManagerError } from './errors';
+
+/**
+ * Rewrites string values in a wrangler.jsonc, returning the new value or undefined to keep it
+ * `path` names the field with `[]` for array elements, e.g. `workflows[].class_name`
+ * or `migrations[].new_sqlite_classes[]`
+ */
+export type ConfigStringRewriter = (path: string, value: string) => string | undefined;
+
+/**
+ * Rewrite string values in JSON/JSONC text in place
+ * Comments, formatting and every untouched value are preserved
+ */
+export function rewriteConfigStrings(text: string, rewrite: ConfigStringRewriter, fileName = 'wrangler.jsonc') {
+	const jsonFile = parseJsonc(text, fileName);
+	const replacements: { start: number; end: number; value: string }[] = [];
+
+	const visit = (node: ts.Node, path: string) => {
+		if (ts.isObjectLiteralExpression(node)) {
+			for (const property of node.properties) {
+				if (ts.isPropertyAssignment(property) && ts.isStringLiteral(property.name)) {
+					visit(property.initializer, path ? `${path}.${property.name.text}` : property.name.text);
+				}
+			}
+		} else if (ts.isArrayLiteralExpression(node)) {
+			for (const element of node.elements) {
+				visit(element, `${path}[]`);
+			}
+		} else if (ts.isStringLiteral(node)) {
+			const value = rewrite(path, node.text);
+			if (value !== undefined && value !== node.text) {
+				replacements.push({ start: node.getStart(jsonFile), end: node.getEnd(), value });
+			}
+		}
+	};
+
+	const [statement] = jsonFile.statements;
+	if (statement) {
+		visit(statement.expression, '');
+	}
+
+	let updated = text;
+	for (const { start, end, value } of replacements.sort((a, b) => b.start - a.start)) {
+		updated = updated.slice(0, start) + JSON.stringify(value) + updated.slice(end);
+	}
+
+	return updated;
+}
+
+/**
+ * Parse a wrangler.jsonc (or wrangler.json) into plain JSON
+ */
+export function parseWranglerConfig(text: string, fileName = 'wrangler.jsonc') {
+	const { config, error } = ts.parseConfigFileTextToJson(fileName, text);
+
+	if (error) {
+		throw new ContainerManagerError(
+			'INVALID_SOURCE',
+			`${fileName} does not parse: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`
+		);
+	}
+
+	return config as Record<string, unknown>;
+}
+
+/**
+ * Key path to a field of a config, e.g. `['durable_objects', 'bindings']`
+ */
+export type ConfigPath = string[];
+
+type JsonList = ts.ObjectLiteralExpression | ts.ArrayLiteralExpression;
+
+/**
+ * Parse JSONC text, throwing INVALID_SOURCE with the first syntax error
+ */
+function parseJsonc(text: string, fileName: string) {
+	const jsonFile = ts.parseJsonText(fileName, text);
+	const [diagnostic] = (jsonFile as ts.JsonSourceFile & { parseDiagnostics?: ts.Diagnostic[] }).parseDiagnostics ?? [];
+
+	if (diagnostic) {
+		throw new ContainerManagerError(
+			'INVALID_SOURCE',
+			`${fileName} does not parse: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`
+		);
+	}
+
+	return jsonFile;
+}
+
+/**
+ * The top-level object of a config, which every edit starts from
+ */
+function parseConfigRoot(text: string, fileName: string) {
+	const jsonFile = parseJsonc(text, fileName);
+	const root = jsonFile.statements[0]?.expression;
+
+	if (!root || !ts.isObjectLiteralExpression(root)) {
+		throw new ContainerManagerError('INVALID_SOURCE', `${fileName} must contain an object`);
+	}
+
+	return { jsonFile, root };
+}
+
+const listItems = (list: JsonList) => (ts.isObjectLiteralExpression(list) ? list.properties : list.elements);
+
+function findProperty(object: ts.ObjectLiteralExpression, key: string) {
+	return object.properties.find(
+		(property): property is ts.PropertyAssignment =>
+			ts.isPropertyAssignment(property) &&
+			(ts.isStringLiteral(property.name) || ts.isIdentifier(property.name)) &&
+			property.name.text === key
+	);
+}
+
+/**
+ * Follow a path through nested objects; the result stops at the first key that is missing
+ */
+function resolvePath(root: ts.ObjectLiteralExpression, path: ConfigPath, fileName: string) {
+	let object = root;
+
+	for (let depth = 0; depth < path.length; depth++) {
+		const property = findProperty(object, path[depth]);
+		if (!property) {
+			return { object, depth, property: undefined };
+		}
+		if (depth === path.length - 1) {
+			return { object, depth, property };
+		}
+		if (!ts.isObjectLiteralExpression(property.initializer)) {
+			throw new ContainerManagerError(
+				'INVALID_SOURCE',
+				`${fileName}: ${path.slice(0, depth + 1).join('.')} is not an object`
+			);
+		}
+		object = property.initializer;
+	}
+
+	return { object, depth: path.length, property: undefined };
+}
+
+function lineStartAt(text: string, position: number) {
+	return text.lastIndexOf('\n', position - 1) + 1;
+}
+
+function lineIndentAt(text: string, position: number) {
+	return /^[ \t]*/.exec(text.slice(lineStartAt(text, position)))?.[0] ?? '';
+}
+
+/**
+ * One level of indentation, taken from the first top-level field
+ */
+function indentUnit(text: string, root: ts.ObjectLiteralExpression, jsonFile: ts.JsonSourceFile) {
+	const [first] = root.properties;
+	const indent = first ? lineIndentAt(text, first.getStart(jsonFile)) : '';
+
+	return indent || '\t';
+}
+
+/**
+ * Format a value as JSON at the given indentation
+ * Arrays of primitives stay on one line, like `"compatibility_flags": ["nodejs_compat"]`
+ */
+function formatJson(value: unknown, indent: string, unit: string): string {
+	const inner = indent + unit;
+
+	if (Array.isArray(value)) {
+		if (value.length === 0) {
+			return '[]';
+		}
+		if (value.every((item) => item === null || typeof item !== 'object')) {
+			return `[${value.map((item) => JSON.stringify(item)).join(', ')}]`;
+		}
+		return `[\n${value.map((item) => inner + formatJson(item, inner, unit)).join(',\n')}\n${indent}]`;
+	}
+
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+		if (entries.length === 0) {
+			return '{}';
+		}
+		const lines = entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${formatJson(item, inner, unit)}`);
+		return `{\n${lines.join(',\n')}\n${indent}}`;
+	}
+
+	return JSON.stringify(value);
+}
+
+const splice = (text: string, start: number, end: number, insert: string) =>
+	text.slice(0, start) + insert + text.slice(end);
+
+/**
+ * Append an entry (formatted for the indentation it gets) to an object or array
+ * Follows the list's layout: entries on their own lines, on one line, and trailing commas
+ */
+function appendToList(
+	text: string,
+	jsonFile: ts.JsonSourceFile,
+	list: JsonList,
+	unit: string,
+	entry: (indent: string) => string
+) {
+	const items = listItems(list);
+	const listStart = list.getStart(jsonFile);
+	const listIndent = lineIndentAt(text, listStart);
+	const last = items[items.length - 1];
+
+	if (!last) {
+		const indent = listIndent + unit;
+		const open = listStart + 1;
+		const close = list.getEnd() - 1;
+		// Keep comments written inside the empty list
+		const comments = text.slice(open, close).trim();
+		const kept = comments ? `\n${indent}${comments}` : '';
+		return splice(text, open, close, `${kept}\n${indent}${entry(indent)}\n${listIndent}`);
+	}
+
+	if (!text.slice(listStart, last.getStart(jsonFile)).includes('\n')) {
+		return splice(text, last.getEnd(), last.getEnd(), `, ${entry(listIndent)}`);
+	}
+
+	const indent = lineIndentAt(text, last.getStart(jsonFile));
+	if (items.hasTrailingComma) {
+		return splice(text, items.end, items.end, `\n${indent}${entry(indent)},`);
+	}
+
+	return splice(text, last.getEnd(), last.getEnd(), `,\n${indent}${entry(indent)}`);
+}
+
+/**
+ * Remove an entry of an object or array together with its comma
+ * An entry on its own line goes with its line, including a comment at the end of it
+ */
+function removeFromList(text: string, jsonFile: ts.JsonSourceFile, list: JsonList, index: number) {
+	const items = listItems(list);
+	const item = items[index];
+	const start = item.getStart(jsonFile);
+	const next = items[index + 1];
+
+	if (!next && index > 0 && !items.hasTrailingComma) {
+		// The last entry takes the comma before it
+		return splice(text, items[index - 1].getEnd(), item.getEnd(), '');
+	}
+
+	if (!next && index === 0 && !items.hasTrailingComma) {
+		return splice(text, list.getStart(jsonFile) + 1, list.getEnd() - 1, '');
+	}
+
+	// Through the comma after the entry (a node's pos is just after the preceding comma)
+	const end = next ? next.pos : items.end;
+	const ownLine = !text.slice(lineStartAt(text, start), start).trim();
+	const rest = /^[ \t]*(\/\/[^\n]*)?\n/.exec(text.slice(end));
+
+	if (ownLine && rest) {
+		return splice(text, lineStartAt(text, start), end + rest[0].length, '');
+	}
+
+	return splice(text, start, end + (/^[ \t]*/.exec(text.slice(end))?.[0].length ?? 0), '');
+}
+
+/**
+ * Set the value at a path in JSONC text, creating the objects on the way
+ * Everything else, including comments, keeps its formatting
+ */
+export function setConfigValue(text: string, path: ConfigPath, value: unknown, fileName = 'wrangler.jsonc') {
+	const { jsonFile, root } = parseConfigRoot(text, fileName);
+	const unit = indentUnit(text, root, jsonFile);
+	const { object, depth, property } = resolvePath(root, path, fileName);
+
+	if (property) {
+		const indent = lineIndentAt(text, property.getStart(jsonFile));
+		return splice(
+			text,
+			property.initializer.getStart(jsonFile),
+			property.initializer.getEnd(),
+			formatJson(value, indent, unit)
+		);
+	}
+
+	const nested = path.slice(depth + 1).reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+	return appendToList(
+		text,
+		jsonFile,
+		object,
+		unit,
+		(indent) => `${JSON.stringify(path[depth])}: ${formatJson(nested, indent, unit)}`
+	);
+}
+
+/**
+ * Remove the field at a path from JSONC text; text without it is returned unchanged
+ */
+export function removeConfigValue(text: string, path: ConfigPath, fileName = 'wrangler.jsonc') {
+	const { jsonFile, root } = parseConfigRoot(text, fileName);
+	const { object, property } = resolvePath(root, path, fileName);
+
+	if (!property) {
+		return text;
+	}
+
+	return removeFromList(text, jsonFile, object, object.properties.indexOf(property));
+}
+
+/**
+ * Append a value to the array at a path in JSONC text, creating the array if it is missing
+ */
+export function appendConfigValue(text: string, path: ConfigPath, value: unknown, fileName = 'wrangler.jsonc') {
+	const { jsonFile, root } = parseConfigRoot(text, fileName);
+	const { property } = resolvePath(root, path, fileName);
+
+	if (!property) {
+		return setConfigValue(text, path, [value], fileName);
+	}
+	if (!ts.isArrayLiteralExpression(property.initializer)) {
+		throw new ContainerManagerError('INVALID_SOURCE', `${fileName}: ${path.join('.')} is not an array`);
+	}
+
+	const unit = indentUnit(text, root, jsonFile);
+	return appendToList(text, jsonFile, property.initializer, unit, (indent) => formatJson(value, indent, unit));
+}
+
+/**
+ * Remove the elements of the array at a path that match, returning the new text and how many went
+ */
+export function removeConfigValues(
+	text: string,
+	path: ConfigPath,
+	shouldRemove: (value: unknown) => boolean,
+	fileName = 'wrangler.jsonc'
+) {
+	let updated = text;
+	let removed = 0;
+
+	// One element at a time, since each removal moves the ones after it
+	for (;;) {
+		const { jsonFile, root } = parseConfigRoot(updated, fileName);
+		const { property } = resolvePath(root, path, fileName);
+		const values = path.reduce<unknown>(
+			(value, key) => (value as Record<string, unknown> | undefined)?.[key],
+			parseWranglerConfig(updated, fileName)
+		);
+
+		if (!property || !ts.isArrayLiteralExpression(property.initializer) || !Array.isArray(values)) {
+			return { text: updated, removed };
+		}
+
+		const index = values.findIndex(shouldRemove);
+		if (index === -1) {
+			return { text: updated, removed };
+		}
+
+		updated = removeFromList(updated, jsonFile, property.initializer, index);
+		removed++;
+	}
+}
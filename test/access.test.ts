@@ -0,0 +1,81 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	accessAllows,
+	assertValidPrincipal,
+	parsePrincipalList,
+	queryAuditLog,
+	recordAudit
+} from '../src/access';
+import { migrate } from '../src/migrations';
+
+beforeEach(async () => {
+	await migrate(env.DB);
+});
+
+describe('access levels', () => {
+	it('lets write grants read but not the other way around', () => {
+		expect(accessAllows('write', 'read')).toBe(true);
+		expect(accessAllows('write', 'write')).toBe(true);
+		expect(accessAllows('read', 'read')).toBe(true);
+		expect(accessAllows('read', 'write')).toBe(false);
+	});
+
+	it('parses the admin list and validates principals', () => {
+		expect([...parsePrincipalList(' meta-mcp, ops@example.com ,,')]).toEqual(['meta-mcp', 'ops@example.com']);
+		expect([...parsePrincipalList(undefined)]).toEqual([]);
+		expect(() => assertValidPrincipal('user:1234')).not.toThrow();
+		expect(() => assertValidPrincipal('')).toThrow(/Invalid principal/);
+		expect(() => assertValidPrincipal('a b')).toThrow(/Invalid principal/);
+	});
+});
+
+describe('audit log', () => {
+	it('records allowed and denied calls with their details', async () => {
+		await recordAudit(env.DB, 'alice', 'weather-api', {
+			action: 'writeFile',
+			containerId: 'mcp-pool-0',
+			details: { path: 'src/index.ts' }
+		});
+		await recordAudit(env.DB, undefined, 'weather-api', { action: 'deleteFile' }, 'Caller has no principal');
+
+		const { entries, nextCursor } = await queryAuditLog(env.DB, { serverId: 'weather-api' });
+
+		expect(nextCursor).toBeUndefined();
+		expect(entries).toMatchObject([
+			{ action: 'deleteFile', principal: undefined, allowed: false, reason: 'Caller has no principal' },
+			{
+				action: 'writeFile',
+				principal: 'alice',
+				containerId: 'mcp-pool-0',
+				details: { path: 'src/index.ts' },
+				allowed: true,
+				reason: undefined
+			}
+		]);
+	});
+
+	it('pages newest first and filters by principal', async () => {
+		for (const principal of ['alice', 'bob', 'alice', 'alice']) {
+			await recordAudit(env.DB, principal, 'weather-api', { action: 'readFile' });
+		}
+
+		const first = await queryAuditLog(env.DB, { principal: 'alice', limit: 2 });
+		const second = await queryAuditLog(env.DB, { principal: 'alice', limit: 2, cursor: first.nextCursor });
+
+		expect(first.entries.map((entry) => entry.id)).toEqual([4, 3]);
+		expect(second.entries.map((entry) => entry.id)).toEqual([1]);
+		expect(second.nextCursor).toBeUndefined();
+		await expect(queryAuditLog(env.DB, { cursor: 'nope' })).rejects.toThrow(/Invalid cursor/);
+	});
+
+	it('rejects updates and deletes', async () => {
+		await recordAudit(env.DB, 'alice', 'weather-api', { action: 'deployMCPServer' });
+
+		await expect(env.DB.prepare('UPDATE audit_log SET allowed = 0').run()).rejects.toThrow(/append-only/);
+		await expect(env.DB.prepare('DELETE FROM audit_log').run()).rejects.toThrow(/append-only/);
+
+		const { entries } = await queryAuditLog(env.DB);
+		expect(entries).toHaveLength(1);
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import {
+	addBindingToConfig,
+	bindingsInConfig,
+	removeBindingFromConfig,
+	removeEnvMember,
+	setEnvMember,
+	sortBindings
+} from '../src/bindings';
+import { parseWranglerConfig, setConfigValue } from '../src/wrangler-config';
+
+// The remote-mcp-authless wrangler.jsonc, with a comment on a field
+const CONFIG = `/**
+ * For more details on how to configure Wrangler, refer to:
+ * https://developers.cloudflare.com/workers/wrangler/configuration/
+ */
+{
+	"$schema": "node_modules/wrangler/config-schema.json",
+	"name": "weather-api", // worker name
+	"main": "src/index.ts",
+	"compatibility_date": "2025-03-10",
+	"compatibility_flags": ["nodejs_compat"],
+	"migrations": [
+		{
+			"new_sqlite_classes": ["WeatherApiMCP"],
+			"tag": "v1"
+		}
+	],
+	"durable_objects": {
+		"bindings": [
+			{
+				"class_name": "WeatherApiMCP",
+				"name": "MCP_OBJECT"
+			}
+		]
+	},
+	"observability": {
+		"enabled": true
+	}
+}`;
+
+const TYPES = `// Generated by Wrangler by running \`wrangler types\`
+declare namespace Cloudflare {
+	interface Env {
+		MCP_OBJECT: DurableObjectNamespace<import("./src/index").WeatherApiMCP>;
+	}
+}
+interface Env extends Cloudflare.Env {}
+
+// Begin runtime types
+interface Env {
+	NOT_THIS_ONE: string;
+}
+`;
+
+describe('addBindingToConfig', () => {
+	it('appends bindings after the existing fields, keeping comments and formatting', () => {
+		let config = addBindingToConfig(CONFIG, { type: 'kv', name: 'CACHE', id: 'kv-id' });
+		config = addBindingToConfig(config, { type: 'kv', name: 'SESSIONS', id: 'kv-2' });
+		config = addBindingToConfig(config, { type: 'var', name: 'UNITS', value: 'metric' });
+
+		expect(config.startsWith(CONFIG.slice(0, CONFIG.lastIndexOf('\n}')))).toBe(true);
+		expect(config).toContain('"name": "weather-api", // worker name');
+		expect(config.slice(CONFIG.lastIndexOf('\n}'))).toBe(`,
+	"kv_namespaces": [
+		{
+			"binding": "CACHE",
+			"id": "kv-id"
+		},
+		{
+			"binding": "SESSIONS",
+			"id": "kv-2"
+		}
+	],
+	"vars": {
+		"UNITS": "metric"
+	}
+}`);
+	});
+
+	it('adds a migration for a Durable Object class of the worker', () => {
+		const config = addBindingToConfig(CONFIG, { type: 'durable_object', name: 'COUNTER', className: 'Counter' });
+		const parsed = parseWranglerConfig(config);
+
+		expect(parsed.durable_objects).toEqual({
+			bindings: [
+				{ class_name: 'WeatherApiMCP', name: 'MCP_OBJECT' },
+				{ class_name: 'Counter', name: 'COUNTER' }
+			]
+		});
+		expect(parsed.migrations).toEqual([
+			{ new_sqlite_classes: ['WeatherApiMCP'], tag: 'v1' },
+			{ new_sqlite_classes: ['Counter'], tag: 'v2' }
+		]);
+
+		const external = addBindingToConfig(CONFIG, {
+			type: 'durable_object',
+			name: 'ROOMS',
+			className: 'Room',
+			scriptName: 'chat'
+		});
+		expect(parseWranglerConfig(external).migrations).toHaveLength(1);
+	});
+
+	it('reads back every binding type it writes', () => {
+		const bindings = [
+			{ type: 'kv', name: 'CACHE', id: 'kv-id' },
+			{ type: 'd1', name: 'DB', databaseName: 'weather', databaseId: 'd1-id' },
+			{ type: 'r2', name: 'FILES', bucketName: 'files' },
+			{ type: 'durable_object', name: 'ROOMS', className: 'Room', scriptName: 'chat' },
+			{ type: 'ai', name: 'AI' },
+			{ type: 'service', name: 'AUTH', service: 'auth-worker', entrypoint: 'Verifier' },
+			{ type: 'var', name: 'UNITS', value: 'metric' }
+		] as const;
+		const config = bindings.reduce((text, binding) => addBindingToConfig(text, binding), CONFIG);
+
+		expect(bindingsInConfig(parseWranglerConfig(config))).toEqual(
+			sortBindings([{ type: 'durable_object', name: 'MCP_OBJECT', className: 'WeatherApiMCP' }, ...bindings])
+		);
+	});
+});
+
+describe('removeBindingFromConfig', () => {
+	it('restores the config it was added to', () => {
+		const kv = { type: 'kv', name: 'CACHE', id: 'kv-id' } as const;
+		const unit = { type: 'var', name: 'UNITS', value: 'metric' } as const;
+		const config = addBindingToConfig(addBindingToConfig(CONFIG, kv), unit);
+
+		expect(removeBindingFromConfig(removeBindingFromConfig(config, unit), kv)).toBe(CONFIG);
+	});
+
+	it('keeps the other entries of a section and the migrations of removed classes', () => {
+		const counter = { type: 'durable_object', name: 'COUNTER', className: 'Counter' } as const;
+		const config = removeBindingFromConfig(addBindingToConfig(CONFIG, counter), counter);
+		const parsed = parseWranglerConfig(config);
+
+		expect(parsed.durable_objects).toEqual({ bindings: [{ class_name: 'WeatherApiMCP', name: 'MCP_OBJECT' }] });
+		expect(parsed.migrations).toHaveLength(2);
+	});
+});
+
+describe('setConfigValue', () => {
+	it('replaces values in place and follows trailing commas', () => {
+		const config = '{\n\t"name": "a", // keep\n\t"vars": {\n\t\t"A": "1",\n\t},\n}';
+
+		expect(setConfigValue(config, ['name'], 'b')).toBe(
+			'{\n\t"name": "b", // keep\n\t"vars": {\n\t\t"A": "1",\n\t},\n}'
+		);
+		expect(setConfigValue(config, ['vars', 'B'], '2')).toBe(
+			'{\n\t"name": "a", // keep\n\t"vars": {\n\t\t"A": "1",\n\t\t"B": "2",\n\t},\n}'
+		);
+	});
+
+	it('reports configs that do not parse', () => {
+		expect(() => setConfigValue('{ "name": ', ['name'], 'b')).toThrow(/wrangler.jsonc does not parse/);
+	});
+});
+
+describe('Env members', () => {
+	it('adds, retypes and removes members of the generated Env', () => {
+		const added = setEnvMember(TYPES, { name: 'CACHE', type: 'KVNamespace' });
+
+		expect(added).toContain(
+			'\t\tMCP_OBJECT: DurableObjectNamespace<import("./src/index").WeatherApiMCP>;\n\t\tCACHE: KVNamespace;\n\t}\n}'
+		);
+		expect(setEnvMember(added, { name: 'CACHE', type: 'R2Bucket' })).toContain('\t\tCACHE: R2Bucket;\n');
+		expect(removeEnvMember(added, 'CACHE')).toBe(TYPES);
+		expect(removeEnvMember(TYPES, 'NOT_THIS_ONE')).toBe(TYPES);
+	});
+
+	it('declares an Env in files without one', () => {
+		expect(setEnvMember('// Begin runtime types\n', { name: 'AI', type: 'Ai' })).toBe(`declare namespace Cloudflare {
+	interface Env {
+		AI: Ai;
+	}
+}
+interface Env extends Cloudflare.Env {}
+
+// Begin runtime types
+`);
+	});
+});
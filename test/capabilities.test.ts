@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { listCapabilities } from '../src/capabilities';
+
+const SOURCE = `import { McpAgent } from "agents/mcp";
+import { z } from "zod";
+
+export class WeatherApiMCP extends McpAgent {
+	async init() {
+		this.server.tool(
+			"forecast",
+			{
+				city: z.string(),
+				days: z.number().optional(),
+				units: z.enum(["metric", "imperial"]).default("metric"),
+				region: z.string().nullable(),
+				note: z.string().nullish(),
+			},
+			async () => ({ content: [] }),
+		);
+	}
+}
+`;
+
+describe('listCapabilities', () => {
+	it('reports nullable parameters as required unless they may also be left out', () => {
+		const [tool] = listCapabilities(SOURCE).tools;
+
+		expect(tool.parameters?.map(({ name, optional, nullable }) => ({ name, optional, nullable }))).toEqual([
+			{ name: 'city', optional: false, nullable: undefined },
+			{ name: 'days', optional: true, nullable: undefined },
+			{ name: 'units', optional: true, nullable: undefined },
+			{ name: 'region', optional: false, nullable: true },
+			{ name: 'note', optional: true, nullable: true }
+		]);
+	});
+});
@@ -0,0 +1,98 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+	containerHealth,
+	failOrphanedExecutions,
+	isCrash,
+	recordContainerEvent,
+	restartDelaySeconds
+} from '../src/container-health';
+import { migrate } from '../src/migrations';
+
+beforeEach(async () => {
+	await migrate(env.DB);
+});
+
+describe('restart policy', () => {
+	it('treats non-zero exits as crashes', () => {
+		expect(isCrash(0)).toBe(false);
+		expect(isCrash(1)).toBe(true);
+		expect(isCrash(137)).toBe(true);
+	});
+
+	it('doubles the delay with each crash in a row, up to five minutes', () => {
+		expect([0, 1, 2, 3, 4, 5, 6, 10].map(restartDelaySeconds)).toEqual([5, 10, 20, 40, 80, 160, 300, 300]);
+	});
+});
+
+describe('containerHealth', () => {
+	it('knows nothing about a container without events', async () => {
+		expect(await containerHealth(env.DB, 'mcp-pool-0')).toEqual({
+			containerId: 'mcp-pool-0',
+			status: 'unknown',
+			startedAt: undefined,
+			uptimeMs: undefined,
+			restarts: 0,
+			lastError: undefined,
+			recentEvents: []
+		});
+	});
+
+	it('reports uptime since the last start, restarts and the last error', async () => {
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'start');
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'crash', { exitCode: 2, error: 'Exited with code 2 (exit)' });
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'restart');
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'start');
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'ready');
+		await recordContainerEvent(env.DB, 'mcp-pool-1', 'error', { error: 'Other container' });
+
+		const { results } = await env.DB.prepare(`
+			SELECT created_at FROM container_events WHERE container_id = 'mcp-pool-0' AND type = 'start' ORDER BY id DESC
+		`).all<{ created_at: number }>();
+		const health = await containerHealth(env.DB, 'mcp-pool-0', results[0].created_at + 1500);
+
+		expect(health).toMatchObject({
+			status: 'running',
+			startedAt: results[0].created_at,
+			uptimeMs: 1500,
+			restarts: 1,
+			lastError: { message: 'Exited with code 2 (exit)', exitCode: 2 }
+		});
+		expect(health.recentEvents.map((event) => event.type)).toEqual(['ready', 'start', 'restart', 'crash', 'start']);
+	});
+
+	it('is stopped after a clean stop', async () => {
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'start');
+		await recordContainerEvent(env.DB, 'mcp-pool-0', 'stop', { exitCode: 0 });
+
+		expect(await containerHealth(env.DB, 'mcp-pool-0')).toMatchObject({
+			status: 'stopped',
+			uptimeMs: undefined,
+			lastError: undefined
+		});
+	});
+});
+
+describe('failOrphanedExecutions', () => {
+	it('fails only the running executions of the stopped container', async () => {
+		const insert = (id: string, containerId: string, status: string) =>
+			env.DB.prepare(`
+				INSERT INTO container_executions (id, server_id, container_id, command, status, started_at)
+				VALUES (?, 'weather-api', ?, 'npm install', ?, 1)
+			`).bind(id, containerId, status);
+		await env.DB.batch([
+			insert('running', 'mcp-pool-0', 'running'),
+			insert('done', 'mcp-pool-0', 'succeeded'),
+			insert('elsewhere', 'mcp-pool-1', 'running')
+		]);
+
+		expect(await failOrphanedExecutions(env.DB, 'mcp-pool-0', 'Container mcp-pool-0 crashed')).toBe(1);
+
+		const { results } = await env.DB.prepare('SELECT id, status, error FROM container_executions ORDER BY id').all();
+		expect(results).toEqual([
+			{ id: 'done', status: 'succeeded', error: null },
+			{ id: 'elsewhere', status: 'running', error: null },
+			{ id: 'running', status: 'failed', error: 'Container mcp-pool-0 crashed' }
+		]);
+	});
+});
@@ -0,0 +1,9 @@
+declare module 'cloudflare:test' {
+	interface ProvidedEnv {
+		DB: D1Database;
+		KV: KVNamespace;
+		CONTAINER_POOL: DurableObjectNamespace<import('../src/pool').ContainerPool>;
+		// The local container runtime (test/local-container.ts)
+		LOCAL_CONTAINER: Fetcher;
+	}
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PermissionDeniedError } from '../src/access';
+import { assertValidPackageName } from '../src/dependencies';
+import { ContainerManagerError, failure, ok } from '../src/errors';
+import { assertValidServerId } from '../src/validation';
+
+const caught = (run: () => unknown) => {
+	try {
+		run();
+	} catch (error) {
+		return failure(error);
+	}
+	throw new Error('Expected an error');
+};
+
+describe('failure', () => {
+	it('keeps the code and details of coded errors', () => {
+		expect(failure(new ContainerManagerError('TIMEOUT', 'Command timed out', { exitCode: -1 }))).toEqual({
+			success: false,
+			code: 'TIMEOUT',
+			error: 'Command timed out',
+			details: { exitCode: -1 }
+		});
+		expect(failure(new PermissionDeniedError('bob has no write access to server weather-api'))).toMatchObject({
+			code: 'PERMISSION_DENIED'
+		});
+	});
+
+	it('codes validation errors', () => {
+		expect(caught(() => assertValidServerId('Weather API'))).toMatchObject({ code: 'INVALID_ARGUMENT' });
+		expect(caught(() => assertValidPackageName('-rf'))).toMatchObject({ code: 'INVALID_ARGUMENT' });
+	});
+
+	it('treats anything else as INTERNAL', () => {
+		expect(failure(new Error('D1_ERROR: no such table'))).toEqual({
+			success: false,
+			code: 'INTERNAL',
+			error: 'D1_ERROR: no such table'
+		});
+		expect(failure('thrown string')).toMatchObject({ code: 'INTERNAL', error: 'Unknown error' });
+	});
+});
+
+describe('ok', () => {
+	it('marks a value as a success', () => {
+		expect(ok({ path: 'src/index.ts' })).toEqual({ success: true, path: 'src/index.ts' });
+	});
+});
@@ -0,0 +1,155 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { executionStats, queryExecutions } from '../src/executions';
+import { migrate } from '../src/migrations';
+import type { ExecutionStatus } from '../src/types';
+
+interface Seed {
+	id: string;
+	serverId?: string;
+	containerId?: string;
+	command?: string;
+	status?: ExecutionStatus;
+	error?: string;
+	startedAt: number;
+	durationMs?: number;
+}
+
+async function seed(executions: Seed[]) {
+	await env.DB.batch(
+		executions.map((execution) =>
+			env.DB.prepare(`
+				INSERT INTO container_executions
+					(id, server_id, container_id, command, status, output, error, started_at, completed_at)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`).bind(
+				execution.id,
+				execution.serverId ?? 'weather-api',
+				execution.containerId ?? 'mcp-pool-0',
+				execution.command ?? 'npm install',
+				execution.status ?? 'succeeded',
+				'output',
+				execution.error ?? null,
+				execution.startedAt,
+				execution.durationMs === undefined ? null : execution.startedAt + execution.durationMs
+			)
+		)
+	);
+}
+
+const ids = (page: { executions: { id: string }[] }) => page.executions.map((execution) => execution.id);
+
+beforeEach(async () => {
+	await migrate(env.DB);
+});
+
+describe('queryExecutions', () => {
+	it('lists executions newest first without their output', async () => {
+		await seed([
+			{ id: 'a', startedAt: 100, durationMs: 5 },
+			{ id: 'b', startedAt: 300, status: 'running' },
+			{ id: 'c', startedAt: 200, durationMs: 7 }
+		]);
+
+		const page = await queryExecutions(env.DB);
+
+		expect(ids(page)).toEqual(['b', 'c', 'a']);
+		expect(page.executions[1]).toEqual({
+			id: 'c',
+			serverId: 'weather-api',
+			containerId: 'mcp-pool-0',
+			command: 'npm install',
+			status: 'succeeded',
+			error: undefined,
+			output: undefined,
+			startedAt: 200,
+			completedAt: 207,
+			durationMs: 7
+		});
+		expect(page.nextCursor).toBeUndefined();
+	});
+
+	it('filters by server, container, status and start time', async () => {
+		await seed([
+			{ id: 'a', startedAt: 100, status: 'failed' },
+			{ id: 'b', startedAt: 200, serverId: 'other' },
+			{ id: 'c', startedAt: 300, containerId: 'mcp-pool-1', status: 'cancelled' },
+			{ id: 'd', startedAt: 400 }
+		]);
+
+		expect(ids(await queryExecutions(env.DB, { serverId: 'weather-api' }))).toEqual(['d', 'c', 'a']);
+		expect(ids(await queryExecutions(env.DB, { containerId: 'mcp-pool-1' }))).toEqual(['c']);
+		expect(ids(await queryExecutions(env.DB, { status: ['failed', 'cancelled'] }))).toEqual(['c', 'a']);
+		expect(ids(await queryExecutions(env.DB, { since: 200, until: 400 }))).toEqual(['c', 'b']);
+	});
+
+	it('pages with a cursor, including through executions that started at the same time', async () => {
+		await seed([
+			{ id: 'a', startedAt: 100 },
+			{ id: 'b', startedAt: 200 },
+			{ id: 'c', startedAt: 200 },
+			{ id: 'd', startedAt: 200 },
+			{ id: 'e', startedAt: 300 }
+		]);
+
+		const first = await queryExecutions(env.DB, { limit: 2 });
+		const second = await queryExecutions(env.DB, { limit: 2, cursor: first.nextCursor });
+		const third = await queryExecutions(env.DB, { limit: 2, cursor: second.nextCursor });
+
+		expect([ids(first), ids(second), ids(third)]).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+		expect(third.nextCursor).toBeUndefined();
+	});
+
+	it('rejects unknown statuses and malformed cursors', async () => {
+		await expect(queryExecutions(env.DB, { status: 'done' as ExecutionStatus })).rejects.toThrow(/Invalid status/);
+		await expect(queryExecutions(env.DB, { cursor: 'nope' })).rejects.toThrow(/Invalid cursor/);
+	});
+});
+
+describe('executionStats', () => {
+	it('counts executions by status', async () => {
+		await seed([
+			{ id: 'a', startedAt: 1, durationMs: 1 },
+			{ id: 'b', startedAt: 2, durationMs: 1, status: 'failed' },
+			{ id: 'c', startedAt: 3, status: 'running' },
+			{ id: 'd', startedAt: 4, durationMs: 1, serverId: 'other' }
+		]);
+
+		const stats = await executionStats(env.DB, 'weather-api');
+
+		expect(stats.total).toBe(3);
+		expect(stats.byStatus).toEqual({ queued: 0, running: 1, succeeded: 1, failed: 1, cancelled: 0 });
+	});
+
+	it('reports nearest-rank p50 and p95 of finished executions', async () => {
+		await seed(
+			Array.from({ length: 20 }, (_, index) => ({ id: `e${index}`, startedAt: index, durationMs: (index + 1) * 10 }))
+		);
+
+		const stats = await executionStats(env.DB, 'weather-api');
+
+		expect(stats.durationMs).toEqual({ p50: 100, p95: 190 });
+	});
+
+	it('leaves durations undefined without finished executions', async () => {
+		await seed([{ id: 'a', startedAt: 1, status: 'running' }]);
+
+		expect((await executionStats(env.DB, 'weather-api')).durationMs).toEqual({ p50: undefined, p95: undefined });
+	});
+
+	it('ranks failing commands by failures with their latest error', async () => {
+		await seed([
+			{ id: 'a', startedAt: 1, durationMs: 1, status: 'failed', command: 'npx tsc', error: 'old error' },
+			{ id: 'b', startedAt: 2, durationMs: 1, status: 'failed', command: 'npx tsc', error: 'new error' },
+			{ id: 'c', startedAt: 3, durationMs: 1, status: 'failed', command: 'npm test', error: 'boom' },
+			{ id: 'd', startedAt: 4, durationMs: 1, command: 'npm test' }
+		]);
+
+		const stats = await executionStats(env.DB, 'weather-api');
+
+		expect(stats.topFailingCommands).toEqual([
+			{ command: 'npx tsc', failures: 2, lastFailedAt: 2, lastError: 'new error' },
+			{ command: 'npm test', failures: 1, lastFailedAt: 3, lastError: 'boom' }
+		]);
+	});
+});
@@ -0,0 +1,532 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { type Dirent, rmSync, type Stats } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+
+/**
+ * Templates the container image ships under /templates (see the Dockerfile)
+ */
+const TEMPLATES = [
+	'remote-mcp-authless',
+	'tool-calling',
+	'orchestrator-workers',
+	'agent-task-manager',
+	'routing',
+	'parallelisation',
+	'e2e'
+];
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_OUTPUT_BYTES = 1 << 20;
+const MAX_READ_BYTES = 16 << 20;
+
+/**
+ * An error the agent answers with an HTTP status
+ */
+class AgentError extends Error {
+	constructor(
+		public status: number,
+		message: string
+	) {
+		super(message);
+	}
+}
+
+interface ExecRequest {
+	id?: string;
+	command: string;
+	cwd?: string;
+	env?: Record<string, string>;
+	timeoutMs?: number;
+}
+
+interface ExecResponse {
+	exitCode: number;
+	stdout: string;
+	stderr: string;
+	durationMs: number;
+	timedOut: boolean;
+	cancelled: boolean;
+	truncated: boolean;
+}
+
+interface FsRequest {
+	path: string;
+	to?: string;
+	root?: string;
+	content?: string;
+	encoding?: string;
+	recursive?: boolean;
+	include?: string[];
+	exclude?: string[];
+}
+
+/**
+ * Stand-in for the container agent (container_src) that runs on the test machine, so
+ * ContainerManagerRPC can be tested end to end without Cloudflare containers or a network
+ *
+ * It speaks the agent's HTTP protocol under `/<containerId>/...`. Each container gets a directory
+ * standing in for /workspace and /tmp, and all of them share a copy of the templates standing in
+ * for /templates. Paths in requests, commands and command output are mapped between the two.
+ *
+ * The image's globally installed packages (wrangler, typescript, the MCP SDK) are this repo's
+ * node_modules, linked above the containers so Node and npx resolve them from any workspace.
+ * Template manifests are stripped of dependencies and lockfiles, because `npm install` runs
+ * offline and must never touch that shared node_modules.
+ */
+export class LocalContainerRuntime {
+	private running = new Map<string, ChildProcess>();
+
+	private constructor(public root: string) {}
+
+	/**
+	 * Create a runtime in a new temp directory, copying the templates from agentsDir
+	 */
+	static async create(agentsDir: string, nodeModules: string) {
+		const root = await fs.realpath(await fs.mkdtemp(path.join(tmpdir(), 'local-container-')));
+
+		try {
+			await fs.symlink(nodeModules, path.join(root, 'node_modules'), 'dir');
+
+			for (const template of TEMPLATES) {
+				const target = path.join(root, 'templates', template);
+				await fs.cp(path.join(agentsDir, template), target, {
+					recursive: true,
+					filter: (source) => !source.split(path.sep).includes('node_modules')
+				});
+				await fs.rm(path.join(target, 'package-lock.json'), { force: true });
+
+				const manifestPath = path.join(target, 'package.json');
+				const manifest = await fs.readFile(manifestPath, 'utf8').then(JSON.parse, () => undefined);
+				if (manifest) {
+					manifest.dependencies = {};
+					manifest.devDependencies = {};
+					await fs.writeFile(manifestPath, `${JSON.stringify(manifest, null, '\t')}\n`);
+				}
+			}
+		} catch (error) {
+			await fs.rm(root, { recursive: true, force: true });
+			throw error;
+		}
+
+		return new LocalContainerRuntime(root);
+	}
+
+	/**
+	 * Handle one agent request
+	 */
+	async fetch(request: Request): Promise<Response> {
+		const [, containerId, ...route] = new URL(request.url).pathname.split('/');
+		const operation = route.join('/');
+
+		try {
+			if (!containerId || !/^[a-z0-9-]+$/.test(containerId)) {
+				throw new AgentError(400, `Invalid container ${containerId}`);
+			}
+			await fs.mkdir(this.containerPath(containerId, '/workspace'), { recursive: true });
+			await fs.mkdir(this.containerPath(containerId, '/tmp'), { recursive: true });
+
+			if (operation === 'health') {
+				return json(200, { status: 'ok', instanceId: containerId });
+			}
+
+			const body = await request.json();
+
+			switch (operation) {
+				case 'exec':
+					return json(200, await this.run(containerId, parseExecRequest(body)));
+				case 'exec/stream':
+					return this.stream(containerId, parseExecRequest(body));
+				case 'exec/cancel':
+					return json(200, this.cancel((body as { id?: string }).id));
+			}
+			if (operation.startsWith('fs/')) {
+				return json(200, await this.fsOperation(containerId, operation.slice(3), body as FsRequest));
+			}
+
+			throw new AgentError(404, `No route for ${operation}`);
+		} catch (error) {
+			if (error instanceof AgentError) {
+				return json(error.status, { error: error.message });
+			}
+			return json(fsStatus(error), { error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	/**
+	 * Kill running commands and delete the temp directory
+	 * Synchronous, so it can run in a process exit handler
+	 */
+	dispose() {
+		for (const child of this.running.values()) {
+			killGroup(child);
+		}
+		rmSync(this.root, { recursive: true, force: true });
+	}
+
+	/**
+	 * Local path of a container path under /templates, /workspace or /tmp
+	 */
+	containerPath(containerId: string, containerPath: string) {
+		for (const [mount, local] of this.mounts(containerId)) {
+			if (containerPath === mount || containerPath.startsWith(`${mount}/`)) {
+				return local + containerPath.slice(mount.length);
+			}
+		}
+		throw new AgentError(403, `${containerPath} is outside the local container's /templates, /workspace and /tmp`);
+	}
+
+	private mounts(containerId: string): [string, string][] {
+		return [
+			['/templates', path.join(this.root, 'templates')],
+			['/workspace', path.join(this.root, containerId, 'workspace')],
+			['/tmp', path.join(this.root, containerId, 'tmp')]
+		];
+	}
+
+	/**
+	 * Rewrite container paths in a command to local ones
+	 */
+	private localCommand(containerId: string, command: string) {
+		return command.replace(/(^|[\s'"=])(\/(?:templates|workspace|tmp))(?=[/\s'"]|$)/g, (_, before, mount) => {
+			return before + this.containerPath(containerId, mount);
+		});
+	}
+
+	/**
+	 * Rewrite local paths in command output back to container paths
+	 */
+	private containerOutput(containerId: string, output: string) {
+		return this.mounts(containerId).reduce((text, [mount, local]) => text.split(local).join(mount), output);
+	}
+
+	private async run(containerId: string, request: ExecRequest, onOutput?: (stream: string, data: string) => void) {
+		const started = Date.now();
+		const cwd = request.cwd ? this.containerPath(containerId, request.cwd) : this.containerPath(containerId, '/workspace');
+		const timeoutMs = Math.min(request.timeoutMs || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+
+		const child = spawn('sh', ['-c', this.localCommand(containerId, request.command)], {
+			cwd,
+			env: { ...process.env, ...request.env },
+			detached: true,
+			stdio: ['ignore', 'pipe', 'pipe']
+		});
+		if (request.id) {
+			this.running.set(request.id, child);
+		}
+
+		const output = { stdout: '', stderr: '' };
+		let truncated = false;
+		let timedOut = false;
+
+		for (const stream of ['stdout', 'stderr'] as const) {
+			child[stream]?.setEncoding('utf8');
+			child[stream]?.on('data', (chunk: string) => {
+				const data = this.containerOutput(containerId, chunk);
+				const remaining = MAX_OUTPUT_BYTES - output[stream].length;
+				if (data.length > remaining) {
+					truncated = true;
+				}
+				output[stream] += data.slice(0, Math.max(remaining, 0));
+				onOutput?.(stream, data);
+			});
+		}
+
+		const timer = setTimeout(() => {
+			timedOut = true;
+			killGroup(child);
+		}, timeoutMs);
+
+		try {
+			const exitCode = await new Promise<number>((resolve, reject) => {
+				child.on('error', reject);
+				child.on('close', (code) => resolve(code ?? 1));
+			});
+			const cancelled = (child as ChildProcess & { cancelled?: boolean }).cancelled === true;
+
+			return {
+				// Conventional shell statuses for commands killed by timeout(1) and by SIGKILL
+				exitCode: timedOut ? 124 : cancelled ? 137 : exitCode,
+				...output,
+				durationMs: Date.now() - started,
+				timedOut,
+				cancelled,
+				truncated
+			} satisfies ExecResponse;
+		} finally {
+			clearTimeout(timer);
+			if (request.id) {
+				this.running.delete(request.id);
+			}
+		}
+	}
+
+	private stream(containerId: string, request: ExecRequest) {
+		const encoder = new TextEncoder();
+
+		const body = new ReadableStream<Uint8Array>({
+			start: async (controller) => {
+				const send = (event: Record<string, unknown>) => {
+					controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+				};
+
+				send({ type: 'start' });
+				try {
+					const result = await this.run(containerId, request, (stream, data) =>
+						send({ type: 'output', stream, data })
+					);
+					send({
+						type: 'exit',
+						exitCode: result.exitCode,
+						durationMs: result.durationMs,
+						timedOut: result.timedOut,
+						cancelled: result.cancelled,
+						truncated: result.truncated
+					});
+				} catch (error) {
+					send({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+				}
+				controller.close();
+			}
+		});
+
+		return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+	}
+
+	private cancel(id: string | undefined) {
+		if (!id) {
+			throw new AgentError(400, 'an id is required');
+		}
+		const child = this.running.get(id);
+		if (!child) {
+			throw new AgentError(404, `no running command with id ${id}`);
+		}
+
+		Object.assign(child, { cancelled: true });
+		killGroup(child);
+		return { cancelled: true };
+	}
+
+	private async fsOperation(containerId: string, operation: string, request: FsRequest) {
+		if (!request.path?.startsWith('/')) {
+			throw new AgentError(400, 'an absolute path is required');
+		}
+
+		const root = request.root ? this.containerPath(containerId, request.root) : undefined;
+		const target = this.containerPath(containerId, request.path);
+		const destination = request.to?.startsWith('/') ? this.containerPath(containerId, request.to) : undefined;
+		for (const local of [target, destination]) {
+			if (local && root) {
+				await confine(root, local);
+			}
+		}
+
+		switch (operation) {
+			case 'read': {
+				const info = await fs.stat(target);
+				if (info.isDirectory()) {
+					throw new Error(`${request.path} is a directory`);
+				}
+				if (info.size > MAX_READ_BYTES) {
+					throw new Error(`${request.path} is larger than the ${MAX_READ_BYTES} byte read limit`);
+				}
+				const data = await fs.readFile(target);
+				return { content: data.toString(encoding(request.encoding)), size: data.length };
+			}
+			case 'write': {
+				const data = Buffer.from(request.content ?? '', encoding(request.encoding));
+				await fs.mkdir(path.dirname(target), { recursive: true });
+				await fs.writeFile(target, data);
+				return { bytesWritten: data.length };
+			}
+			case 'list':
+				return { entries: await listFiles(target, request) };
+			case 'stat':
+				return entry(path.basename(target), path.basename(target), await fs.lstat(target));
+			case 'delete': {
+				const info = await fs.lstat(target);
+				if (info.isDirectory() && !request.recursive) {
+					await fs.rmdir(target);
+				} else {
+					await fs.rm(target, { recursive: true });
+				}
+				return { deleted: true };
+			}
+			case 'move': {
+				if (!destination) {
+					throw new AgentError(400, 'an absolute destination path is required');
+				}
+				const exists = await fs.lstat(destination).then(
+					() => true,
+					() => false
+				);
+				if (exists) {
+					throw new AgentError(409, `${request.to} already exists`);
+				}
+				await fs.mkdir(path.dirname(destination), { recursive: true });
+				await fs.rename(target, destination);
+				return { moved: true };
+			}
+			case 'mkdir':
+				await fs.mkdir(target, { recursive: true });
+				return { created: true };
+			case 'copy': {
+				if (!destination) {
+					throw new AgentError(400, 'an absolute destination path is required');
+				}
+				const files = (await fs.lstat(target)).isDirectory()
+					? (await listFiles(target, { path: request.path, recursive: true })).filter(
+							(file) => file.type !== 'directory'
+						).length
+					: 1;
+				await fs.cp(target, destination, { recursive: true, force: true, verbatimSymlinks: true });
+				return { copied: files };
+			}
+		}
+
+		throw new AgentError(404, `No route for fs/${operation}`);
+	}
+}
+
+function parseExecRequest(body: unknown) {
+	const request = body as ExecRequest;
+	if (!request?.command) {
+		throw new AgentError(400, 'command is required');
+	}
+	return request;
+}
+
+function json(status: number, body: unknown) {
+	return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function encoding(name: string | undefined): BufferEncoding {
+	if (name === undefined || name === 'utf8' || name === 'utf-8') {
+		return 'utf8';
+	}
+	if (name === 'base64') {
+		return 'base64';
+	}
+	throw new AgentError(500, `unsupported encoding "${name}"`);
+}
+
+/**
+ * The agent's statuses for filesystem errors
+ */
+function fsStatus(error: unknown) {
+	switch ((error as NodeJS.ErrnoException).code) {
+		case 'ENOENT':
+			return 404;
+		case 'EACCES':
+		case 'EPERM':
+			return 403;
+		case 'EEXIST':
+			return 409;
+		default:
+			return 500;
+	}
+}
+
+function killGroup(child: ChildProcess) {
+	if (child.pid === undefined) {
+		return;
+	}
+	try {
+		// Negative PID: the command's whole process group, as it was started detached
+		process.kill(-child.pid, 'SIGKILL');
+	} catch {
+		// Already exited
+	}
+}
+
+/**
+ * Reject paths that resolve, through symlinks, outside of root
+ */
+async function confine(root: string, local: string) {
+	const realRoot = await fs.realpath(root);
+	let existing = local;
+	while (
+		!(await fs.lstat(existing).then(
+			() => true,
+			() => false
+		)) &&
+		path.dirname(existing) !== existing
+	) {
+		existing = path.dirname(existing);
+	}
+
+	const real = await fs.realpath(existing);
+	if (real !== realRoot && !real.startsWith(`${realRoot}${path.sep}`)) {
+		throw new AgentError(403, 'path escapes the workspace root');
+	}
+}
+
+function entry(relative: string, name: string, info: Stats) {
+	return {
+		path: relative,
+		name,
+		type: info.isSymbolicLink() ? 'symlink' : info.isDirectory() ? 'directory' : 'file',
+		size: info.size,
+		mtime: Math.floor(info.mtimeMs)
+	};
+}
+
+/**
+ * The agent's globs: "**" spans segments, "*" and "?" stay within one, "{a,b}" are alternatives
+ */
+function globToRegExp(glob: string) {
+	let pattern = '';
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index];
+		if (char === '*' && glob[index + 1] === '*') {
+			index++;
+			if (glob[index + 1] === '/') {
+				index++;
+				pattern += '(?:.*/)?';
+			} else {
+				pattern += '.*';
+			}
+		} else if (char === '*') {
+			pattern += '[^/]*';
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else if (char === '{') {
+			pattern += '(?:';
+		} else if (char === '}') {
+			pattern += ')';
+		} else if (char === ',') {
+			pattern += '|';
+		} else {
+			pattern += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+async function listFiles(directory: string, request: FsRequest) {
+	const include = (request.include ?? []).map(globToRegExp);
+	const exclude = (request.exclude ?? []).map(globToRegExp);
+	const entries: ReturnType<typeof entry>[] = [];
+
+	const walk = async (current: string) => {
+		const children: Dirent[] = await fs.readdir(current, { withFileTypes: true });
+		for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+			const local = path.join(current, child.name);
+			const relative = path.relative(directory, local).split(path.sep).join('/');
+			if (exclude.some((pattern) => pattern.test(relative))) {
+				continue;
+			}
+			if (include.length === 0 || include.some((pattern) => pattern.test(relative))) {
+				entries.push(entry(relative, child.name, await fs.lstat(local)));
+			}
+			if (child.isDirectory() && request.recursive) {
+				await walk(local);
+			}
+		}
+	};
+
+	await walk(directory);
+	return entries;
+}
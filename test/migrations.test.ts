@@ -0,0 +1,151 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { ensureSchema, MIGRATIONS, type Migration, migrate } from '../src/migrations';
+
+async function columns(table: string) {
+	const { results } = await env.DB.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+	return results.map((column) => column.name);
+}
+
+async function appliedVersions() {
+	const { results } = await env.DB.prepare('SELECT version FROM schema_migrations ORDER BY version').all<{
+		version: number;
+	}>();
+	return results.map((row) => row.version);
+}
+
+describe('migrate', () => {
+	it('creates the tables the container manager uses', async () => {
+		await migrate(env.DB);
+
+		expect(await columns('container_executions')).toEqual([
+			'id',
+			'server_id',
+			'container_id',
+			'command',
+			'status',
+			'output',
+			'error',
+			'started_at',
+			'completed_at'
+		]);
+		expect(await columns('container_execution_logs')).toEqual(['execution_id', 'seq', 'stream', 'data', 'created_at']);
+		expect(await columns('servers')).toEqual(['id', 'template', 'container_id', 'created_at', 'updated_at', 'owner']);
+		expect(await columns('server_grants')).toEqual(['server_id', 'principal', 'access', 'granted_by', 'created_at']);
+		expect(await columns('container_events')).toEqual(['id', 'container_id', 'type', 'exit_code', 'error', 'created_at']);
+		expect(await columns('builds')).toContain('artifact_hash');
+		expect(await columns('deployments')).toContain('rollback_of');
+	});
+
+	it('supports the execution lifecycle executeInContainer records', async () => {
+		await migrate(env.DB);
+
+		await env.DB.prepare(`
+			INSERT INTO container_executions (id, server_id, container_id, command, status, started_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`).bind('exec-1', 'weather-api', 'mcp-pool-0', 'npm install', 'queued', 1).run();
+		await env.DB.prepare(`
+			UPDATE container_executions
+			SET status = ?, output = ?, error = ?, completed_at = ?
+			WHERE id = ?
+		`).bind('succeeded', 'added 1 package', null, 2, 'exec-1').run();
+
+		const row = await env.DB.prepare('SELECT status, output, completed_at FROM container_executions WHERE id = ?')
+			.bind('exec-1')
+			.first();
+		expect(row).toEqual({ status: 'succeeded', output: 'added 1 package', completed_at: 2 });
+	});
+
+	it('applies each migration once', async () => {
+		const first = await migrate(env.DB);
+		const second = await migrate(env.DB);
+
+		expect(first.applied).toEqual(MIGRATIONS.map((migration) => migration.version));
+		expect(second.applied).toEqual([]);
+		expect(await appliedVersions()).toEqual(MIGRATIONS.map((migration) => migration.version));
+	});
+
+	it('applies only the migrations added since the last run', async () => {
+		await migrate(env.DB, MIGRATIONS.slice(0, 2));
+		const { applied } = await migrate(env.DB);
+
+		expect(applied).toEqual(MIGRATIONS.slice(2).map((migration) => migration.version));
+	});
+
+	it('lets concurrent runs race without applying anything twice', async () => {
+		const results = await Promise.all([migrate(env.DB), migrate(env.DB), migrate(env.DB)]);
+
+		expect(results.flatMap((result) => result.applied).sort()).toEqual(
+			MIGRATIONS.map((migration) => migration.version).sort()
+		);
+		expect(await appliedVersions()).toEqual(MIGRATIONS.map((migration) => migration.version));
+	});
+
+	it('rolls back a failing migration and stops there', async () => {
+		const migrations: Migration[] = [
+			{ version: 1, name: 'first', statements: ['CREATE TABLE first (id TEXT PRIMARY KEY)'] },
+			{
+				version: 2,
+				name: 'broken',
+				statements: ['CREATE TABLE second (id TEXT PRIMARY KEY)', 'INSERT INTO missing VALUES (1)']
+			},
+			{ version: 3, name: 'third', statements: ['CREATE TABLE third (id TEXT PRIMARY KEY)'] }
+		];
+
+		await expect(migrate(env.DB, migrations)).rejects.toThrow(/Migration 2 \(broken\) failed/);
+
+		expect(await appliedVersions()).toEqual([1]);
+		expect(await columns('second')).toEqual([]);
+		expect(await columns('third')).toEqual([]);
+	});
+
+	it('migrates a database created before migrations, keeping its executions', async () => {
+		await env.DB.prepare(`
+			CREATE TABLE container_executions (
+				id TEXT PRIMARY KEY,
+				server_id TEXT NOT NULL,
+				container_id TEXT NOT NULL,
+				command TEXT NOT NULL,
+				status TEXT NOT NULL,
+				output TEXT,
+				error TEXT,
+				started_at INTEGER NOT NULL,
+				completed_at INTEGER
+			)
+		`).run();
+		await env.DB.prepare(`
+			INSERT INTO container_executions (id, server_id, container_id, command, status, output, started_at, completed_at)
+			VALUES ('exec-old', 'weather-api', 'mcp-pool-0', 'npm install', 'completed', 'added 1 package', 1, 2)
+		`).run();
+
+		const { applied } = await migrate(env.DB);
+
+		expect(applied).toEqual(MIGRATIONS.map((migration) => migration.version));
+		const row = await env.DB.prepare('SELECT status, output FROM container_executions WHERE id = ?')
+			.bind('exec-old')
+			.first();
+		expect(row).toEqual({ status: 'succeeded', output: 'added 1 package' });
+	});
+
+	it('keeps deployment versions unique per server', async () => {
+		await migrate(env.DB);
+		const insert = (id: string) =>
+			env.DB.prepare(`
+				INSERT INTO deployments (id, server_id, build_id, version, status, script_name, artifact_hash, created_at)
+				VALUES (?, 'weather-api', 'build-1', 1, 'active', 'weather-api', 'hash', 1)
+			`).bind(id).run();
+
+		await insert('deployment-1');
+		await expect(insert('deployment-2')).rejects.toThrow(/UNIQUE/);
+	});
+});
+
+describe('ensureSchema', () => {
+	it('migrates once per isolate', async () => {
+		const first = ensureSchema(env.DB);
+		const second = ensureSchema(env.DB);
+
+		expect(second).toBe(first);
+		expect((await first).applied).toEqual(MIGRATIONS.map((migration) => migration.version));
+	});
+});
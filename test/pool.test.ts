@@ -0,0 +1,134 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ContainerManagerError } from '../src/errors';
+import type { ContainerLease, ContainerPool } from '../src/pool';
+
+const pool = (name: string) => env.CONTAINER_POOL.get(env.CONTAINER_POOL.idFromName(name));
+
+// Leases one container per server, in order
+async function acquireAll(containers: ContainerPool, serverIds: string[]) {
+	const leases: ContainerLease[] = [];
+	for (const serverId of serverIds) {
+		leases.push(await containers.acquire(serverId));
+	}
+	return leases;
+}
+
+// Resolves once the pool has queued this many waiters
+// Polls with scheduler.wait(), which fake timers leave alone (vi.waitFor would advance them)
+async function queued(containers: ContainerPool, length: number) {
+	for (let attempt = 0; attempt < 100; attempt++) {
+		if ((await containers.getOccupancy()).queue.length === length) {
+			return;
+		}
+		await scheduler.wait(10);
+	}
+	expect((await containers.getOccupancy()).queue).toHaveLength(length);
+}
+
+describe('ContainerPool', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('hands a released container to the next waiter only until it claims the lease', async () => {
+		const containers = pool('claim');
+		const held = await containers.acquire('weather-api');
+		const waiting = containers.acquire('weather-api', 5_000);
+
+		await containers.release(held.leaseId);
+		const handed = await waiting;
+		expect(handed.containerId).toBe(held.containerId);
+		expect(handed.expiresAt - handed.acquiredAt).toBe(30_000);
+
+		const claimed = await containers.renew(handed.leaseId);
+		expect(claimed.expiresAt - claimed.renewedAt).toBe(10 * 60_000);
+		await containers.release(claimed.leaseId);
+	});
+
+	it('leases at most 3 containers at once', async () => {
+		await runInDurableObject(pool('cap'), async (containers: ContainerPool) => {
+			const leases = await acquireAll(containers, ['a-api', 'b-api', 'c-api']);
+			expect(new Set(leases.map((lease) => lease.containerId))).toEqual(
+				new Set(['mcp-pool-0', 'mcp-pool-1', 'mcp-pool-2'])
+			);
+
+			await expect(containers.acquire('d-api', 0)).rejects.toMatchObject({
+				code: 'CONTAINER_BUSY',
+				message: 'All 3 containers are busy'
+			});
+			expect(await containers.getOccupancy()).toMatchObject({ maxInstances: 3, leased: 3, queue: [] });
+		});
+	});
+
+	it('queues callers in arrival order while every container is busy', async () => {
+		await runInDurableObject(pool('fifo'), async (containers: ContainerPool) => {
+			const [first, second] = await acquireAll(containers, ['a-api', 'b-api', 'c-api']);
+			const waitingD = containers.acquire('d-api');
+			await queued(containers, 1);
+			const waitingE = containers.acquire('e-api');
+			await queued(containers, 2);
+			expect((await containers.getOccupancy()).queue.map((waiter) => waiter.serverId)).toEqual(['d-api', 'e-api']);
+
+			await containers.release(first.leaseId);
+			expect(await waitingD).toMatchObject({ serverId: 'd-api', containerId: first.containerId });
+			expect((await containers.getOccupancy()).queue.map((waiter) => waiter.serverId)).toEqual(['e-api']);
+
+			await containers.release(second.leaseId);
+			expect(await waitingE).toMatchObject({ serverId: 'e-api', containerId: second.containerId });
+		});
+	});
+
+	it('gives up on a busy pool after 2 minutes', async () => {
+		vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+		await runInDurableObject(pool('timeout'), async (containers: ContainerPool) => {
+			await acquireAll(containers, ['a-api', 'b-api', 'c-api']);
+			const waiting = containers.acquire('d-api');
+			const outcome = waiting.then(
+				() => 'leased',
+				(error: ContainerManagerError) => error
+			);
+			await queued(containers, 1);
+
+			vi.advanceTimersByTime(2 * 60_000 - 1);
+			await queued(containers, 1);
+			vi.advanceTimersByTime(1);
+			expect(await outcome).toMatchObject({
+				code: 'CONTAINER_BUSY',
+				message: 'All 3 containers are busy; gave up after 120000ms'
+			});
+			expect((await containers.getOccupancy()).queue).toEqual([]);
+		});
+	});
+
+	it('keeps leasing a server the container that holds its workspace after the lease is released', async () => {
+		await runInDurableObject(pool('affinity'), async (containers: ContainerPool) => {
+			const first = await containers.acquire('weather-api');
+			await containers.release(first.leaseId);
+
+			// The other containers host no workspace, but the server's lives in the first one
+			const again = await containers.acquire('weather-api');
+			expect(again.containerId).toBe(first.containerId);
+			expect(await containers.getAssignment('weather-api')).toBe(first.containerId);
+		});
+	});
+
+	it('releases leases idle for 10 minutes when the alarm fires and hands their containers on', async () => {
+		await runInDurableObject(pool('idle'), async (containers: ContainerPool, state: DurableObjectState) => {
+			const leases = await acquireAll(containers, ['a-api', 'b-api', 'c-api']);
+			const waiting = containers.acquire('d-api');
+			await queued(containers, 1);
+			expect(await state.storage.getAlarm()).toBe(Math.min(...leases.map((lease) => lease.expiresAt)));
+
+			vi.useFakeTimers({ toFake: ['Date'] });
+			vi.setSystemTime(Math.max(...leases.map((lease) => lease.expiresAt)));
+			await containers.alarm();
+
+			const handed = await waiting;
+			expect(handed).toMatchObject({ serverId: 'd-api', containerId: leases[0].containerId });
+			const stored = await state.storage.get<{ leases: Record<string, ContainerLease> }>('state');
+			expect(Object.values(stored?.leases ?? {})).toEqual([handed]);
+			expect(await state.storage.getAlarm()).toBe(handed.expiresAt);
+		});
+	});
+});
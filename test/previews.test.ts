@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { assertValidJsonRpcMessage, freePreviewPort, parsePreviewResponse } from '../src/previews';
+
+describe('parsePreviewResponse', () => {
+	it('reads the messages of an SSE response and its session', () => {
+		const output = [
+			'HTTP/1.1 200 OK',
+			'Content-Type: text/event-stream',
+			'mcp-session-id: 5e55',
+			'',
+			'event: message',
+			'data: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progress":1}}',
+			'',
+			'event: message',
+			'data: {"result":{"tools":[]},"jsonrpc":"2.0","id":2}',
+			'',
+			''
+		].join('\r\n');
+
+		expect(parsePreviewResponse(output)).toEqual({
+			status: 200,
+			sessionId: '5e55',
+			messages: [
+				{ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } },
+				{ result: { tools: [] }, jsonrpc: '2.0', id: 2 }
+			],
+			body: undefined
+		});
+	});
+
+	it('reads JSON bodies, empty answers to notifications and other bodies', () => {
+		expect(
+			parsePreviewResponse(
+				'HTTP/1.1 400 Bad Request\r\nContent-Type: application/json\r\n\r\n{"jsonrpc":"2.0","id":null,"error":{"code":-32000}}'
+			)
+		).toMatchObject({ status: 400, messages: [{ error: { code: -32000 } }] });
+		expect(parsePreviewResponse('HTTP/1.1 202 Accepted\r\n\r\n')).toEqual({
+			status: 202,
+			sessionId: undefined,
+			messages: [],
+			body: undefined
+		});
+		expect(parsePreviewResponse('HTTP/1.1 404 Not Found\r\nContent-Type: text/plain\r\n\r\nNot found')).toMatchObject({
+			status: 404,
+			messages: [],
+			body: 'Not found'
+		});
+	});
+});
+
+describe('previews', () => {
+	it('take the first free port pair of their container', () => {
+		expect(freePreviewPort([])).toBe(8800);
+		expect(freePreviewPort([8800, 8804])).toBe(8802);
+		expect(freePreviewPort(Array.from({ length: 10 }, (_, slot) => 8800 + slot * 2))).toBeUndefined();
+	});
+
+	it('only send JSON-RPC 2.0 messages', () => {
+		expect(() => assertValidJsonRpcMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).not.toThrow();
+		expect(() => assertValidJsonRpcMessage({ jsonrpc: '2.0', id: 1, result: {} })).not.toThrow();
+		expect(() => assertValidJsonRpcMessage({ id: 1, method: 'tools/list' })).toThrow(/JSON-RPC 2.0/);
+		expect(() => assertValidJsonRpcMessage([{ jsonrpc: '2.0', method: 'ping' }])).toThrow(/JSON-RPC 2.0/);
+	});
+});
@@ -0,0 +1,590 @@
+import { createExecutionContext, env } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { artifactKey } from '../src/builds';
+import { AgentClient } from '../src/container-backend';
+import { recordContainerEvent } from '../src/container-health';
+import { ensureSchema } from '../src/migrations';
+import type { JsonRpcMessage } from '../src/previews';
+import { ContainerManagerRPC } from '../src/rpc';
+import type { ServerSpec } from '../src/scaffold';
+import { latestSnapshotKey } from '../src/snapshots';
+
+/**
+ * ContainerManagerRPC with its containers in the local runtime (test/local-container.ts)
+ */
+class LocalContainerManagerRPC extends ContainerManagerRPC {
+	protected override getContainerBackend(containerId: string) {
+		return new AgentClient((path, init) =>
+			env.LOCAL_CONTAINER.fetch(`http://local-container/${containerId}${path}`, init)
+		);
+	}
+}
+
+function manager(principal = 'alice') {
+	const ctx = Object.assign(createExecutionContext(), { props: { principal } });
+	return new LocalContainerManagerRPC(ctx, { ...env, ADMIN_PRINCIPALS: 'ops' } as unknown as Env);
+}
+
+const TOOL = `this.server.tool("forecast", { city: z.string() }, async ({ city }) => ({
+	content: [{ type: "text", text: \`Sunny in \${city}\` }],
+}));`;
+
+beforeAll(async () => {
+	// The schema is created once per isolate, so it must outlive each test's isolated storage
+	await ensureSchema(env.DB);
+});
+
+describe('createSDKEnvironment', () => {
+	it('copies and personalizes the template, records the server and snapshots it', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('weather-api');
+
+		expect(created).toMatchObject({
+			success: true,
+			workspacePath: '/workspace/weather-api',
+			template: 'remote-mcp-authless',
+			entryFile: 'src/index.ts'
+		});
+		if (!created.success) {
+			return;
+		}
+
+		const source = await rpc.readFile(created.containerId, 'weather-api', 'src/index.ts');
+		expect(source.success && source.content).toContain(`class ${created.classNames.MyMCP} extends McpAgent`);
+		const capabilities = await rpc.listServerCapabilities(created.containerId, 'weather-api');
+		expect(capabilities.success && capabilities.tools).toEqual([]);
+
+		const server = await env.DB.prepare('SELECT owner, container_id FROM servers WHERE id = ?')
+			.bind('weather-api')
+			.first();
+		expect(server).toEqual({ owner: 'alice', container_id: created.containerId });
+		expect(await env.KV.get(latestSnapshotKey('weather-api'), 'json')).toMatchObject({
+			files: { 'src/index.ts': expect.any(Object), 'package.json': expect.any(Object) }
+		});
+
+		expect(await manager('bob').createSDKEnvironment('weather-api')).toMatchObject({
+			success: false,
+			code: 'PERMISSION_DENIED'
+		});
+	});
+
+	it('does not let another principal claim a server whose workspace is in the pool but that has no row', async () => {
+		expect(await manager().createSDKEnvironment('claimed-api')).toMatchObject({ success: true });
+		await env.DB.prepare('DELETE FROM servers WHERE id = ?').bind('claimed-api').run();
+
+		expect(await manager('bob').createSDKEnvironment('claimed-api')).toMatchObject({
+			success: false,
+			code: 'PERMISSION_DENIED'
+		});
+		expect(await env.DB.prepare('SELECT owner FROM servers WHERE id = ?').bind('claimed-api').first()).toBeNull();
+	});
+});
+
+describe('addToolToServer', () => {
+	it('registers the tool in init() and refuses a second one with the same name', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('forecast-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+
+		expect(await rpc.addToolToServer(created.containerId, 'forecast-api', 'forecast', TOOL)).toMatchObject({
+			success: true
+		});
+		const capabilities = await rpc.listServerCapabilities(created.containerId, 'forecast-api');
+		expect(capabilities.success && capabilities.tools.map((tool) => tool.name)).toEqual(['forecast']);
+
+		expect(await rpc.addToolToServer(created.containerId, 'forecast-api', 'forecast', TOOL)).toMatchObject({
+			success: false,
+			code: 'CAPABILITY_EXISTS'
+		});
+	});
+});
+
+describe('tool modules', () => {
+	it('keeps each tool in src/tools and its registration in the entry file', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('modules-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		const { containerId } = created;
+		await rpc.writeFile(
+			containerId,
+			'modules-api',
+			'src/lib/weather.ts',
+			'export const sunny = (city: string) => "Sunny in " + city;\n'
+		);
+
+		expect(
+			await rpc.addToolToServer(
+				containerId,
+				'modules-api',
+				'forecast',
+				`import { sunny } from "../lib/weather";
+
+this.server.tool("forecast", { city: z.string() }, async ({ city }) => ({
+	content: [{ type: "text", text: sunny(city) }],
+}));`,
+				{ module: true }
+			)
+		).toMatchObject({
+			success: true,
+			message: "Tool 'forecast' added to /workspace/modules-api/src/tools/forecast.ts"
+		});
+		expect(
+			await rpc.addToolFromSpec(
+				containerId,
+				'modules-api',
+				{ name: 'alerts', parameters: [{ name: 'region', type: 'string' }], handler: 'return { content: [] };' },
+				{ module: true }
+			)
+		).toMatchObject({ success: true });
+		expect(await rpc.addToolToServer(containerId, 'modules-api', 'forecast', TOOL)).toMatchObject({
+			code: 'CAPABILITY_EXISTS'
+		});
+
+		const capabilities = await rpc.listServerCapabilities(containerId, 'modules-api');
+		expect(capabilities.success && capabilities.tools).toMatchObject([
+			{ name: 'forecast', file: 'src/tools/forecast.ts', parameters: [{ name: 'city', type: 'string' }] },
+			{ name: 'alerts', file: 'src/tools/alerts.ts' }
+		]);
+
+		expect(
+			await rpc.updateTool(containerId, 'modules-api', 'alerts', TOOL.replace('"forecast"', '"warnings"'))
+		).toMatchObject({ success: true });
+		expect(await rpc.removeTool(containerId, 'modules-api', 'forecast')).toMatchObject({ success: true });
+
+		const entry = await rpc.readFile(containerId, 'modules-api', 'src/index.ts');
+		expect(entry.success && entry.content).toContain(
+			'import { register as registerWarnings } from "./tools/warnings";'
+		);
+		expect(entry.success && entry.content).not.toContain('registerForecast');
+		const files = await rpc.listFiles(containerId, 'modules-api', 'src/tools');
+		expect(files.success && files.entries.map((file) => file.path)).toEqual(['src/tools/warnings.ts']);
+
+		const build = await rpc.buildMCPServer(containerId, 'modules-api', {}, { typecheck: true });
+		expect(build).toMatchObject({ success: true, diagnostics: [] });
+	});
+});
+
+describe('scaffoldServer', () => {
+	const spec: ServerSpec = {
+		name: 'scaffold-api',
+		description: 'Scaffolded forecasts',
+		auth: 'bearer',
+		tools: [
+			{
+				name: 'forecast',
+				parameters: [{ name: 'city', type: 'string' }],
+				handler: 'return { content: [{ type: "text", text: city }] };'
+			}
+		],
+		resources: [
+			{
+				name: 'stations',
+				uri: 'weather://stations',
+				handler: 'return { contents: [{ uri: uri.href, text: "[]" }] };'
+			}
+		],
+		prompts: [
+			{
+				name: 'summary',
+				arguments: [{ name: 'city' }],
+				handler: 'return { messages: [{ role: "user", content: { type: "text", text: city } }] };'
+			}
+		],
+		bindings: [{ type: 'kv', name: 'CACHE', id: 'cache-id' }]
+	};
+
+	it('generates a workspace that builds and rewrites only what an edit changes', async () => {
+		const rpc = manager();
+		const first = await rpc.scaffoldServer(spec);
+
+		expect(first).toMatchObject({
+			success: true,
+			created: true,
+			written: ['mcp-server.json', 'package.json', 'src/index.ts', 'worker-configuration.d.ts', 'wrangler.jsonc'],
+			unchanged: []
+		});
+		if (!first.success) {
+			return;
+		}
+		expect(first.installExecutionId).toBeDefined();
+
+		expect(await rpc.scaffoldServer(spec)).toMatchObject({ success: true, created: false, written: [] });
+
+		const edited = await rpc.scaffoldServer({
+			...spec,
+			tools: [{ ...(spec.tools ?? [])[0], description: 'Forecast for a city' }]
+		});
+		expect(edited).toMatchObject({ success: true, written: ['mcp-server.json', 'src/index.ts'] });
+		expect(edited.success && edited.installExecutionId).toBeUndefined();
+
+		const capabilities = await rpc.listServerCapabilities(first.containerId, 'scaffold-api');
+		expect(capabilities.success && capabilities.tools).toMatchObject([
+			{ name: 'forecast', description: 'Forecast for a city' }
+		]);
+
+		const build = await rpc.buildMCPServer(first.containerId, 'scaffold-api', {}, { typecheck: true });
+		expect(build).toMatchObject({ success: true, diagnostics: [] });
+	});
+});
+
+describe('addBinding', () => {
+	it('declares the binding and types it in Env, so code using it type checks', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('binding-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		await rpc.writeFile(
+			created.containerId,
+			'binding-api',
+			'src/cache.ts',
+			'export const cached = (env: Env, key: string) => env.CACHE.get(key);\n'
+		);
+
+		expect(
+			await rpc.addBinding(created.containerId, 'binding-api', { type: 'kv', name: 'CACHE', id: 'cache-id' })
+		).toMatchObject({ success: true, files: ['wrangler.jsonc', 'worker-configuration.d.ts'] });
+		expect(
+			await rpc.addBinding(created.containerId, 'binding-api', { type: 'r2', name: 'CACHE', bucketName: 'cache' })
+		).toMatchObject({ success: false, code: 'CONFLICT' });
+		expect(await rpc.listBindings(created.containerId, 'binding-api')).toMatchObject({
+			success: true,
+			bindings: [
+				{ type: 'kv', name: 'CACHE', id: 'cache-id' },
+				{ type: 'durable_object', name: 'MCP_OBJECT', className: created.classNames.MyMCP }
+			]
+		});
+
+		const build = await rpc.buildMCPServer(created.containerId, 'binding-api', {}, { typecheck: true });
+		expect(build).toMatchObject({ success: true });
+
+		expect(await rpc.removeBinding(created.containerId, 'binding-api', 'CACHE')).toMatchObject({ success: true });
+		const broken = await rpc.buildMCPServer(created.containerId, 'binding-api', {}, { typecheck: true });
+		expect(!broken.success && broken.details?.diagnostics).toMatchObject([{ file: 'src/cache.ts', rule: 'TS2339' }]);
+	});
+});
+
+describe('buildMCPServer', () => {
+	it('installs, type checks and bundles the workspace and stores the artifact', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('build-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		await rpc.addToolToServer(created.containerId, 'build-api', 'forecast', TOOL);
+
+		const build = await rpc.buildMCPServer(created.containerId, 'build-api', {}, { typecheck: true });
+
+		expect(build).toMatchObject({ success: true, diagnostics: [] });
+		if (!build.success) {
+			return;
+		}
+		expect(build.stages.map(({ stage, status }) => `${stage}:${status}`)).toEqual([
+			'install:passed',
+			'typecheck:passed',
+			'lint:skipped',
+			'test:skipped',
+			'bundle:passed'
+		]);
+		expect(build.scriptContent).toContain('Sunny in');
+		expect(await env.KV.get(artifactKey(build.artifactHash))).toBe(build.scriptContent);
+		expect(await rpc.getBuild(build.buildId)).toMatchObject({
+			success: true,
+			build: { status: 'succeeded', artifactHash: build.artifactHash }
+		});
+
+		// The build checkpoints once, not after each of its commands
+		const history = await rpc.getWorkspaceHistory(created.containerId, 'build-api');
+		expect(history.success && history.commits.filter(({ message }) => message.startsWith('Run '))).toEqual([]);
+	});
+
+	it('reports type errors as diagnostics', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('broken-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		await rpc.writeFile(created.containerId, 'broken-api', 'src/broken.ts', 'export const count: number = "three";\n');
+
+		const build = await rpc.buildMCPServer(created.containerId, 'broken-api', {}, { typecheck: true });
+
+		expect(build).toMatchObject({ success: false, code: 'BUILD_FAILED' });
+		expect(!build.success && build.details?.diagnostics).toMatchObject([
+			{ stage: 'typecheck', severity: 'error', file: 'src/broken.ts', line: 1, rule: 'TS2322' }
+		]);
+	});
+});
+
+describe('workspace history', () => {
+	it('commits every change and reverts to the last state that built', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('history-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		const { containerId } = created;
+		await rpc.addToolToServer(containerId, 'history-api', 'forecast', TOOL);
+		await rpc.writeFile(containerId, 'history-api', 'src/broken.ts', 'export const count: number = "three";\n');
+
+		const history = await rpc.getWorkspaceHistory(containerId, 'history-api');
+		expect(history.success && history.commits.map(({ message, author }) => `${author}: ${message}`)).toEqual([
+			'alice: Write src/broken.ts',
+			"alice: Add tool 'forecast'",
+			'alice: Create history-api from the remote-mcp-authless template'
+		]);
+		if (!history.success) {
+			return;
+		}
+		expect(history.commits[0].files).toEqual([{ status: 'A', path: 'src/broken.ts' }]);
+
+		const diff = await rpc.diffWorkspace(containerId, 'history-api', 'HEAD~1');
+		expect(diff).toMatchObject({
+			success: true,
+			from: history.commits[1].commit,
+			to: history.commits[0].commit,
+			files: [{ path: 'src/broken.ts', additions: 1, deletions: 0 }]
+		});
+		expect(diff.success && diff.patch).toContain('+export const count: number = "three";');
+
+		expect(await rpc.buildMCPServer(containerId, 'history-api', {}, { typecheck: true })).toMatchObject({
+			success: false,
+			code: 'BUILD_FAILED'
+		});
+		expect(await rpc.revertWorkspace(containerId, 'history-api', history.commits[1].commit)).toMatchObject({
+			success: true,
+			revertedTo: history.commits[1].commit,
+			// The build's npm install committed a lockfile since
+			files: [{ path: 'package-lock.json' }, { path: 'src/broken.ts' }],
+			installExecutionId: expect.any(String)
+		});
+		expect(await rpc.buildMCPServer(containerId, 'history-api', {}, { typecheck: true })).toMatchObject({
+			success: true
+		});
+		expect(await rpc.readFile(containerId, 'history-api', 'src/broken.ts')).toMatchObject({ code: 'NOT_FOUND' });
+
+		const reverted = await rpc.getWorkspaceHistory(containerId, 'history-api', { path: 'src' });
+		expect(reverted.success && reverted.commits.map(({ message }) => message)).toEqual([
+			`Revert to ${history.commits[1].commit.slice(0, 7)}`,
+			'Write src/broken.ts',
+			"Add tool 'forecast'",
+			'Create history-api from the remote-mcp-authless template'
+		]);
+
+		expect(await rpc.diffWorkspace(containerId, 'history-api', 'HEAD; rm -rf /')).toMatchObject({
+			code: 'INVALID_ARGUMENT'
+		});
+		expect(await rpc.diffWorkspace(containerId, 'history-api', '0000000')).toMatchObject({ code: 'NOT_FOUND' });
+	});
+});
+
+describe('previews', () => {
+	it('runs the server with wrangler dev and proxies MCP requests to it', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('preview-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		await rpc.addToolToServer(created.containerId, 'preview-api', 'forecast', TOOL);
+
+		const started = await rpc.startPreview(created.containerId, 'preview-api');
+		expect(started).toMatchObject({ success: true, preview: { status: 'running', port: 8800 } });
+
+		try {
+			const initialized = await rpc.previewRequest('preview-api', {
+				jsonrpc: '2.0',
+				id: 1,
+				method: 'initialize',
+				params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+			});
+			expect(initialized).toMatchObject({
+				success: true,
+				httpStatus: 200,
+				response: { id: 1, result: { serverInfo: { version: '1.0.0' } } },
+				sessionId: expect.any(String)
+			});
+			expect(
+				await rpc.previewRequest('preview-api', { jsonrpc: '2.0', method: 'notifications/initialized' })
+			).toMatchObject({ success: true, httpStatus: 202, response: undefined, messages: [] });
+
+			const tools = await rpc.previewRequest('preview-api', { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+			expect(tools.success && tools.response).toMatchObject({ result: { tools: [{ name: 'forecast' }] } });
+			expect(
+				await rpc.previewRequest('preview-api', {
+					jsonrpc: '2.0',
+					id: 3,
+					method: 'tools/call',
+					params: { name: 'forecast', arguments: { city: 'Lisbon' } }
+				})
+			).toMatchObject({ success: true, response: { result: { content: [{ type: 'text', text: 'Sunny in Lisbon' }] } } });
+
+			expect(await rpc.previewRequest('preview-api', { method: 'tools/list' } as JsonRpcMessage)).toMatchObject({
+				code: 'INVALID_ARGUMENT'
+			});
+			expect(await manager('bob').previewRequest('preview-api', { jsonrpc: '2.0', id: 4, method: 'ping' })).toMatchObject({
+				code: 'PERMISSION_DENIED'
+			});
+			expect(await rpc.startPreview(created.containerId, 'preview-api')).toMatchObject({ code: 'CONFLICT' });
+		} finally {
+			expect(await rpc.stopPreview('preview-api')).toMatchObject({ success: true, preview: { status: 'stopped' } });
+		}
+
+		const logs = await rpc.getPreviewLogs('preview-api');
+		expect(logs).toMatchObject({ success: true, status: 'stopped', done: true });
+		expect(logs.success && logs.lines.join('\n')).toContain('Ready on http://127.0.0.1:8800');
+		expect(await rpc.previewRequest('preview-api', { jsonrpc: '2.0', id: 5, method: 'ping' })).toMatchObject({
+			code: 'CONFLICT'
+		});
+	});
+});
+
+describe('getContainerHealth', () => {
+	it('reports recorded lifecycle events to admins only', async () => {
+		await recordContainerEvent(env.DB, 'mcp-pool-2', 'start');
+		await recordContainerEvent(env.DB, 'mcp-pool-2', 'ready');
+
+		expect(await manager('ops').getContainerHealth('mcp-pool-2')).toMatchObject({
+			success: true,
+			containerId: 'mcp-pool-2',
+			status: 'running',
+			restarts: 0
+		});
+		expect(await manager().getContainerHealth('mcp-pool-2')).toMatchObject({
+			success: false,
+			code: 'PERMISSION_DENIED'
+		});
+	});
+});
+
+describe('streamExecutionLogs', () => {
+	it('streams recorded output and fails before streaming executions it cannot follow', async () => {
+		await env.DB.batch([
+			env.DB.prepare(`
+				INSERT INTO container_executions (id, server_id, container_id, command, status, output, started_at)
+				VALUES ('exec-streamed', 'stream-api', 'mcp-pool-0', 'echo hi', 'succeeded', 'hi', 1)
+			`),
+			env.DB.prepare(`
+				INSERT INTO container_execution_logs (execution_id, seq, stream, data, created_at)
+				VALUES ('exec-streamed', 1, 'stdout', 'hi', 1)
+			`)
+		]);
+
+		const result = await manager('ops').streamExecutionLogs('exec-streamed');
+		if (!result.success) {
+			throw new Error(result.error);
+		}
+		const lines = (await new Response(result.stream).text()).trim().split('\n').map((line) => JSON.parse(line));
+		expect(lines).toMatchObject([
+			{ type: 'output', seq: 1, stream: 'stdout', data: 'hi' },
+			{ type: 'status', status: 'succeeded' }
+		]);
+
+		expect(await manager('ops').streamExecutionLogs('exec-missing')).toMatchObject({
+			success: false,
+			code: 'NOT_FOUND'
+		});
+		expect(await manager().streamExecutionLogs('exec-streamed')).toMatchObject({
+			success: false,
+			code: 'PERMISSION_DENIED'
+		});
+	});
+});
+
+describe('authorization', () => {
+	it('validates server and container IDs before auditing the call', async () => {
+		const rpc = manager();
+
+		expect(await rpc.writeFile('mcp-pool-0', 'Not A Server', 'src/index.ts', '')).toMatchObject({
+			success: false,
+			code: 'INVALID_ARGUMENT'
+		});
+		expect(await rpc.executeInContainer('../mcp-pool-0', 'ls', 'weather-api')).toMatchObject({
+			success: false,
+			code: 'INVALID_ARGUMENT'
+		});
+		expect(await manager('ops').getAuditLog()).toMatchObject({ success: true, entries: [] });
+	});
+
+	it('lets only admins run shell commands, and only inside the workspace when one is given', async () => {
+		expect(await manager().executeInContainer('mcp-pool-0', 'ls', 'weather-api')).toMatchObject({
+			success: false,
+			code: 'PERMISSION_DENIED'
+		});
+		expect(
+			await manager('ops').executeInContainer('mcp-pool-0', 'ls', 'weather-api', { cwd: '/workspace/other-api' })
+		).toMatchObject({ success: false, code: 'INVALID_ARGUMENT' });
+
+		expect(await manager('ops').getAuditLog()).toMatchObject({
+			entries: [
+				{ principal: 'ops', serverId: 'weather-api', allowed: true },
+				{ principal: 'alice', serverId: 'weather-api', allowed: false }
+			]
+		});
+	});
+});
+
+describe('workspace containers', () => {
+	it('works in the container the pool assigned, whatever container the caller names', async () => {
+		const rpc = manager();
+		const created = await rpc.createSDKEnvironment('pinned-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+		const other = ['mcp-pool-0', 'mcp-pool-1', 'mcp-pool-2'].find((id) => id !== created.containerId) as string;
+
+		expect(await rpc.writeFile(other, 'pinned-api', 'notes.txt', 'kept')).toMatchObject({ success: true });
+		expect(await rpc.readFile(created.containerId, 'pinned-api', 'notes.txt')).toMatchObject({ content: 'kept' });
+		expect(await rpc.readFile(other, 'pinned-api', 'notes.txt')).toMatchObject({ content: 'kept' });
+		expect(await manager('ops').readFile(other, 'unassigned-api', 'notes.txt')).toMatchObject({
+			success: false,
+			code: 'WORKSPACE_NOT_FOUND'
+		});
+	});
+});
+
+describe('cancelExecution', () => {
+	it('kills a running command, keeps it cancelled and pages its output in order', async () => {
+		const rpc = manager('ops');
+		const created = await rpc.createSDKEnvironment('cancel-api');
+		if (!created.success) {
+			throw new Error(created.error);
+		}
+
+		const command = 'for i in 1 2 3; do echo out$i; echo err$i >&2; sleep 1.2; done; sleep 60';
+		const started = Date.now();
+		const running = rpc.executeInContainer(created.containerId, command, 'cancel-api');
+
+		// Wait until the command has logged all three rounds
+		let executionId: string | undefined;
+		let chunks = 0;
+		while (chunks < 6) {
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			const listed = await rpc.listExecutions({ serverId: 'cancel-api', status: 'running' });
+			executionId = listed.success ? listed.executions[0]?.id : undefined;
+			const logs = executionId ? await rpc.getExecutionLogs(executionId) : undefined;
+			chunks = logs?.success ? logs.chunks.length : 0;
+		}
+		const id = executionId as string;
+
+		const pages: { seq: number; stream: string; data: string }[] = [];
+		let afterSeq = 0;
+		while (true) {
+			const page = await rpc.getExecutionLogs(id, afterSeq, 2);
+			if (!page.success || page.chunks.length === 0) {
+				break;
+			}
+			pages.push(...page.chunks);
+			afterSeq = page.nextSeq;
+		}
+		expect(pages.map(({ seq }) => seq)).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(pages.map(({ data }) => data.trim())).toEqual(['out1', 'err1', 'out2', 'err2', 'out3', 'err3']);
+
+		expect(await rpc.cancelExecution(id)).toMatchObject({ success: true, status: 'cancelled', processKilled: true });
+		expect(await running).toMatchObject({ success: false, code: 'CANCELLED', details: { status: 'cancelled' } });
+		expect(Date.now() - started).toBeLessThan(30_000);
+		expect(await rpc.getExecution(id)).toMatchObject({ success: true, execution: { status: 'cancelled' } });
+	});
+});
@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { ContainerManagerError } from '../src/errors';
+import { generateServerFiles, type ServerSpec, type TemplateBase, validateServerSpec } from '../src/scaffold';
+
+// Trimmed copies of the remote-mcp-authless files the generated ones start from
+const base: TemplateBase = {
+	'package.json': JSON.stringify({
+		name: 'remote-mcp-server-authless',
+		version: '0.0.0',
+		private: true,
+		scripts: { deploy: 'wrangler deploy' },
+		dependencies: { agents: '^0.2.8', zod: '^3.25.76' },
+		devDependencies: { wrangler: '^4.42.0' }
+	}),
+	'wrangler.jsonc': `// Template config
+{
+	"name": "remote-mcp-server-authless",
+	"main": "src/index.ts",
+	"compatibility_date": "2025-03-10",
+	"migrations": [{ "new_sqlite_classes": ["MyMCP"], "tag": "v1" }],
+	"durable_objects": { "bindings": [{ "class_name": "MyMCP", "name": "MCP_OBJECT" }] }
+}`,
+	'worker-configuration.d.ts': `// Generated by Wrangler
+declare namespace Cloudflare {
+	interface Env {
+		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+	}
+}
+interface Env extends Cloudflare.Env {}
+
+// Begin runtime types
+interface KVNamespace {}
+`
+};
+
+const spec: ServerSpec = {
+	name: 'weather-api',
+	description: 'Weather forecasts',
+	tools: [
+		{
+			name: 'forecast',
+			description: 'Forecast for a city',
+			parameters: [{ name: 'city', type: 'string' }],
+			handler: 'return { content: [{ type: "text", text: city }] };'
+		}
+	],
+	resources: [
+		{
+			name: 'stations',
+			uri: 'weather://stations',
+			mimeType: 'application/json',
+			handler: 'return { contents: [{ uri: uri.href, text: "[]" }] };'
+		}
+	],
+	prompts: [
+		{
+			name: 'summary',
+			arguments: [{ name: 'city' }, { name: 'day-of-week', optional: true }],
+			handler: 'return { messages: [] };'
+		}
+	],
+	bindings: [
+		{ type: 'var', name: 'UNITS', value: 'metric' },
+		{ type: 'kv', name: 'CACHE', id: 'abc123' }
+	],
+	dependencies: ['date-fns@^4.1.0']
+};
+
+const generate = (input: ServerSpec) => generateServerFiles(validateServerSpec(input), base);
+
+// Lines of b that are not in a, and of a that are not in b
+const lineDiff = (a: string, b: string) => {
+	const before = a.split('\n');
+	const after = b.split('\n');
+	return {
+		added: after.filter((line) => !before.includes(line)),
+		removed: before.filter((line) => !after.includes(line))
+	};
+};
+
+describe('generateServerFiles', () => {
+	it('generates the whole workspace from the spec', () => {
+		const files = generate(spec);
+
+		expect(Object.keys(files)).toEqual([
+			'mcp-server.json',
+			'package.json',
+			'src/index.ts',
+			'worker-configuration.d.ts',
+			'wrangler.jsonc'
+		]);
+
+		const index = files['src/index.ts'];
+		expect(index).toContain('export class WeatherApiMCP extends McpAgent {');
+		expect(index).toContain('name: "weather-api",');
+		expect(index).toContain('import { z } from "zod";');
+		expect(index).toContain('\t\tthis.server.tool(\n\t\t\t"forecast",');
+		expect(index).toContain('\t\tthis.server.resource(\n\t\t\t"stations",\n\t\t\t"weather://stations",');
+		expect(index).toContain('"day-of-week": z.string().optional(),');
+		expect(index).toContain('async ({ city, "day-of-week": dayOfWeek }) => {');
+		expect(index).toContain('return WeatherApiMCP.serve("/mcp").fetch(request, env, ctx);');
+		expect(index).not.toContain('Authorization');
+
+		expect(JSON.parse(files['package.json'])).toEqual({
+			name: 'weather-api',
+			description: 'Weather forecasts',
+			version: '0.0.0',
+			private: true,
+			scripts: { deploy: 'wrangler deploy' },
+			dependencies: { agents: '^0.2.8', 'date-fns': '^4.1.0', zod: '^3.25.76' },
+			devDependencies: { wrangler: '^4.42.0' }
+		});
+
+		const wrangler = files['wrangler.jsonc'];
+		expect(wrangler).toMatch(/^\/\/ Template config\n/);
+		expect(wrangler).toContain('"name": "weather-api"');
+		expect(wrangler).toContain('"class_name": "WeatherApiMCP"');
+		expect(wrangler).toContain('"kv_namespaces": [\n\t\t{\n\t\t\t"binding": "CACHE",\n\t\t\t"id": "abc123"');
+		expect(wrangler).toContain('"vars": {\n\t\t"UNITS": "metric"\n\t}');
+
+		expect(files['worker-configuration.d.ts']).toBe(`// Env generated by scaffoldServer from mcp-server.json
+declare namespace Cloudflare {
+	interface Env {
+		MCP_OBJECT: DurableObjectNamespace<import("./src/index").WeatherApiMCP>;
+		CACHE: KVNamespace;
+		UNITS: "metric";
+	}
+}
+interface Env extends Cloudflare.Env {}
+
+// Begin runtime types
+interface KVNamespace {}
+`);
+
+		expect(JSON.parse(files['mcp-server.json'])).toMatchObject({
+			name: 'weather-api',
+			template: 'remote-mcp-authless',
+			auth: 'none'
+		});
+	});
+
+	it('is deterministic and keeps edits to the lines they touch', () => {
+		expect(generate(spec)).toEqual(generate(spec));
+
+		const edited = generate({
+			...spec,
+			bindings: [...(spec.bindings ?? []), { type: 'd1', name: 'DB', databaseName: 'weather', databaseId: 'd1-id' }],
+			dependencies: ['date-fns@^4.1.0', 'ky@^1.7.0']
+		});
+		const files = generate(spec);
+
+		expect(edited['src/index.ts']).toBe(files['src/index.ts']);
+		expect(lineDiff(files['package.json'], edited['package.json'])).toEqual({
+			added: ['\t\t"ky": "^1.7.0",'],
+			removed: []
+		});
+		expect(lineDiff(files['worker-configuration.d.ts'], edited['worker-configuration.d.ts'])).toEqual({
+			added: ['\t\tDB: D1Database;'],
+			removed: []
+		});
+		expect(lineDiff(files['wrangler.jsonc'], edited['wrangler.jsonc']).added).toEqual([
+			'\t"d1_databases": [',
+			'\t\t\t"binding": "DB",',
+			'\t\t\t"database_name": "weather",',
+			'\t\t\t"database_id": "d1-id"'
+		]);
+	});
+
+	it('checks every request with the bearer token when auth is bearer', () => {
+		const files = generate({ ...spec, auth: 'bearer' });
+
+		expect(files['src/index.ts']).toContain('const token = env.MCP_AUTH_TOKEN;');
+		expect(files['src/index.ts']).toContain('return new Response("Unauthorized", {');
+		expect(files['worker-configuration.d.ts']).toContain('\t\tMCP_AUTH_TOKEN: string;');
+	});
+
+	it('does not import zod when nothing uses it', () => {
+		const files = generate({ name: 'empty-server' });
+
+		expect(files['src/index.ts']).not.toContain('zod');
+		expect(files['src/index.ts']).toContain('// Add tools, resources and prompts to mcp-server.json');
+	});
+
+	it('reports handlers that do not parse', () => {
+		expect(() => generate({ name: 'broken', tools: [{ name: 'oops', handler: 'return {' }] })).toThrow(
+			/Generated src\/index.ts does not parse/
+		);
+	});
+});
+
+describe('validateServerSpec', () => {
+	const invalid = (input: unknown) => {
+		try {
+			validateServerSpec(input as ServerSpec);
+		} catch (error) {
+			expect(error).toBeInstanceOf(ContainerManagerError);
+			expect((error as ContainerManagerError).code).toBe('INVALID_ARGUMENT');
+			return (error as Error).message;
+		}
+		throw new Error('Spec was accepted');
+	};
+
+	it('rejects invalid specs', () => {
+		expect(invalid({ name: 'Weather' })).toMatch(/server ID/i);
+		expect(invalid({ name: 'weather', template: 'routing' })).toMatch(/not an MCP server template/);
+		expect(invalid({ name: 'weather', auth: 'oauth' })).toMatch(/Invalid auth mode/);
+		expect(
+			invalid({
+				name: 'weather',
+				tools: [
+					{ name: 'a', handler: 'return x;' },
+					{ name: 'a', handler: 'return y;' }
+				]
+			})
+		).toMatch(/Duplicate tool 'a'/);
+		expect(invalid({ name: 'weather', resources: [{ name: 'r', uri: 'not a uri', handler: 'x' }] })).toMatch(
+			/absolute URI/
+		);
+		expect(invalid({ name: 'weather', bindings: [{ type: 'kv', name: 'CACHE' }] })).toMatch(/string 'id'/);
+		expect(invalid({ name: 'weather', bindings: [{ type: 'ai', name: 'MCP_OBJECT' }] })).toMatch(/reserved/);
+		expect(invalid({ name: 'weather', dependencies: ['zod', 'zod@^3.0.0'] })).toMatch(/Duplicate dependency 'zod'/);
+	});
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { insertIntoInit, replaceRegistration } from '../src/source-editor';
+
+const SOURCE = `import { McpAgent } from "agents/mcp";
+
+export class WeatherApiMCP extends McpAgent {
+	async init() {
+		this.server.tool("add", {}, async () => ({ content: [] }));
+	}
+}
+`;
+
+describe('insertIntoInit', () => {
+	it('appends the snippet to the body of init()', () => {
+		const sub = 'this.server.tool("sub", {}, async () => ({ content: [] }));';
+
+		expect(insertIntoInit(SOURCE, 'tool', sub)).toContain(
+			`\t\tthis.server.tool("add", {}, async () => ({ content: [] }));\n\n\t\t${sub}\n\t}\n}`
+		);
+	});
+
+	it('refuses code that closes init() to add members of its own', () => {
+		expect(() => insertIntoInit(SOURCE, 'tool', '} evil() {')).toThrow(/must stay inside init\(\)/);
+		expect(() => insertIntoInit(SOURCE, 'tool', '}}\nclass Other {\n\tasync init() {')).toThrow(
+			/must stay inside init\(\)/
+		);
+		expect(() => replaceRegistration(SOURCE, 'tool', 'add', '} async init() {')).toThrow(/must stay inside init\(\)/);
+	});
+});
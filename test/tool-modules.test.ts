@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+	addToolModuleToEntry,
+	findToolModules,
+	generateToolModule,
+	removeToolModuleFromEntry
+} from '../src/tool-modules';
+
+// A personalized remote-mcp-authless entry file with one inline tool
+const ENTRY = `import { McpAgent } from "agents/mcp";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+export class WeatherApiMCP extends McpAgent {
+	server = new McpServer({
+		name: "weather-api",
+		version: "1.0.0",
+	});
+
+	async init() {
+		this.server.tool("add", { a: z.number(), b: z.number() }, async ({ a, b }) => ({
+			content: [{ type: "text", text: String(a + b) }],
+		}));
+	}
+}
+`;
+
+const TOOL = `this.server.tool("get-weather", { city: z.string() }, async ({ city }) => ({
+	content: [{ type: "text", text: city }],
+}));`;
+
+describe('generateToolModule', () => {
+	it('turns registration code into a module exporting register(server)', () => {
+		expect(generateToolModule(`import { sunny } from "../lib/weather";\n\n${TOOL}`)).toEqual({
+			name: 'get-weather',
+			source: `import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { sunny } from "../lib/weather";
+
+export function register(server: McpServer) {
+	server.tool("get-weather", { city: z.string() }, async ({ city }) => ({
+		content: [{ type: "text", text: city }],
+	}));
+}
+`
+		});
+	});
+
+	it('rejects code that does not fit in a module', () => {
+		expect(() => generateToolModule(`const key = this.env.KEY;\n${TOOL}`)).toThrow(/cannot use `this` \(line 1\)/);
+		expect(() => generateToolModule(`import { other } from "./other";\n${TOOL}`)).toThrow(/only import shared helpers/);
+		expect(() => generateToolModule(`${TOOL}\n${TOOL}`)).toThrow(/exactly one tool, found 2/);
+	});
+});
+
+describe('tool module registrations', () => {
+	it('maintains the import and register call of each module in the entry file', () => {
+		const entry = addToolModuleToEntry(addToolModuleToEntry(ENTRY, 'get-weather'), 'alerts');
+
+		expect(entry).toContain(`import { z } from "zod";
+import { register as registerGetWeather } from "./tools/get-weather";
+import { register as registerAlerts } from "./tools/alerts";
+`);
+		expect(entry).toContain(`		}));
+
+		registerGetWeather(this.server);
+		registerAlerts(this.server);
+	}`);
+		expect(findToolModules(entry).map((module) => module.path)).toEqual([
+			'src/tools/get-weather.ts',
+			'src/tools/alerts.ts'
+		]);
+
+		expect(removeToolModuleFromEntry(removeToolModuleFromEntry(entry, 'alerts'), 'get-weather')).toBe(ENTRY);
+	});
+
+	it('refuses names that are taken', () => {
+		expect(() => addToolModuleToEntry(ENTRY, 'add')).toThrow(/already registered/);
+		expect(() => addToolModuleToEntry(addToolModuleToEntry(ENTRY, 'get-weather'), 'get_weather')).toThrow(
+			/registerGetWeather, which another tool module already uses/
+		);
+	});
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { generateToolCode, type ToolSpec } from '../src/tool-spec';
+
+const spec: ToolSpec = {
+	name: 'forecast',
+	title: 'Forecast',
+	parameters: [{ name: 'city', type: 'string' }],
+	annotations: { readOnlyHint: true, openWorldHint: false },
+	handler: 'return { content: [{ type: "text", text: city }] };'
+};
+
+describe('generateToolCode', () => {
+	it('writes the title and annotations as the annotations argument', () => {
+		expect(generateToolCode(spec)).toContain('\t{ title: "Forecast", readOnlyHint: true, openWorldHint: false },\n');
+	});
+
+	it('refuses annotations MCP does not define, or of the wrong type', () => {
+		const annotations = (value: Record<string, unknown>) => ({ ...spec, annotations: value }) as ToolSpec;
+
+		expect(() => generateToolCode(annotations({ 'read-only': true }))).toThrow(/unknown annotation 'read-only'/);
+		expect(() => generateToolCode(annotations({ destructiveHint: 'yes' }))).toThrow(
+			/annotation 'destructiveHint' must be a boolean/
+		);
+	});
+});
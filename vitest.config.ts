@@ -0,0 +1,35 @@
+import { fileURLToPath } from 'node:url';
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { LocalContainerRuntime } from './test/local-container';
+
+// Containers run locally for the tests: commands run as Node child processes in a temp directory
+const containers = await LocalContainerRuntime.create(
+	fileURLToPath(new URL('./agents', import.meta.url)),
+	fileURLToPath(new URL('./node_modules', import.meta.url))
+);
+process.on('exit', () => containers.dispose());
+
+// Tests run in workerd against local stand-ins for the bindings they need
+// (the vendored agents/ templates have their own suites and are not run here)
+export default defineWorkersConfig({
+	test: {
+		include: ['test/**/*.test.ts'],
+		// Builds run npm, tsc and wrangler in the local containers
+		testTimeout: 120_000,
+		poolOptions: {
+			workers: {
+				main: './src/index.ts',
+				miniflare: {
+					// The pool's test runner does not start on the worker's 2025-10-08 compatibility date
+					compatibilityDate: '2025-07-01',
+					// That date turns the fs and os modules on by default; the typescript package needs them
+					compatibilityFlags: ['nodejs_compat', 'enable_nodejs_fs_module', 'enable_nodejs_os_module'],
+					d1Databases: ['DB'],
+					kvNamespaces: ['KV'],
+					durableObjects: { CONTAINER_POOL: 'ContainerPool' },
+					serviceBindings: { LOCAL_CONTAINER: (request) => containers.fetch(request) }
+				}
+			}
+		}
+	}
+});
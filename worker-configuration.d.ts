@@ -4,7 +4,14 @@
 declare namespace Cloudflare {
 	interface Env {
 		MY_CONTAINER: DurableObjectNamespace<import("./src/index").MyContainer>;
+		CONTAINER_POOL: DurableObjectNamespace<import("./src/index").ContainerPool>;
 		DB: D1Database; // Added for container execution tracking
+		KV: KVNamespace; // Build artifacts and source manifests, by content hash
+		DISPATCHER: DispatchNamespace;
+		WORKER_PUBLISHER: Fetcher & import("./src/publisher").WorkerPublisherService;
+		DISPATCH_BASE_URL?: string; // Public URL of the dispatch worker that routes /<server>/... into DISPATCHER
+		NPM_REGISTRY_URL?: string; // npm registry mirror reachable from the containers; without one, installs run offline
+		ADMIN_PRINCIPALS?: string; // comma-separated principals that may do anything, including operations on whole containers
 	}
 }
 interface Env extends Cloudflare.Env {}